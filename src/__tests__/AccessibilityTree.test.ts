@@ -0,0 +1,148 @@
+/**
+ * AccessibilityTree Tests
+ *
+ * Tests for aria snapshot parsing, tree diffs and the screen-reader checks built on them
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  parseAriaSnapshot,
+  diffAccessibilityTrees,
+  findAccessibilityDiffIssues,
+  describeChange,
+} from '../core/AccessibilityTree.js'
+import type { Action } from '../core/types.js'
+
+const save: Action = { type: 'click', selector: '#save', label: 'Save' }
+
+describe('parseAriaSnapshot', () => {
+  it('should parse roles, names, attributes and nesting', () => {
+    const tree = parseAriaSnapshot(`
+- navigation:
+  - link "Home":
+    - /url: /
+- heading "Songs" [level=1]
+- checkbox "Shuffle" [checked]
+- textbox "Search": rock
+- paragraph: 3 results
+- text: Done`)
+
+    expect(tree.children).toEqual([
+      {
+        role: 'navigation',
+        children: [{ role: 'link', name: 'Home', attributes: { url: '/' } }],
+      },
+      { role: 'heading', name: 'Songs', attributes: { level: '1' } },
+      { role: 'checkbox', name: 'Shuffle', attributes: { checked: 'true' } },
+      { role: 'textbox', name: 'Search', attributes: { value: 'rock' } },
+      { role: 'paragraph', children: [{ role: 'text', name: '3 results' }] },
+      { role: 'text', name: 'Done' },
+    ])
+  })
+
+  it('should unquote YAML strings', () => {
+    const tree = parseAriaSnapshot(`- 'heading "Note: it''s \\"new\\"" [level=2]'\n- text: "a: b"`)
+
+    expect(tree.children).toEqual([
+      { role: 'heading', name: 'Note: it\'s "new"', attributes: { level: '2' } },
+      { role: 'text', name: 'a: b' },
+    ])
+  })
+})
+
+describe('diffAccessibilityTrees', () => {
+  const before = parseAriaSnapshot(`
+- main:
+  - heading "Song" [level=1]
+  - button "Save"
+  - list:
+    - listitem: Draft
+    - listitem: Chorus`)
+
+  it('should report nothing for identical trees', () => {
+    expect(diffAccessibilityTrees(before, before)).toEqual({ changes: [], total: 0 })
+  })
+
+  it('should report added, removed and changed nodes', () => {
+    const after = parseAriaSnapshot(`
+- main:
+  - heading "Song" [level=1]
+  - button "Saving" [disabled]
+  - status: Saved
+  - list:
+    - listitem: Chorus`)
+
+    const diff = diffAccessibilityTrees(before, after)
+
+    expect(diff.changes.map(describeChange)).toEqual([
+      '~ main > button "Save" -> button "Saving" [disabled]',
+      '+ main > status',
+      '+ main > status > text: Saved',
+      '- main > list > listitem',
+      '- main > list > listitem > text: Draft',
+    ])
+    expect(diff.total).toBe(5)
+  })
+
+  it('should keep the diff small', () => {
+    const after = parseAriaSnapshot(Array.from({ length: 30 }, (_, i) => `- text: row ${i}`).join('\n'))
+    const diff = diffAccessibilityTrees(before, after, 10)
+
+    expect(diff.changes).toHaveLength(10)
+    expect(diff.total).toBeGreaterThan(10)
+  })
+})
+
+describe('findAccessibilityDiffIssues', () => {
+  const before = parseAriaSnapshot(`
+- main:
+  - button "Save"
+  - button "Menu" [expanded=false]`)
+
+  const issuesFor = (after: string, action = save, navigated = false) =>
+    findAccessibilityDiffIssues(diffAccessibilityTrees(before, parseAriaSnapshot(after)), action, {
+      viewport: 'desktop',
+      navigated,
+    }).map((issue) => issue.rule)
+
+  it('should flag content that changes without being announced', () => {
+    expect(issuesFor(`
+- main:
+  - button "Save"
+  - button "Menu" [expanded=false]
+  - paragraph: Saved`)).toEqual(['unannounced-change'])
+  })
+
+  it('should accept changes in live regions and control states', () => {
+    expect(issuesFor(`
+- main:
+  - button "Save"
+  - button "Menu" [expanded=false]
+  - status: Saved`)).toEqual([])
+
+    expect(issuesFor(`
+- main:
+  - button "Save"
+  - button "Menu" [expanded=true]
+  - menu:
+    - menuitem "Rename"`)).toEqual([])
+  })
+
+  it('should not flag typing or navigation', () => {
+    const after = `
+- main:
+  - button "Save"
+  - button "Menu" [expanded=false]
+  - paragraph: Saved`
+
+    expect(issuesFor(after, { ...save, type: 'fill', value: 'x' })).toEqual([])
+    expect(issuesFor(after, save, true)).toEqual([])
+  })
+
+  it('should flag controls that change role or lose their name', () => {
+    expect(issuesFor(`
+- main:
+  - link "Save"
+  - button [expanded=false]`)).toEqual(['control-role-changed', 'control-name-lost'])
+  })
+})
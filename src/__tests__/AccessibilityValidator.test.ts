@@ -268,6 +268,54 @@ describe('AccessibilityValidator', () => {
     })
   })
 
+  describe('validateChanges', () => {
+    const mockBuilder = () => ({
+      withTags: vi.fn().mockReturnThis(),
+      include: vi.fn().mockReturnThis(),
+      exclude: vi.fn().mockReturnThis(),
+      disableRules: vi.fn().mockReturnThis(),
+      analyze: vi.fn().mockResolvedValue({ violations: [], incomplete: [] }),
+    })
+
+    it('should skip the scan when nothing changed or the page navigated', async () => {
+      const AxeBuilder = (await import('@axe-core/playwright')).default
+      const mockPage = { evaluate: vi.fn().mockResolvedValue(null) } as unknown as import('playwright').Page
+
+      const result = await validator.validateChanges(mockPage, 'desktop')
+
+      expect(result.issues).toHaveLength(0)
+      expect(AxeBuilder).not.toHaveBeenCalled()
+    })
+
+    it('should only scan the changed regions', async () => {
+      const AxeBuilder = (await import('@axe-core/playwright')).default
+      const builder = mockBuilder()
+      ;(AxeBuilder as unknown as ReturnType<typeof vi.fn>).mockReturnValue(builder)
+      const mockPage = {
+        evaluate: vi.fn().mockResolvedValue(['#toast', 'body > main > form']),
+      } as unknown as import('playwright').Page
+
+      await validator.validateChanges(mockPage, 'desktop')
+
+      expect(builder.include).toHaveBeenCalledWith('#toast')
+      expect(builder.include).toHaveBeenCalledWith('body > main > form')
+      expect(builder.analyze).toHaveBeenCalled()
+    })
+
+    it('should scan the whole page when the body changed or too much changed', async () => {
+      const AxeBuilder = (await import('@axe-core/playwright')).default
+      const builder = mockBuilder()
+      ;(AxeBuilder as unknown as ReturnType<typeof vi.fn>).mockReturnValue(builder)
+      const v = new AccessibilityValidator({ maxRegions: 2 })
+
+      await v.validateChanges({ evaluate: vi.fn().mockResolvedValue(['body']) } as never, 'desktop')
+      await v.validateChanges({ evaluate: vi.fn().mockResolvedValue(['#a', '#b', '#c']) } as never, 'desktop')
+
+      expect(builder.include).not.toHaveBeenCalled()
+      expect(builder.analyze).toHaveBeenCalledTimes(2)
+    })
+  })
+
   describe('summarizeIssues', () => {
     it('should count issues by severity', () => {
       const issues: Issue[] = [
@@ -5,7 +5,7 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest'
-import { ActionDiscovery } from '../core/ActionDiscovery.js'
+import { ActionDiscovery, locateAction } from '../core/ActionDiscovery.js'
 import type { DiscoveredAction } from '../core/types.js'
 
 // Mock Playwright Page
@@ -88,6 +88,18 @@ describe('ActionDiscovery', () => {
       expect(actions[0].label).toBe('Submit')
     })
 
+    it('should mark actions destructive by the configured patterns', async () => {
+      const ad = new ActionDiscovery({ destructivePatterns: ['archive'] })
+      const mockPage = createMockPage([])
+
+      await ad.discoverActions(mockPage as unknown as import('playwright').Page)
+
+      expect(mockPage.evaluate).toHaveBeenCalledWith(
+        expect.any(Function),
+        expect.objectContaining({ destructiveLabels: ['archive'] })
+      )
+    })
+
     it('should discover links', async () => {
       const mockActions: Partial<DiscoveredAction>[] = [
         {
@@ -252,6 +264,38 @@ describe('ActionDiscovery', () => {
       expect(actions).toEqual([])
     })
 
+    it('should keep the frame path of actions inside iframes', async () => {
+      const mockActions: Partial<DiscoveredAction>[] = [
+        {
+          type: 'fill',
+          selector: '#card-number',
+          label: 'Card number',
+          tagName: 'input',
+          visible: true,
+          enabled: true,
+          destructive: false,
+          frame: ['#checkout-frame'],
+        },
+        {
+          type: 'click',
+          selector: 'ds-dialog >> button:nth-of-type(2)',
+          label: 'Confirm',
+          tagName: 'button',
+          visible: true,
+          enabled: true,
+          destructive: false,
+        },
+      ]
+
+      const actions = await actionDiscovery.discoverActions(
+        createMockPage(mockActions) as unknown as import('playwright').Page
+      )
+
+      expect(actions[0].frame).toEqual(['#checkout-frame'])
+      expect(actions[1].frame).toBeUndefined()
+      expect(actions[1].selector).toBe('ds-dialog >> button:nth-of-type(2)')
+    })
+
     it('should respect maxActions limit', async () => {
       const ad = new ActionDiscovery({ maxActions: 5 })
       const manyActions = Array.from({ length: 10 }, (_, i) => ({
@@ -483,6 +527,7 @@ describe('ActionDiscovery', () => {
     it('should find form submit buttons', async () => {
       const mockForm = {
         isVisible: vi.fn().mockResolvedValue(true),
+        evaluate: vi.fn().mockResolvedValue({ selector: 'form >> nth=0', fields: [] }),
         locator: vi.fn().mockReturnValue({
           count: vi.fn().mockResolvedValue(1),
           first: vi.fn().mockReturnValue({
@@ -549,6 +594,73 @@ describe('ActionDiscovery', () => {
 
       expect(actions.length).toBe(0)
     })
+
+    it('should carry the form fields and find the button within its form', async () => {
+      const fields = [
+        { type: 'fill', selector: '#email', label: 'Email', field: { type: 'email', name: 'email' } },
+        { type: 'select', selector: 'form >> nth=1 >> [name="plan"]', label: 'Plan', value: 'pro' },
+        { type: 'check', selector: '#terms', label: 'I agree' },
+      ]
+      const mockForm = {
+        isVisible: vi.fn().mockResolvedValue(true),
+        evaluate: vi.fn().mockResolvedValue({ selector: 'form >> nth=1', fields }),
+        locator: vi.fn().mockReturnValue({
+          count: vi.fn().mockResolvedValue(1),
+          first: vi.fn().mockReturnValue({
+            getAttribute: vi.fn().mockResolvedValue(null),
+            innerText: vi.fn().mockResolvedValue('Create account'),
+            evaluate: vi.fn().mockResolvedValue('button[type="submit"]'),
+          }),
+        }),
+      }
+
+      const mockPage = {
+        locator: vi.fn().mockReturnValue({
+          all: vi.fn().mockResolvedValue([{ isVisible: vi.fn().mockResolvedValue(false) }, mockForm]),
+        }),
+      }
+
+      const [action] = await actionDiscovery.getFormActions(
+        mockPage as unknown as import('playwright').Page
+      )
+
+      expect(action).toMatchObject({
+        type: 'submit',
+        selector: 'form >> nth=1 >> button[type="submit"]',
+        label: 'Submit form: Create account',
+        form: 'form >> nth=1',
+        destructive: false,
+      })
+      expect(action.fields).toEqual(fields)
+      expect(mockForm.evaluate).toHaveBeenCalledWith(expect.any(Function), {
+        index: 1,
+        ignore: expect.arrayContaining(['[data-no-explore]']),
+      })
+    })
+
+    it('should skip forms inside ignored elements', async () => {
+      const mockForm = {
+        isVisible: vi.fn().mockResolvedValue(true),
+        evaluate: vi.fn().mockResolvedValue(null),
+        locator: vi.fn().mockReturnValue({
+          count: vi.fn().mockResolvedValue(1),
+          first: vi.fn(),
+        }),
+      }
+
+      const mockPage = {
+        locator: vi.fn().mockReturnValue({
+          all: vi.fn().mockResolvedValue([mockForm]),
+        }),
+      }
+
+      const actions = await actionDiscovery.getFormActions(
+        mockPage as unknown as import('playwright').Page,
+        ['.admin']
+      )
+
+      expect(actions.length).toBe(0)
+    })
   })
 
   describe('action types', () => {
@@ -573,4 +685,210 @@ describe('ActionDiscovery', () => {
       expect(types).toContain('check')
     })
   })
+
+  describe('scrolling discovery', () => {
+    const button = (selector: string): Partial<DiscoveredAction> => ({
+      type: 'click',
+      selector,
+      label: selector,
+      tagName: 'button',
+      visible: true,
+      enabled: true,
+      destructive: false,
+    })
+
+    // Answers each page script by what it's given: discovery, containers, scroll steps, metrics
+    function createScrollingPage(options: {
+      discoveries: Partial<DiscoveredAction>[][]
+      steps: Array<{ moved: boolean; height: number }>
+      metrics: Array<{ x: number; y: number; height: number }>
+    }) {
+      return {
+        evaluate: vi.fn().mockImplementation(async (fn: unknown, arg: unknown) => {
+          if (arg && typeof arg === 'object' && 'selectors' in arg) return options.discoveries.shift() || []
+          if (arg && typeof arg === 'object' && 'max' in arg) return []
+          if (Array.isArray(arg)) return undefined
+          return String(fn).includes('moved') ? options.steps.shift() : options.metrics.shift()
+        }),
+        waitForTimeout: vi.fn().mockResolvedValue(undefined),
+      }
+    }
+
+    it('should only look at the viewport when scrolling is off', async () => {
+      const mockPage = createMockPage([button('#a')])
+
+      await actionDiscovery.discoverActions(mockPage as never)
+
+      expect(mockPage.evaluate).toHaveBeenCalledTimes(1)
+    })
+
+    it('should collect elements below the fold with their scroll position', async () => {
+      const ad = new ActionDiscovery({ scroll: { maxSteps: 5, containers: false, settleDelay: 0 } })
+      const mockPage = createScrollingPage({
+        discoveries: [[button('#a')], [button('#a'), button('#b')]],
+        steps: [
+          { moved: true, height: 2000 },
+          { moved: false, height: 2000 },
+        ],
+        metrics: [
+          { x: 0, y: 700, height: 2000 },
+          { x: 0, y: 700, height: 2000 },
+        ],
+      })
+
+      const actions = await ad.discoverActions(mockPage as never)
+
+      expect(actions.map((a) => [a.selector, a.scroll])).toEqual([
+        ['#a', undefined],
+        ['#b', { x: 0, y: 700 }],
+      ])
+    })
+
+    it('should add a scroll action when scrolling loads more content', async () => {
+      const ad = new ActionDiscovery({ scroll: { maxSteps: 5, containers: false, settleDelay: 0 } })
+      const mockPage = createScrollingPage({
+        discoveries: [[button('#a')], [button('#a'), button('#more-1')]],
+        steps: [
+          { moved: true, height: 2000 },
+          { moved: false, height: 3000 },
+        ],
+        metrics: [
+          { x: 0, y: 1300, height: 3000 },
+          { x: 0, y: 1300, height: 3000 },
+        ],
+      })
+
+      const actions = await ad.discoverActions(mockPage as never)
+
+      expect(actions.find((a) => a.type === 'scroll')).toMatchObject({
+        selector: 'html',
+        scroll: { x: 0, y: 1300 },
+      })
+      expect(actions.find((a) => a.selector === '#more-1')?.scroll).toEqual({ x: 0, y: 1300 })
+    })
+
+    it('should restore a recorded scroll position', async () => {
+      const mockPage = { evaluate: vi.fn().mockResolvedValue(true), waitForTimeout: vi.fn() }
+
+      await actionDiscovery.restoreScroll(mockPage as never, { x: 0, y: 1300, container: '#feed' })
+
+      expect(mockPage.evaluate).toHaveBeenCalledWith(expect.any(Function), { x: 0, y: 1300, container: '#feed' })
+      expect(mockPage.waitForTimeout).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('hover discovery', () => {
+    // Each element's locator reports visible counts before and after the hover
+    function createHoverPage(discovered: Partial<DiscoveredAction>[], counts: Record<string, number[]>) {
+      const locators: Record<string, { evaluate: ReturnType<typeof vi.fn>; hover: ReturnType<typeof vi.fn> }> = {}
+      const locatorFor = (selector: string) => {
+        const evaluate = vi.fn()
+        for (const count of counts[selector] || []) evaluate.mockResolvedValueOnce(count)
+        const locator = { first: vi.fn(), evaluate, hover: vi.fn().mockResolvedValue(undefined) }
+        locator.first.mockReturnValue(locator)
+        locators[selector] = locator
+        return locator
+      }
+      return {
+        page: {
+          evaluate: vi.fn().mockResolvedValue(discovered),
+          locator: vi.fn().mockImplementation(locatorFor),
+          waitForTimeout: vi.fn().mockResolvedValue(undefined),
+          mouse: { move: vi.fn().mockResolvedValue(undefined) },
+        },
+        locators,
+      }
+    }
+
+    const element = (selector: string, extra: Partial<DiscoveredAction> = {}): Partial<DiscoveredAction> => ({
+      type: 'click',
+      selector,
+      label: selector,
+      tagName: 'a',
+      visible: true,
+      enabled: true,
+      destructive: false,
+      ...extra,
+    })
+
+    it('should add hover actions for elements that reveal a menu or tooltip', async () => {
+      const ad = new ActionDiscovery({ hover: { maxChecks: 10, settleDelay: 0 } })
+      const { page, locators } = createHoverPage([element('#products'), element('#about')], {
+        '#products': [40, 46],
+        '#about': [40, 40],
+      })
+
+      const actions = await ad.discoverActions(page as never)
+
+      expect(actions.map((a) => [a.type, a.selector])).toEqual([
+        ['click', '#products'],
+        ['click', '#about'],
+        ['hover', '#products'],
+      ])
+      expect(actions[2].label).toBe('Hover #products')
+      expect(locators['#products'].hover).toHaveBeenCalled()
+      expect(page.mouse.move).toHaveBeenCalledTimes(2)
+    })
+
+    it('should skip destructive elements and stop at maxChecks', async () => {
+      const ad = new ActionDiscovery({ hover: { maxChecks: 1, settleDelay: 0 } })
+      const { page } = createHoverPage(
+        [element('#delete', { destructive: true }), element('#menu'), element('#help')],
+        { '#menu': [10, 12], '#help': [10, 12] }
+      )
+
+      const actions = await ad.discoverActions(page as never)
+
+      expect(actions.filter((a) => a.type === 'hover').map((a) => a.selector)).toEqual(['#menu'])
+      expect(page.locator).not.toHaveBeenCalledWith('#delete')
+    })
+
+    it('should not hover anything when hover discovery is off', async () => {
+      const { page } = createHoverPage([element('#products')], {})
+
+      await actionDiscovery.discoverActions(page as never)
+
+      expect(page.locator).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('locateAction', () => {
+    function createFrameMockPage() {
+      const element = { first: vi.fn() }
+      element.first.mockReturnValue(element)
+      const inner = { locator: vi.fn().mockReturnValue(element), frameLocator: vi.fn() }
+      const outer = { locator: vi.fn(), frameLocator: vi.fn().mockReturnValue(inner) }
+      const page = { locator: vi.fn().mockReturnValue(element), frameLocator: vi.fn().mockReturnValue(outer) }
+      return { page, outer, inner, element }
+    }
+
+    it('should locate top-level elements on the page', () => {
+      const { page, element } = createFrameMockPage()
+
+      const locator = locateAction(page as unknown as import('playwright').Page, {
+        type: 'click',
+        selector: '#save',
+        label: 'Save',
+      })
+
+      expect(page.locator).toHaveBeenCalledWith('#save')
+      expect(page.frameLocator).not.toHaveBeenCalled()
+      expect(locator).toBe(element)
+    })
+
+    it('should enter each iframe on the frame path', () => {
+      const { page, outer, inner } = createFrameMockPage()
+
+      locateAction(page as unknown as import('playwright').Page, {
+        type: 'fill',
+        selector: '#card-number',
+        label: 'Card number',
+        frame: ['#checkout', 'iframe[name="card"]'],
+      })
+
+      expect(page.frameLocator).toHaveBeenCalledWith('#checkout')
+      expect(outer.frameLocator).toHaveBeenCalledWith('iframe[name="card"]')
+      expect(inner.locator).toHaveBeenCalledWith('#card-number')
+    })
+  })
 })
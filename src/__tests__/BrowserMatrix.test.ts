@@ -0,0 +1,95 @@
+/**
+ * BrowserMatrix Tests
+ *
+ * Tests for finding issues that occur in only one browser engine
+ */
+
+import { describe, it, expect } from 'vitest'
+import { findEngineSpecificIssues } from '../core/BrowserMatrix.js'
+import type { AppState, BrowserName, ExplorationResult, ExplorationSummary, Issue, StateNode } from '../core/types.js'
+
+function state(id: string, url: string, browser: BrowserName, viewport = 'desktop'): AppState {
+  return {
+    id,
+    url,
+    pathname: new URL(url).pathname,
+    title: '',
+    domFingerprint: id,
+    modalOpen: null,
+    viewport,
+    browser,
+    timestamp: 0,
+  }
+}
+
+function issue(stateId: string, browser: BrowserName, rule = 'horizontal-overflow'): Issue {
+  return {
+    type: 'responsive',
+    severity: 'serious',
+    rule,
+    description: rule,
+    elements: ['main'],
+    stateId,
+    viewport: 'desktop',
+    browser,
+  }
+}
+
+function result(states: AppState[], issues: Issue[]): ExplorationResult {
+  return {
+    graph: {
+      states: new Map<string, StateNode>(states.map((s) => [s.id, { state: s, issues: [], transitions: [] }])),
+      startStates: [],
+      metadata: { startTime: 0, config: {} },
+    },
+    summary: {} as ExplorationSummary,
+    issues,
+    verifications: [],
+  }
+}
+
+describe('findEngineSpecificIssues', () => {
+  const states = [
+    state('c1', 'http://app.test/songs', 'chromium'),
+    state('w1', 'http://app.test/songs', 'webkit'),
+    state('f1', 'http://app.test/songs#top', 'firefox'),
+  ]
+
+  it('should report issues found in only one engine', () => {
+    const found = findEngineSpecificIssues(result(states, [issue('w1', 'webkit')]))
+
+    expect(found).toHaveLength(1)
+    expect(found[0].browser).toBe('webkit')
+    expect(found[0].comparedWith).toEqual(['chromium', 'firefox'])
+    expect(found[0].url).toBe('http://app.test/songs')
+  })
+
+  it('should ignore issues found in several engines', () => {
+    const found = findEngineSpecificIssues(result(states, [issue('w1', 'webkit'), issue('c1', 'chromium')]))
+    expect(found).toEqual([])
+  })
+
+  it('should tell different rules apart', () => {
+    const found = findEngineSpecificIssues(
+      result(states, [issue('w1', 'webkit'), issue('c1', 'chromium', 'touch-target-size')])
+    )
+    expect(found.map((f) => f.issue.rule).sort()).toEqual(['horizontal-overflow', 'touch-target-size'])
+  })
+
+  it('should skip pages that only one engine reached', () => {
+    const found = findEngineSpecificIssues(
+      result([...states, state('w2', 'http://app.test/admin', 'webkit')], [issue('w2', 'webkit')])
+    )
+    expect(found).toEqual([])
+  })
+
+  it('should compare pages per viewport', () => {
+    const found = findEngineSpecificIssues(
+      result(
+        [state('c1', 'http://app.test/', 'chromium', 'mobile'), state('w1', 'http://app.test/', 'webkit')],
+        [issue('w1', 'webkit')]
+      )
+    )
+    expect(found).toEqual([])
+  })
+})
@@ -0,0 +1,119 @@
+/**
+ * Checkpoint Tests
+ *
+ * Tests for saving, loading, and clearing exploration checkpoints
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync, existsSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { CheckpointStore, CHECKPOINT_FILE, CHECKPOINT_VERSION } from '../core/Checkpoint.js'
+import type { ExplorationCheckpoint } from '../core/Checkpoint.js'
+
+function createCheckpoint(overrides: Partial<ExplorationCheckpoint> = {}): ExplorationCheckpoint {
+  return {
+    version: CHECKPOINT_VERSION,
+    savedAt: 2000,
+    startTime: 1000,
+    config: {
+      baseUrl: 'http://localhost:3000',
+      actionSchemas: [{ match: { text: /add song/i, context: /\/songs/ } }],
+    },
+    queue: [
+      { url: 'http://localhost:3000/songs', path: [], depth: 1, viewport: 'desktop', order: [0, 2] },
+    ],
+    states: [
+      {
+        order: [0],
+        state: {
+          id: 'abc123',
+          url: 'http://localhost:3000/',
+          pathname: '/',
+          title: 'Home',
+          domFingerprint: 'fp',
+          modalOpen: null,
+          viewport: 'desktop',
+          timestamp: 1500,
+        },
+        issues: [],
+        transitions: [],
+      },
+    ],
+    startStates: ['abc123'],
+    ...overrides,
+  }
+}
+
+describe('CheckpointStore', () => {
+  let dir: string
+  let store: CheckpointStore
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'eva-checkpoint-'))
+    store = new CheckpointStore(dir)
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should write the checkpoint file to the output directory', () => {
+    store.save(createCheckpoint())
+
+    expect(store.path).toBe(join(dir, CHECKPOINT_FILE))
+    expect(store.exists()).toBe(true)
+    expect(existsSync(`${store.path}.tmp`)).toBe(false)
+  })
+
+  it('should round-trip queue and states', () => {
+    const checkpoint = createCheckpoint()
+    store.save(checkpoint)
+
+    const loaded = store.load()
+
+    expect(loaded.queue).toEqual(checkpoint.queue)
+    expect(loaded.states).toEqual(checkpoint.states)
+    expect(loaded.startStates).toEqual(['abc123'])
+    expect(loaded.startTime).toBe(1000)
+  })
+
+  it('should restore RegExp values in config', () => {
+    store.save(createCheckpoint())
+
+    const match = store.load().config.actionSchemas![0].match
+
+    expect(match.text).toBeInstanceOf(RegExp)
+    expect((match.text as RegExp).flags).toBe('i')
+    expect((match.text as RegExp).test('Add Song')).toBe(true)
+    expect(match.context).toBeInstanceOf(RegExp)
+  })
+
+  it('should create the output directory if missing', () => {
+    const nested = new CheckpointStore(join(dir, 'nested', 'reports'))
+    nested.save(createCheckpoint())
+
+    expect(nested.exists()).toBe(true)
+  })
+
+  it('should throw when no checkpoint exists', () => {
+    expect(() => store.load()).toThrow('No checkpoint found')
+  })
+
+  it('should reject unknown checkpoint versions', () => {
+    writeFileSync(store.path, JSON.stringify({ ...createCheckpoint(), version: 99 }))
+
+    expect(() => store.load()).toThrow('Unsupported checkpoint version')
+  })
+
+  it('should remove the checkpoint on clear', () => {
+    store.save(createCheckpoint())
+    store.clear()
+
+    expect(store.exists()).toBe(false)
+  })
+
+  it('should not fail clearing a missing checkpoint', () => {
+    expect(() => store.clear()).not.toThrow()
+  })
+})
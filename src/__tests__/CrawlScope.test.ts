@@ -0,0 +1,126 @@
+/**
+ * CrawlScope Tests
+ *
+ * Tests for origin, include, and exclude rules
+ */
+
+import { describe, it, expect } from 'vitest'
+import { CrawlScope, globToRegExp, toUrlPattern } from '../core/CrawlScope.js'
+
+describe('globToRegExp', () => {
+  it('should match a single path segment with *', () => {
+    const regex = globToRegExp('/songs/*')
+    expect(regex.test('/songs/42')).toBe(true)
+    expect(regex.test('/songs/42/edit')).toBe(false)
+  })
+
+  it('should match across segments with **', () => {
+    const regex = globToRegExp('/admin/**')
+    expect(regex.test('/admin/users/1')).toBe(true)
+    expect(regex.test('/administrator')).toBe(false)
+  })
+
+  it('should escape regex characters', () => {
+    const regex = globToRegExp('/file.pdf')
+    expect(regex.test('/file.pdf')).toBe(true)
+    expect(regex.test('/fileXpdf')).toBe(false)
+  })
+})
+
+describe('toUrlPattern', () => {
+  it('should treat slash-wrapped strings as regex', () => {
+    const regex = toUrlPattern('/^\\/api\\//i')
+    expect(regex.flags).toBe('i')
+    expect(regex.test('/API/users')).toBe(true)
+  })
+
+  it('should pass RegExp through unchanged', () => {
+    const regex = /logout/
+    expect(toUrlPattern(regex)).toBe(regex)
+  })
+})
+
+describe('CrawlScope', () => {
+  describe('origins', () => {
+    it('should default to the given origins', () => {
+      const scope = new CrawlScope({}, ['http://localhost:3000/app'])
+
+      expect(scope.isInScope('http://localhost:3000/other')).toBe(true)
+      expect(scope.isInScope('https://docs.example.com/')).toBe(false)
+      expect(scope.check('https://accounts.google.com/o/oauth2').reason).toBe('origin')
+    })
+
+    it('should use configured origins over defaults', () => {
+      const scope = new CrawlScope(
+        { allowedOrigins: ['https://app.example.com'] },
+        ['http://localhost:3000']
+      )
+
+      expect(scope.isInScope('https://app.example.com/dashboard')).toBe(true)
+      expect(scope.isInScope('http://localhost:3000/')).toBe(false)
+    })
+
+    it('should reject subdomains unless enabled', () => {
+      const strict = new CrawlScope({}, ['https://example.com'])
+      const loose = new CrawlScope({ includeSubdomains: true }, ['https://example.com'])
+
+      expect(strict.isInScope('https://app.example.com/')).toBe(false)
+      expect(loose.isInScope('https://app.example.com/')).toBe(true)
+      expect(loose.isInScope('https://notexample.com/')).toBe(false)
+    })
+
+    it('should reject non-http protocols', () => {
+      const scope = new CrawlScope({}, ['http://localhost:3000'])
+
+      expect(scope.check('mailto:hi@example.com').reason).toBe('protocol')
+      expect(scope.check('not a url').reason).toBe('invalid-url')
+    })
+  })
+
+  describe('patterns', () => {
+    it('should require a match when include patterns are set', () => {
+      const scope = new CrawlScope({ include: ['/app/**'] }, ['http://localhost:3000'])
+
+      expect(scope.isInScope('http://localhost:3000/app/songs')).toBe(true)
+      expect(scope.check('http://localhost:3000/marketing').reason).toBe('not-included')
+    })
+
+    it('should reject URLs matching exclude patterns', () => {
+      const scope = new CrawlScope(
+        { exclude: ['/admin/**', /logout/i] },
+        ['http://localhost:3000']
+      )
+
+      expect(scope.check('http://localhost:3000/admin/users').reason).toBe('excluded')
+      expect(scope.check('http://localhost:3000/Logout').reason).toBe('excluded')
+      expect(scope.isInScope('http://localhost:3000/songs')).toBe(true)
+    })
+
+    it('should match globs without a slash against the last path segment', () => {
+      const scope = new CrawlScope({ exclude: ['*.pdf'] }, ['http://localhost:3000'])
+
+      expect(scope.check('http://localhost:3000/docs/2024/report.pdf').reason).toBe('excluded')
+      expect(scope.check('http://localhost:3000/report.pdf').reason).toBe('excluded')
+      expect(scope.check('http://localhost:3000/files/guide.pdf?download=1').reason).toBe('excluded')
+      expect(scope.isInScope('http://localhost:3000/docs/report')).toBe(true)
+      expect(scope.isInScope('http://localhost:3000/pdf/viewer')).toBe(true)
+    })
+
+    it('should match the query string', () => {
+      const scope = new CrawlScope({ exclude: ['/search?**'] }, ['http://localhost:3000'])
+
+      expect(scope.isInScope('http://localhost:3000/search?q=test')).toBe(false)
+      expect(scope.isInScope('http://localhost:3000/search')).toBe(true)
+    })
+
+    it('should match full URLs when the pattern has a scheme', () => {
+      const scope = new CrawlScope(
+        { exclude: ['http://localhost:3000/private/**'] },
+        ['http://localhost:3000']
+      )
+
+      expect(scope.isInScope('http://localhost:3000/private/a')).toBe(false)
+      expect(scope.isInScope('http://localhost:3000/public/a')).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,59 @@
+/**
+ * DeviceProfiles Tests
+ *
+ * Tests for resolving built-in, Playwright and custom viewports
+ */
+
+import { describe, it, expect } from 'vitest'
+import { isTouchProfile, resolveViewport, resolveViewports } from '../core/DeviceProfiles.js'
+
+describe('resolveViewport', () => {
+  it('should resolve built-in viewports', () => {
+    expect(resolveViewport('desktop')).toEqual({ name: 'desktop', width: 1280, height: 720 })
+    expect(resolveViewport('mobile')).toEqual({ name: 'mobile', width: 375, height: 667, hasTouch: true })
+  })
+
+  it('should resolve Playwright device names case-insensitively', () => {
+    const profile = resolveViewport('iphone 13')
+
+    expect(profile.name).toBe('iPhone 13')
+    expect(profile.isMobile).toBe(true)
+    expect(profile.hasTouch).toBe(true)
+    expect(profile.deviceScaleFactor).toBe(3)
+    expect(profile.userAgent).toContain('iPhone')
+  })
+
+  it('should accept custom profiles', () => {
+    const fold = { name: 'fold', width: 280, height: 653, isMobile: true, hasTouch: true }
+    expect(resolveViewport(fold)).toEqual(fold)
+  })
+
+  it('should reject incomplete custom profiles', () => {
+    expect(() => resolveViewport({ name: 'broken', width: 0, height: 600 })).toThrow(
+      'name, width and height are required'
+    )
+  })
+
+  it('should reject unknown names', () => {
+    expect(() => resolveViewport('toaster')).toThrow('Unknown viewport "toaster"')
+    expect(() => resolveViewport('constructor')).toThrow('Unknown viewport')
+  })
+})
+
+describe('resolveViewports', () => {
+  it('should key profiles by name and ignore duplicates', () => {
+    const profiles = resolveViewports(['desktop', 'Pixel 7', { name: 'desktop', width: 1920, height: 1080 }])
+
+    expect([...profiles.keys()]).toEqual(['desktop', 'Pixel 7'])
+    expect(profiles.get('desktop')?.width).toBe(1280)
+  })
+})
+
+describe('isTouchProfile', () => {
+  it('should treat touch or mobile profiles as touch devices', () => {
+    expect(isTouchProfile({ name: 'a', width: 1, height: 1, hasTouch: true })).toBe(true)
+    expect(isTouchProfile({ name: 'b', width: 1, height: 1, isMobile: true })).toBe(true)
+    expect(isTouchProfile({ name: 'c', width: 1, height: 1, isMobile: true, hasTouch: false })).toBe(false)
+    expect(isTouchProfile({ name: 'd', width: 1, height: 1 })).toBe(false)
+  })
+})
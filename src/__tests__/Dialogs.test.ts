@@ -0,0 +1,136 @@
+/**
+ * Dialogs Tests
+ *
+ * Tests for answering native dialogs, collecting popups and reporting alerts
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { DialogWatcher } from '../core/Dialogs.js'
+import type { Action } from '../core/types.js'
+
+// Page that lets a test fire its 'dialog' and 'popup' listeners
+function createMockPage() {
+  const listeners: Record<string, (arg: unknown) => void> = {}
+  return {
+    on: vi.fn((event: string, listener: (arg: unknown) => void) => {
+      listeners[event] = listener
+    }),
+    emit: (event: string, arg: unknown) => listeners[event](arg),
+  }
+}
+
+function createMockDialog(type: string, message: string, defaultValue = '') {
+  return {
+    type: () => type,
+    message: () => message,
+    defaultValue: () => defaultValue,
+    accept: vi.fn().mockResolvedValue(undefined),
+    dismiss: vi.fn().mockResolvedValue(undefined),
+  }
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+describe('DialogWatcher', () => {
+  it('should dismiss confirmations by default and record them', async () => {
+    const page = createMockPage()
+    const watcher = new DialogWatcher()
+    watcher.watch(page as never)
+
+    const dialog = createMockDialog('confirm', 'Delete this song?')
+    page.emit('dialog', dialog)
+    await flush()
+
+    expect(dialog.dismiss).toHaveBeenCalled()
+    expect(dialog.accept).not.toHaveBeenCalled()
+    expect(watcher.take(page as never)).toEqual([
+      { type: 'confirm', message: 'Delete this song?', response: 'dismiss' },
+    ])
+    expect(watcher.take(page as never)).toEqual([])
+  })
+
+  it('should accept confirmations when the policy accepts them', async () => {
+    const page = createMockPage()
+    const watcher = new DialogWatcher({ policy: 'accept' })
+    watcher.watch(page as never)
+
+    const dialog = createMockDialog('confirm', 'Delete this song?')
+    page.emit('dialog', dialog)
+    await flush()
+
+    expect(dialog.accept).toHaveBeenCalled()
+    expect(watcher.take(page as never)).toEqual([
+      { type: 'confirm', message: 'Delete this song?', response: 'accept' },
+    ])
+  })
+
+  it("should answer with the action's response, and always allow unloading", async () => {
+    const page = createMockPage()
+    const watcher = new DialogWatcher({ policy: 'both' })
+    watcher.watch(page as never)
+    watcher.respondWith(page as never, 'dismiss')
+
+    const confirm = createMockDialog('confirm', 'Discard changes?')
+    const unload = createMockDialog('beforeunload', '')
+    page.emit('dialog', confirm)
+    page.emit('dialog', unload)
+    await flush()
+
+    expect(confirm.dismiss).toHaveBeenCalled()
+    expect(unload.accept).toHaveBeenCalled()
+    expect(watcher.exploresBoth).toBe(true)
+  })
+
+  it('should fill prompts with the configured value', async () => {
+    const page = createMockPage()
+    const watcher = new DialogWatcher({ policy: 'accept', promptValue: 'Road trip' })
+    watcher.watch(page as never)
+
+    const prompt = createMockDialog('prompt', 'Playlist name', 'Untitled')
+    page.emit('dialog', prompt)
+    await flush()
+
+    expect(prompt.accept).toHaveBeenCalledWith('Road trip')
+    expect(watcher.take(page as never)[0]).toMatchObject({ value: 'Road trip' })
+  })
+
+  it('should collect popups, or close them when not following popups', () => {
+    const page = createMockPage()
+    const popup = { close: vi.fn().mockResolvedValue(undefined) }
+
+    const watcher = new DialogWatcher()
+    watcher.watch(page as never)
+    page.emit('popup', popup)
+    expect(watcher.takePopups(page as never)).toEqual([popup])
+
+    const closing = new DialogWatcher({ followPopups: false })
+    closing.watch(page as never)
+    page.emit('popup', popup)
+    expect(closing.takePopups(page as never)).toEqual([])
+    expect(popup.close).toHaveBeenCalled()
+  })
+
+  it('should report alerts that are not expected', () => {
+    const watcher = new DialogWatcher({ expectedAlerts: ['Copied', /^Saved \d+ songs$/] })
+    const action: Action = { type: 'click', selector: '#share', label: 'Share' }
+
+    const issues = watcher.alertIssues(
+      [
+        { type: 'alert', message: 'Copied to clipboard', response: 'accept' },
+        { type: 'alert', message: 'Saved 3 songs', response: 'accept' },
+        { type: 'alert', message: 'undefined', response: 'accept' },
+        { type: 'confirm', message: 'Sure?', response: 'accept' },
+      ],
+      'desktop',
+      action
+    )
+
+    expect(issues).toHaveLength(1)
+    expect(issues[0]).toMatchObject({
+      type: 'functional',
+      rule: 'unexpected-alert',
+      elements: ['#share'],
+      details: { message: 'undefined' },
+    })
+  })
+})
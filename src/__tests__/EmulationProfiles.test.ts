@@ -0,0 +1,58 @@
+/**
+ * EmulationProfiles Tests
+ *
+ * Tests for resolving built-in, shorthand and custom emulation profiles
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  needsOwnContext,
+  resolveEmulationProfile,
+  resolveEmulationProfiles,
+} from '../core/EmulationProfiles.js'
+
+describe('resolveEmulationProfile', () => {
+  it('should resolve built-in profiles', () => {
+    expect(resolveEmulationProfile('dark')).toEqual({ name: 'dark', colorScheme: 'dark' })
+    expect(resolveEmulationProfile('reduced-motion')).toEqual({ name: 'reduced-motion', reducedMotion: 'reduce' })
+    expect(resolveEmulationProfile('forced-colors')).toEqual({ name: 'forced-colors', forcedColors: 'active' })
+  })
+
+  it('should resolve locale and timezone shorthands', () => {
+    expect(resolveEmulationProfile('locale:de-DE')).toEqual({ name: 'locale:de-DE', locale: 'de-DE' })
+    expect(resolveEmulationProfile('timezone:Asia/Tokyo')).toEqual({
+      name: 'timezone:Asia/Tokyo',
+      timezoneId: 'Asia/Tokyo',
+    })
+  })
+
+  it('should accept custom profiles', () => {
+    const profile = { name: 'dark-ja', colorScheme: 'dark' as const, locale: 'ja-JP' }
+    expect(resolveEmulationProfile(profile)).toEqual(profile)
+  })
+
+  it('should reject custom profiles without settings', () => {
+    expect(() => resolveEmulationProfile({ name: 'empty' })).toThrow('at least one setting')
+  })
+
+  it('should reject unknown names', () => {
+    expect(() => resolveEmulationProfile('sepia')).toThrow('Unknown emulation profile "sepia"')
+    expect(() => resolveEmulationProfile('toString')).toThrow('Unknown emulation profile')
+  })
+})
+
+describe('resolveEmulationProfiles', () => {
+  it('should ignore duplicate names', () => {
+    const profiles = resolveEmulationProfiles(['dark', { name: 'dark', forcedColors: 'active' }, 'reduced-motion'])
+    expect(profiles.map((p) => p.name)).toEqual(['dark', 'reduced-motion'])
+    expect(profiles[0].colorScheme).toBe('dark')
+  })
+})
+
+describe('needsOwnContext', () => {
+  it('should only be true for locale and timezone profiles', () => {
+    expect(needsOwnContext(resolveEmulationProfile('dark'))).toBe(false)
+    expect(needsOwnContext(resolveEmulationProfile('locale:fr-FR'))).toBe(true)
+    expect(needsOwnContext({ name: 'tz', timezoneId: 'UTC' })).toBe(true)
+  })
+})
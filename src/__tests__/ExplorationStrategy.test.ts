@@ -0,0 +1,196 @@
+/**
+ * ExplorationStrategy Tests
+ *
+ * Tests for task ordering strategies
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  createStrategy,
+  isStrategyName,
+  BreadthFirstStrategy,
+  DepthFirstStrategy,
+  RandomWalkStrategy,
+  NoveltyFirstStrategy,
+} from '../core/ExplorationStrategy.js'
+import type { Action, ExplorationTask } from '../core/types.js'
+
+function createTask(order: number[], url = 'http://localhost:3000/', label?: string): ExplorationTask {
+  const path: Action[] = label ? [{ type: 'click', selector: `#${label}`, label }] : []
+  return { url, path, depth: order.length - 1, viewport: 'desktop', order }
+}
+
+function drain(strategy: { next(): ExplorationTask | undefined }): number[][] {
+  const orders: number[][] = []
+  let task = strategy.next()
+  while (task) {
+    orders.push(task.order!)
+    task = strategy.next()
+  }
+  return orders
+}
+
+describe('createStrategy', () => {
+  it('should recognise built-in strategy names', () => {
+    expect(isStrategyName('novelty')).toBe(true)
+    expect(isStrategyName('sideways')).toBe(false)
+  })
+
+  it('should create built-in strategies by name', () => {
+    expect(createStrategy('bfs')).toBeInstanceOf(BreadthFirstStrategy)
+    expect(createStrategy('dfs')).toBeInstanceOf(DepthFirstStrategy)
+    expect(createStrategy('random')).toBeInstanceOf(RandomWalkStrategy)
+    expect(createStrategy('novelty')).toBeInstanceOf(NoveltyFirstStrategy)
+  })
+
+  it('should default to breadth-first', () => {
+    expect(createStrategy().name).toBe('bfs')
+  })
+
+  it('should throw on unknown names', () => {
+    expect(() => createStrategy('sideways')).toThrow('Unknown exploration strategy')
+  })
+})
+
+describe('BreadthFirstStrategy', () => {
+  it('should take tasks first in, first out', () => {
+    const strategy = new BreadthFirstStrategy()
+    strategy.add(createTask([0]))
+    strategy.add(createTask([1]))
+    strategy.add(createTask([0, 0]))
+
+    expect(strategy.size).toBe(3)
+    expect(drain(strategy)).toEqual([[0], [1], [0, 0]])
+  })
+
+  it('should round-trip pending tasks through toArray and load', () => {
+    const strategy = new BreadthFirstStrategy()
+    strategy.add(createTask([0]))
+    strategy.add(createTask([1]))
+
+    const restored = new BreadthFirstStrategy()
+    restored.load(strategy.toArray())
+
+    expect(drain(restored)).toEqual([[0], [1]])
+  })
+})
+
+describe('DepthFirstStrategy', () => {
+  it('should take tasks last in, first out', () => {
+    const strategy = new DepthFirstStrategy()
+    strategy.add(createTask([0]))
+    strategy.add(createTask([0, 0]))
+    strategy.add(createTask([0, 0, 0]))
+
+    expect(drain(strategy)).toEqual([[0, 0, 0], [0, 0], [0]])
+  })
+
+  it('should list pending tasks in take order', () => {
+    const strategy = new DepthFirstStrategy()
+    strategy.add(createTask([0]))
+    strategy.add(createTask([1]))
+
+    expect(strategy.toArray().map((t) => t.order)).toEqual([[1], [0]])
+
+    const restored = new DepthFirstStrategy()
+    restored.load(strategy.toArray())
+    expect(drain(restored)).toEqual([[1], [0]])
+  })
+})
+
+describe('RandomWalkStrategy', () => {
+  const fill = (strategy: RandomWalkStrategy) => {
+    for (let i = 0; i < 8; i++) {
+      strategy.add(createTask([i]))
+    }
+  }
+
+  it('should produce the same order for the same seed', () => {
+    const a = new RandomWalkStrategy(42)
+    const b = new RandomWalkStrategy(42)
+    fill(a)
+    fill(b)
+
+    expect(drain(a)).toEqual(drain(b))
+  })
+
+  it('should produce a different order for a different seed', () => {
+    const a = new RandomWalkStrategy(1)
+    const b = new RandomWalkStrategy(2)
+    fill(a)
+    fill(b)
+
+    expect(drain(a)).not.toEqual(drain(b))
+  })
+
+  it('should continue the walk from the last task taken', () => {
+    const strategy = new RandomWalkStrategy(7)
+    fill(strategy)
+
+    const first = strategy.next()!
+    strategy.add(createTask([...first.order!, 0]))
+    strategy.add(createTask([...first.order!, 1]))
+
+    const second = strategy.next()!
+    expect(second.order!.slice(0, -1)).toEqual(first.order)
+  })
+
+  it('should continue the walk after a round trip through getState and restoreState', () => {
+    const strategy = new RandomWalkStrategy(7)
+    fill(strategy)
+    const first = strategy.next()!
+    strategy.add(createTask([...first.order!, 0]))
+    strategy.add(createTask([...first.order!, 1]))
+
+    const restored = new RandomWalkStrategy(7)
+    restored.load(strategy.toArray())
+    restored.restoreState(JSON.parse(JSON.stringify(strategy.getState())))
+
+    expect(drain(restored)).toEqual(drain(strategy))
+  })
+})
+
+describe('NoveltyFirstStrategy', () => {
+  it('should prefer tasks reaching unseen pathnames', () => {
+    const strategy = new NoveltyFirstStrategy()
+    strategy.add(createTask([0], 'http://localhost:3000/'))
+    strategy.next()
+
+    strategy.add(createTask([0, 0], 'http://localhost:3000/', 'Refresh'))
+    strategy.add(createTask([0, 1], 'http://localhost:3000/settings', 'Refresh'))
+
+    expect(strategy.next()!.url).toBe('http://localhost:3000/settings')
+  })
+
+  it('should prefer untried action labels on the same pathname', () => {
+    const strategy = new NoveltyFirstStrategy()
+    strategy.add(createTask([0], 'http://localhost:3000/songs', 'Open'))
+    strategy.next()
+
+    strategy.add(createTask([0, 0], 'http://localhost:3000/songs', 'Open'))
+    strategy.add(createTask([0, 1], 'http://localhost:3000/songs', 'Filter'))
+
+    expect(strategy.next()!.path[0].label).toBe('Filter')
+  })
+
+  it('should fall back to shallower tasks on ties', () => {
+    const strategy = new NoveltyFirstStrategy()
+    strategy.add(createTask([0, 0, 0], 'http://localhost:3000/a'))
+    strategy.add(createTask([1], 'http://localhost:3000/b'))
+
+    expect(strategy.next()!.order).toEqual([1])
+  })
+
+  it('should remember seen pathnames and tried labels through getState and restoreState', () => {
+    const strategy = new NoveltyFirstStrategy()
+    strategy.add(createTask([0], 'http://localhost:3000/songs', 'Open'))
+    strategy.next()
+
+    const restored = new NoveltyFirstStrategy()
+    restored.restoreState(JSON.parse(JSON.stringify(strategy.getState())))
+    restored.add(createTask([0, 0], 'http://localhost:3000/songs', 'Open'))
+    restored.add(createTask([0, 1], 'http://localhost:3000/songs', 'Filter'))
+
+    expect(restored.next()!.path[0].label).toBe('Filter')
+  })
+})
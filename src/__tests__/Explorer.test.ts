@@ -0,0 +1,342 @@
+/**
+ * Explorer Tests
+ *
+ * Tests for the crawl loop, run against a fake browser serving a small site
+ * of linked pages
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { Explorer } from '../core/Explorer.js'
+import { CheckpointStore } from '../core/Checkpoint.js'
+import { StateManager } from '../core/StateManager.js'
+import { ActionDiscovery } from '../core/ActionDiscovery.js'
+import { BreadthFirstStrategy } from '../core/ExplorationStrategy.js'
+import { NetworkValidator } from '../validators/NetworkValidator.js'
+import type { AppState, DiscoveredAction, ExplorationResult, ExplorerConfig } from '../core/types.js'
+
+const BASE_URL = 'http://app.test'
+
+/** Links on each page of the fake site, labelled with their last path segment */
+const SITE: Record<string, string[]> = {
+  '/': ['/a', '/b'],
+  '/a': ['/a/1', '/a/more'],
+  '/b': ['/b/more', '/b/1'],
+  '/a/1': [],
+  '/a/more': [],
+  '/b/more': [],
+  '/b/1': [],
+}
+
+/** Links added to the site by a test */
+const extraLinks: Record<string, string[]> = {}
+
+/** Extra time (ms) the fake browser takes to load each page */
+const loadDelays: Record<string, number> = {}
+
+/** Whether each page also has an email field to fill */
+let emailFields = false
+
+vi.mock('playwright', () => {
+  const createPage = () => {
+    let url = 'about:blank'
+    const navigate = async (target: string) => {
+      url = new URL(target, BASE_URL).href
+      await new Promise((resolve) => setTimeout(resolve, loadDelays[new URL(url).pathname] || 0))
+    }
+    const locator = (selector: string) => {
+      const element = {
+        first: () => element,
+        waitFor: async () => {},
+        click: async () => navigate(selector.match(/href="([^"]+)"/)![1]),
+        fill: async () => {},
+      }
+      return element
+    }
+    return {
+      on: () => {},
+      route: async () => {},
+      goto: async (target: string) => navigate(target),
+      url: () => url,
+      waitForLoadState: async () => {},
+      waitForTimeout: async () => {},
+      locator,
+      isClosed: () => false,
+      close: async () => {},
+    }
+  }
+  const context = { newPage: async () => createPage(), on: () => {}, close: async () => {} }
+  const browser = { newContext: async () => context, close: async () => {} }
+  const browserType = { launch: async () => browser }
+  return { chromium: browserType, firefox: browserType, webkit: browserType }
+})
+
+/**
+ * Explore the fake site with all validators off (unless turned on in config)
+ */
+function createExplorer(
+  outputDir: string,
+  exploration: ExplorerConfig['exploration'] = {},
+  { output, validators, ...config }: Partial<ExplorerConfig> = {}
+): Explorer {
+  return new Explorer({
+    ...config,
+    baseUrl: BASE_URL,
+    exploration: { viewports: ['desktop'], actionDelay: 0, waitForNetworkIdle: false, ...exploration },
+    validators: {
+      accessibility: { enabled: false },
+      responsive: { enabled: false },
+      console: { enabled: false },
+      network: { enabled: false },
+      brokenLinks: { enabled: false },
+      focus: { enabled: false },
+      ...validators,
+    },
+    output: { dir: outputDir, screenshots: false, checkpointInterval: 0, ...output },
+    testDataSeed: 1,
+  })
+}
+
+describe('Explorer', () => {
+  let outputDir: string
+
+  beforeEach(() => {
+    outputDir = mkdtempSync(join(tmpdir(), 'eva-explorer-'))
+
+    vi.spyOn(StateManager.prototype, 'captureState').mockImplementation(async (page, viewport) => {
+      const url = page.url()
+      const pathname = new URL(url).pathname
+      return {
+        id: `${viewport}:${pathname}`,
+        url,
+        pathname,
+        title: pathname,
+        domFingerprint: pathname,
+        modalOpen: null,
+        viewport,
+        timestamp: 0,
+      } satisfies AppState
+    })
+    vi.spyOn(ActionDiscovery.prototype, 'discoverActions').mockImplementation(async (page) => [
+      ...[...(SITE[new URL(page.url()).pathname] || []), ...(extraLinks[new URL(page.url()).pathname] || [])].map(
+        (href): DiscoveredAction => ({
+          type: 'click',
+          selector: `a[href="${href}"]`,
+          label: href.split('/').pop()!,
+          destructive: href.endsWith('/delete'),
+          tagName: 'a',
+          visible: true,
+          enabled: true,
+        })
+      ),
+      ...(emailFields
+        ? [
+            {
+              type: 'fill' as const,
+              selector: '#email',
+              label: 'Email',
+              field: { type: 'email' },
+              tagName: 'input',
+              visible: true,
+              enabled: true,
+            },
+          ]
+        : []),
+    ])
+    vi.spyOn(ActionDiscovery.prototype, 'getFormActions').mockResolvedValue([])
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    for (const path of Object.keys(loadDelays)) delete loadDelays[path]
+    for (const path of Object.keys(extraLinks)) delete extraLinks[path]
+    emailFields = false
+    rmSync(outputDir, { recursive: true, force: true })
+  })
+
+  const pathsOf = (result: ExplorationResult) => Array.from(result.graph.states.values(), (node) => node.state.pathname)
+
+  it('should explore every page breadth-first', async () => {
+    const explorer = createExplorer(outputDir)
+
+    const result = await explorer.explore()
+
+    expect(result.summary.statesExplored).toBe(7)
+    expect(pathsOf(result)).toEqual(['/', '/a', '/b', '/a/1', '/a/more', '/b/more', '/b/1'])
+  })
+
+  it('should list states in task order with two workers, whichever finishes first', async () => {
+    // The first branch loads slowly, so the second worker finishes /b and its pages first
+    loadDelays['/a'] = 30
+    const explorer = createExplorer(outputDir, { concurrency: 2 })
+
+    const result = await explorer.explore()
+
+    expect(result.summary.statesExplored).toBe(7)
+    expect(pathsOf(result)).toEqual(['/', '/a', '/b', '/a/1', '/a/more', '/b/more', '/b/1'])
+  })
+
+  it('should not explore more states than the budget with two workers', async () => {
+    const explorer = createExplorer(outputDir, { concurrency: 2, maxStates: 3 })
+
+    const result = await explorer.explore()
+
+    expect(result.summary.statesExplored).toBe(3)
+  })
+
+  // /b loads slowly, so with two workers the long way to /b/1 (through /a/1)
+  // gets there first; /b/1/x is only within max depth the short way
+  it.each([{}, { maxStates: 6 }])('should give the same results with one or two workers (%o)', async (budget) => {
+    Object.assign(extraLinks, { '/a/1': ['/b/1'], '/b/1': ['/b/1/x'] })
+    loadDelays['/b'] = 40
+    const explore = async (concurrency: number) => {
+      const result = await createExplorer(outputDir, { concurrency, maxDepth: 3, ...budget }).explore()
+      return {
+        states: Array.from(result.graph.states.keys()),
+        startStates: result.graph.startStates,
+        summary: { ...result.summary, duration: 0 },
+      }
+    }
+
+    const oneWorker = await explore(1)
+    const twoWorkers = await explore(2)
+
+    expect(oneWorker.states).toHaveLength(budget.maxStates || 8)
+    expect(twoWorkers).toEqual(oneWorker)
+  })
+
+  // The state budget cuts each run short, so the states explored depend on the
+  // order the strategy picks tasks in (and on its state when the run stops).
+  // The start page's delete link is skipped before the run stops.
+  it.each([
+    { strategy: 'random' as const, seed: 1, maxStates: 4, stopAfter: 2 },
+    { strategy: 'novelty' as const, seed: 0, maxStates: 6, stopAfter: 4 },
+  ])(
+    'should resume a $strategy run from a checkpoint as if it was never interrupted',
+    async ({ stopAfter, ...exploration }) => {
+      extraLinks['/'] = ['/delete']
+      const safety = { mode: 'skip-destructive' as const }
+      const uninterrupted = await createExplorer(outputDir, exploration, { safety }).explore()
+
+      const interrupted = createExplorer(outputDir, exploration, { safety, output: { checkpointInterval: 1 } })
+      let tasks = 0
+      interrupted.on((event) => {
+        if (event.type === 'progress' && ++tasks === stopAfter) interrupted.stop()
+      })
+      await interrupted.explore()
+
+      const checkpoint = new CheckpointStore(outputDir).load()
+      expect(checkpoint.strategy?.name).toBe(exploration.strategy)
+      const resumed = await new Explorer({ ...checkpoint.config, output: { ...checkpoint.config.output, dir: outputDir } })
+        .resume(checkpoint)
+
+      expect(pathsOf(resumed)).toEqual(pathsOf(uninterrupted))
+      expect(resumed.summary.actionsPerformed).toBe(uninterrupted.summary.actionsPerformed)
+      expect(resumed.summary.coverage.skippedBySafety).toEqual({ [`${BASE_URL}/`]: ['delete'] })
+    }
+  )
+
+  it('should not repeat generated values after resuming', async () => {
+    emailFields = true
+    const config = { testData: { email: '{{gen.email}}' } }
+    const emailsOf = (result: ExplorationResult) =>
+      Array.from(result.graph.states.values()).flatMap((node) =>
+        node.transitions.filter((t) => t.action.type === 'fill').map((t) => t.action.value)
+      )
+    const uninterrupted = await createExplorer(outputDir, {}, config).explore()
+
+    const interrupted = createExplorer(outputDir, {}, { ...config, output: { checkpointInterval: 1 } })
+    let tasks = 0
+    interrupted.on((event) => {
+      if (event.type === 'progress' && ++tasks === 3) interrupted.stop()
+    })
+    await interrupted.explore()
+
+    const checkpoint = new CheckpointStore(outputDir).load()
+    const resumed = await new Explorer({ ...checkpoint.config, output: { ...checkpoint.config.output, dir: outputDir } })
+      .resume(checkpoint)
+
+    const emails = emailsOf(resumed)
+    expect(emails).toHaveLength(7)
+    expect(new Set(emails).size).toBe(7)
+    expect(emails).toEqual(emailsOf(uninterrupted))
+  })
+
+  it('should validate the network requests of the page each emulation pass opens', async () => {
+    const attached = new Map<unknown, NetworkValidator>()
+    const validated: Array<[unknown, NetworkValidator]> = []
+    vi.spyOn(NetworkValidator.prototype, 'attachToPage').mockImplementation(function (this: NetworkValidator, page) {
+      attached.set(page, this)
+    })
+    vi.spyOn(NetworkValidator.prototype, 'validate').mockImplementation(async function (this: NetworkValidator, page) {
+      validated.push([page, this])
+      return { validator: 'network', issues: [], duration: 0 }
+    })
+    const explorer = createExplorer(
+      outputDir,
+      { maxStates: 1 },
+      { validators: { network: { enabled: true } }, emulation: [{ name: 'ja', locale: 'ja-JP' }] }
+    )
+
+    await explorer.explore()
+
+    // The start page, then its copy in the ja-JP context
+    expect(validated).toHaveLength(2)
+    expect(new Set(validated.map(([page]) => page)).size).toBe(2)
+    for (const [page, validator] of validated) {
+      expect(attached.get(page)).toBe(validator)
+    }
+  })
+
+  it('should warn when resuming without the custom strategy the run used', async () => {
+    class ShortestFirstStrategy extends BreadthFirstStrategy {
+      readonly name = 'shortest-first'
+    }
+    const interrupted = createExplorer(outputDir, { strategy: new ShortestFirstStrategy() }, { output: { checkpointInterval: 1 } })
+    interrupted.on((event) => {
+      if (event.type === 'progress') interrupted.stop()
+    })
+    await interrupted.explore()
+
+    const checkpoint = new CheckpointStore(outputDir).load()
+    expect(checkpoint.config.exploration?.strategy).toBeUndefined()
+
+    const resumed = new Explorer(checkpoint.config)
+    const warnings: string[] = []
+    resumed.on((event) => {
+      if (event.type === 'warning') warnings.push(event.message)
+    })
+    await resumed.resume(checkpoint)
+
+    expect(warnings).toContain('Checkpoint was saved with the "shortest-first" strategy, resuming with "bfs"')
+  })
+
+  it('should warn when resuming without the testData functions the run used', async () => {
+    const testData = { email: () => 'fixed@example.com', name: 'Eva' }
+    const interrupted = createExplorer(outputDir, {}, { testData, output: { checkpointInterval: 1 } })
+    interrupted.on((event) => {
+      if (event.type === 'progress') interrupted.stop()
+    })
+    await interrupted.explore()
+
+    const checkpoint = new CheckpointStore(outputDir).load()
+    expect(checkpoint.testDataGenerators).toEqual(['email'])
+
+    const warningsOn = async (config: ExplorerConfig) => {
+      const warnings: string[] = []
+      const resumed = new Explorer(config)
+      resumed.on((event) => {
+        if (event.type === 'warning') warnings.push(event.message)
+      })
+      await resumed.resume(checkpoint)
+      return warnings
+    }
+
+    expect(await warningsOn(checkpoint.config)).toContain(
+      "testData functions aren't saved in checkpoints; resuming without email"
+    )
+    expect(await warningsOn({ ...checkpoint.config, testData })).toEqual([])
+  })
+})
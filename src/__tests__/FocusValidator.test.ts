@@ -0,0 +1,145 @@
+/**
+ * FocusValidator Tests
+ *
+ * Tests for dialog focus management and keyboard trap detection
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { FocusValidator } from '../validators/FocusValidator.js'
+import type { Action } from '../core/types.js'
+
+function createMockPage(evaluations: unknown[], focusReturned = true) {
+  const evaluate = vi.fn()
+  for (const result of evaluations) {
+    evaluate.mockResolvedValueOnce(result)
+  }
+  evaluate.mockResolvedValue(undefined)
+
+  const locator = {
+    first: vi.fn(),
+    evaluate: vi.fn().mockResolvedValue(focusReturned),
+  }
+  locator.first.mockReturnValue(locator)
+
+  return {
+    evaluate,
+    locator: vi.fn().mockReturnValue(locator),
+    waitForTimeout: vi.fn().mockResolvedValue(undefined),
+    keyboard: { press: vi.fn().mockResolvedValue(undefined) },
+  }
+}
+
+const trigger: Action = { type: 'click', selector: '#delete', label: 'Delete' }
+
+const focus = (dialog: string | null, inside: boolean, tabStops = 2) => ({
+  dialog,
+  inside,
+  tabStops,
+  focused: inside ? '#confirm' : 'body',
+})
+
+describe('FocusValidator.validateModal', () => {
+  it('should pass a dialog that takes focus, keeps it, closes on Escape and returns focus', async () => {
+    const page = createMockPage([
+      focus('confirm', true),
+      // Two tab stops, then wrap around
+      focus('confirm', true),
+      focus('confirm', true),
+      focus('confirm', true),
+      focus(null, false),
+    ])
+    const validator = new FocusValidator()
+
+    const result = await validator.validateModal(page as never, trigger, 'desktop')
+
+    expect(result.issues).toEqual([])
+    expect(page.keyboard.press).toHaveBeenCalledTimes(4)
+    expect(page.keyboard.press).toHaveBeenLastCalledWith('Escape')
+  })
+
+  it('should report focus that stays outside, escapes and does not come back', async () => {
+    const page = createMockPage(
+      [focus('confirm', false), focus('confirm', true), focus('confirm', false), focus(null, false)],
+      false
+    )
+    const validator = new FocusValidator()
+
+    const result = await validator.validateModal(page as never, trigger, 'desktop')
+
+    expect(result.issues.map((i) => i.rule)).toEqual([
+      'modal-focus-not-moved',
+      'modal-focus-not-trapped',
+      'modal-focus-not-returned',
+    ])
+    expect(result.issues[1].details).toMatchObject({ tabPresses: 2 })
+    expect(result.issues[0]).toMatchObject({ elements: ['#delete'], viewport: 'desktop' })
+  })
+
+  it('should report dialogs Escape does not close', async () => {
+    const page = createMockPage([
+      focus('confirm', true, 0),
+      focus('confirm', true, 0),
+      focus('confirm', true, 0),
+    ])
+    const validator = new FocusValidator()
+
+    const result = await validator.validateModal(page as never, trigger, 'desktop')
+
+    expect(result.issues.map((i) => i.rule)).toEqual(['modal-escape'])
+    expect(page.locator).not.toHaveBeenCalled()
+  })
+
+  it('should do nothing when no dialog is open', async () => {
+    const page = createMockPage([focus(null, false)])
+    const validator = new FocusValidator()
+
+    const result = await validator.validateModal(page as never, trigger, 'desktop')
+
+    expect(result.issues).toEqual([])
+    expect(page.keyboard.press).not.toHaveBeenCalled()
+  })
+})
+
+describe('FocusValidator.checkKeyboardTrap', () => {
+  it('should pass when focus gets back to the first tab stop', async () => {
+    const step = (status: string) => ({ status, loop: [] })
+    const page = createMockPage([undefined, step('focus'), step('focus'), step('none'), step('cycle')])
+    const validator = new FocusValidator()
+
+    const result = await validator.checkKeyboardTrap(page as never, 'desktop')
+
+    expect(result.issues).toEqual([])
+    expect(page.keyboard.press).toHaveBeenCalledTimes(4)
+  })
+
+  it('should report focus looping through part of the page', async () => {
+    const page = createMockPage([
+      undefined,
+      { status: 'focus', loop: [] },
+      { status: 'focus', loop: [] },
+      { status: 'focus', loop: [] },
+      { status: 'trap', loop: ['#editor', 'button.toolbar'] },
+    ])
+    const validator = new FocusValidator()
+
+    const result = await validator.checkKeyboardTrap(page as never, 'mobile')
+
+    expect(result.issues).toHaveLength(1)
+    expect(result.issues[0]).toMatchObject({
+      rule: 'keyboard-trap',
+      severity: 'critical',
+      elements: ['#editor', 'button.toolbar'],
+      viewport: 'mobile',
+    })
+  })
+
+  it('should skip the check when traps are turned off', async () => {
+    const page = createMockPage([])
+    const validator = new FocusValidator({ checkTraps: false })
+
+    const result = await validator.checkKeyboardTrap(page as never, 'desktop')
+
+    expect(result).toEqual({ validator: 'focus', issues: [], duration: 0 })
+    expect(page.evaluate).not.toHaveBeenCalled()
+  })
+})
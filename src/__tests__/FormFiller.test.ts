@@ -0,0 +1,158 @@
+/**
+ * FormFiller Tests
+ *
+ * Tests for picking valid, reproducible values for form fields
+ */
+
+import { describe, it, expect } from 'vitest'
+import { FormFiller, fieldKind, sampleFromPattern, seededRandom } from '../core/FormFiller.js'
+import type { Action } from '../core/types.js'
+
+describe('fieldKind', () => {
+  it('should read the kind from type, then autocomplete, then name hints', () => {
+    expect(fieldKind({ type: 'email', name: 'phone' })).toBe('email')
+    expect(fieldKind({ type: 'text', autocomplete: 'shipping postal-code' })).toBe('postal-code')
+    expect(fieldKind({ type: 'text', name: 'mobile_number' })).toBe('tel')
+    expect(fieldKind({ type: 'text', id: 'firstName' })).toBe('given-name')
+    expect(fieldKind({ type: 'text', placeholder: 'Your company' })).toBe('organization')
+    expect(fieldKind({ type: 'text', name: 'title' })).toBe('text')
+  })
+})
+
+describe('sampleFromPattern', () => {
+  it('should generate values matching simple patterns', () => {
+    const random = seededRandom(1, 'pattern')
+    for (const pattern of ['[A-Z]{2}\\d{4}', '\\d{3}-\\d{2}', '(?:ab|cd)+x?', '[a-z0-9_]{3,8}']) {
+      const value = sampleFromPattern(pattern, random)
+      expect(value).toMatch(new RegExp(`^(?:${pattern})$`))
+    }
+  })
+
+  it('should give up on patterns it does not understand', () => {
+    expect(sampleFromPattern('(?=.*\\d)[^\\s]+', Math.random)).toBeUndefined()
+  })
+})
+
+describe('FormFiller', () => {
+  it('should fill fields by kind', () => {
+    const filler = new FormFiller()
+
+    expect(filler.valueFor({ type: 'email' })).toMatch(/^[a-z]+\.[a-z]+\d{2}@example\.com$/)
+    expect(filler.valueFor({ type: 'tel' })).toMatch(/^555-01\d{2}$/)
+    expect(filler.valueFor({ type: 'date' })).toMatch(/^\d{4}-\d{2}-\d{2}$/)
+    expect(filler.valueFor({ type: 'password' })).toMatch(/^Eva-Test-\d{4}!$/)
+  })
+
+  it('should respect ranges, steps, lengths and patterns', () => {
+    const filler = new FormFiller()
+
+    const quantity = Number(filler.valueFor({ type: 'number', name: 'qty', min: '2', max: '10', step: '2' }))
+    expect(quantity).toBeGreaterThanOrEqual(2)
+    expect(quantity).toBeLessThanOrEqual(10)
+    expect(quantity % 2).toBe(0)
+
+    expect(['1.0', '1.5', '2.0']).toContain(filler.valueFor({ type: 'number', step: '0.5', min: '1', max: '2' }))
+    expect(filler.valueFor({ type: 'date', min: '2030-01-01' })).toBe('2030-01-01')
+    expect(filler.valueFor({ type: 'text', name: 'bio', minLength: 20 })).toHaveLength(20)
+    expect(filler.valueFor({ type: 'text', name: 'code', maxLength: 4 })).toHaveLength(4)
+    expect(filler.valueFor({ type: 'text', name: 'sku', pattern: '[A-Z]{3}-\\d{3}' })).toMatch(/^[A-Z]{3}-\d{3}$/)
+  })
+
+  it('should be reproducible for a seed', () => {
+    const field = { type: 'email', name: 'email' }
+
+    expect(new FormFiller({ seed: 7 }).valueFor(field)).toBe(new FormFiller({ seed: 7 }).valueFor(field))
+    const values = new Set([1, 2, 3, 4, 5].map((seed) => new FormFiller({ seed }).valueFor(field)))
+    expect(values.size).toBeGreaterThan(1)
+  })
+
+  it('should prefer testData by name, autocomplete token or kind', () => {
+    const filler = new FormFiller({
+      testData: {
+        email: 'qa@example.com',
+        'postal-code': '90210',
+        greeting: 'Hello {{testData.who}}',
+        who: () => 'world',
+      },
+    })
+
+    expect(filler.valueFor({ type: 'email', name: 'contact' })).toBe('qa@example.com')
+    expect(filler.valueFor({ type: 'text', autocomplete: 'postal-code' })).toBe('90210')
+    expect(filler.valueFor({ type: 'text', name: 'greeting' })).toBe('Hello world')
+  })
+
+  it('should resolve generator and env placeholders from the data seed', () => {
+    const options = { dataSeed: 42, env: { API_USER: 'robot' }, now: Date.UTC(2024, 0, 30) }
+    const first = new FormFiller(options)
+    const again = new FormFiller(options)
+    const other = new FormFiller({ ...options, dataSeed: 43 })
+
+    const email = first.resolve('{{gen.email}}')
+    expect(email).toMatch(/^[\w.+-]+@example\.com$/)
+    expect(first.resolve('{{gen.email}}')).not.toBe(email)
+    expect(again.resolve('{{gen.email}}')).toBe(email)
+    expect(other.resolve('{{gen.email}}')).not.toBe(email)
+
+    expect(first.resolve('{{gen.uuid}}')).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/)
+    expect(first.resolve('{{gen.name}}')).toMatch(/^\w+ \w+$/)
+    expect(first.resolve('#{{gen.seq:order}}, #{{gen.seq:order}}, #{{gen.seq:invoice}}')).toBe('#1, #2, #1')
+    expect(first.resolve('{{gen.date}} {{gen.date:+7d}} {{gen.date:+1m}}')).toBe('2024-01-30 2024-02-06 2024-03-01')
+    expect(first.resolve('{{env.API_USER}} {{env.MISSING}} {{gen.unknown}}')).toBe(
+      'robot {{env.MISSING}} {{gen.unknown}}'
+    )
+  })
+
+  it('should carry on counting after a round trip through getState and restoreState', () => {
+    const first = new FormFiller({ dataSeed: 42 })
+    first.resolve('{{gen.email}} {{gen.seq:order}} {{gen.seq:order}}')
+
+    const resumed = new FormFiller({ dataSeed: 42 })
+    resumed.restoreState(JSON.parse(JSON.stringify(first.getState())))
+
+    expect(resumed.resolve('{{gen.email}} {{gen.seq:order}}')).toBe(first.resolve('{{gen.email}} {{gen.seq:order}}'))
+    expect(resumed.resolve('{{gen.seq:order}}')).toBe('4')
+  })
+
+  it('should resolve placeholders inside testData values', () => {
+    const filler = new FormFiller({
+      testData: { email: '{{gen.email}}', contact: '{{testData.email}}', loop: '{{testData.loop}}' },
+      dataSeed: 1,
+    })
+
+    expect(filler.valueFor({ type: 'email' })).toMatch(/@example\.com$/)
+    expect(filler.resolve('{{testData.contact}}')).toMatch(/@example\.com$/)
+    expect(filler.resolve('{{testData.loop}}')).toBe('{{testData.loop}}')
+  })
+
+  it('should give values only to fill actions that have none', () => {
+    const filler = new FormFiller()
+    const actions: Action[] = [
+      { type: 'fill', selector: '#email', label: 'Email', field: { type: 'email' } },
+      { type: 'fill', selector: '#note', label: 'Note', value: 'kept' },
+      { type: 'click', selector: '#save', label: 'Save' },
+    ]
+
+    const [email, note, save] = filler.withValues(actions)
+
+    expect(email.value).toContain('@example.com')
+    expect(note.value).toBe('kept')
+    expect(save.value).toBeUndefined()
+  })
+
+  it('should fill the fields of form submissions', () => {
+    const filler = new FormFiller({ testData: { phone: '555-0100' } })
+    const [submit] = filler.withValues<Action>([
+      {
+        type: 'submit',
+        selector: '#signup >> button',
+        label: 'Submit form: Sign up',
+        fields: [
+          { type: 'fill', selector: '#phone', label: 'Phone', field: { type: 'tel', name: 'phone' } },
+          { type: 'check', selector: '#terms', label: 'Terms' },
+        ],
+      },
+    ])
+
+    expect(submit.fields?.map((field) => field.value)).toEqual(['555-0100', undefined])
+  })
+})
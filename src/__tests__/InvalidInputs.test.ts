@@ -0,0 +1,167 @@
+/**
+ * InvalidInputs Tests
+ *
+ * Tests for submitting forms with invalid values and reporting how errors are presented
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import {
+  changedData,
+  checkFormErrors,
+  invalidInputIssues,
+  invalidProbes,
+  invalidValues,
+  type FormErrorReport,
+} from '../core/InvalidInputs.js'
+import type { Action } from '../core/types.js'
+
+const signup: Action = {
+  type: 'submit',
+  selector: '#signup >> button[type="submit"]',
+  label: 'Submit form: Sign up',
+  form: '#signup',
+  fields: [
+    { type: 'fill', selector: '#email', label: 'Email', value: 'ada@example.com', field: { type: 'email', required: true } },
+    { type: 'fill', selector: '#age', label: 'Age', value: '30', field: { type: 'number', min: '18', max: '99' } },
+    { type: 'fill', selector: '#bio', label: 'Bio', value: 'Hi', field: { type: 'textarea', maxLength: 5 } },
+    { type: 'check', selector: '#terms', label: 'I agree' },
+  ],
+}
+
+const report = (overrides: Partial<FormErrorReport> = {}): FormErrorReport => ({
+  valueKept: true,
+  errorShown: true,
+  tied: true,
+  focused: true,
+  native: false,
+  ...overrides,
+})
+
+describe('invalidValues', () => {
+  it('should break each constraint a field has', () => {
+    expect(invalidValues({ type: 'email', required: true })).toEqual([
+      { value: '', reason: 'left empty' },
+      { value: 'not-an-email', reason: 'not an email address' },
+    ])
+    expect(invalidValues({ type: 'number', min: '1', max: '10', step: '0.5' }).map((v) => v.value)).toEqual([
+      '0.5',
+      '10.5',
+    ])
+    expect(invalidValues({ type: 'text', maxLength: 3 })).toEqual([
+      { value: 'xxxx', reason: 'longer than 3 characters' },
+    ])
+    expect(invalidValues({ type: 'text' })).toEqual([])
+  })
+})
+
+describe('invalidProbes', () => {
+  it('should make one field invalid per probe and keep the others valid', () => {
+    const probes = invalidProbes(signup)
+
+    expect(probes.map((probe) => `${probe.field.label} ${probe.reason}`)).toEqual([
+      'Email left empty',
+      'Email not an email address',
+      'Age below the minimum of 18',
+      'Age above the maximum of 99',
+      'Bio longer than 5 characters',
+      'I agree left unchecked',
+    ])
+
+    const [empty] = probes
+    expect(empty.action.label).toBe('Submit form: Sign up (Email left empty)')
+    expect(empty.action.fields?.map((field) => field.value)).toEqual(['', '30', 'Hi', undefined])
+
+    const unchecked = probes[probes.length - 1]
+    expect(unchecked.action.fields?.map((field) => field.selector)).toEqual(['#email', '#age', '#bio'])
+  })
+
+  it('should pass the keys of a left-out field on in keyboard mode', () => {
+    const keyboard: Action = {
+      ...signup,
+      fields: [
+        { type: 'fill', selector: '#email', label: 'Email', value: 'ada@example.com', keys: ['Tab'] },
+        { type: 'check', selector: '#terms', label: 'I agree', keys: ['Tab', 'Space'] },
+        { type: 'check', selector: '#news', label: 'Newsletter', keys: ['Tab', 'Tab', 'Space'] },
+      ],
+      keys: ['Tab', 'Enter'],
+    }
+
+    const [terms, news] = invalidProbes(keyboard)
+
+    expect(terms.action.fields?.map((field) => field.keys)).toEqual([['Tab'], ['Tab', 'Tab', 'Tab', 'Space']])
+    expect(terms.action.keys).toEqual(['Tab', 'Enter'])
+    expect(news.action.keys).toEqual(['Tab', 'Tab', 'Tab', 'Enter'])
+  })
+
+  it('should ignore actions that are not form submissions', () => {
+    expect(invalidProbes({ type: 'click', selector: '#save', label: 'Save' })).toEqual([])
+  })
+})
+
+describe('checkFormErrors', () => {
+  it('should check the probed field', async () => {
+    const evaluate = vi.fn().mockResolvedValue(report({ tied: false }))
+    const page = { locator: vi.fn().mockReturnValue({ first: () => ({ evaluate }) }) }
+    const [probe] = invalidProbes(signup)
+
+    const result = await checkFormErrors(page as unknown as import('playwright').Page, probe)
+
+    expect(page.locator).toHaveBeenCalledWith('#email')
+    expect(evaluate).toHaveBeenCalledWith(expect.any(Function), '')
+    expect(result.tied).toBe(false)
+  })
+
+  it('should report no error when the field is gone after submitting', async () => {
+    const evaluate = vi.fn().mockRejectedValue(new Error('Execution context was destroyed'))
+    const page = { locator: vi.fn().mockReturnValue({ first: () => ({ evaluate }) }) }
+
+    const result = await checkFormErrors(page as unknown as import('playwright').Page, invalidProbes(signup)[1])
+
+    expect(result).toMatchObject({ valueKept: true, errorShown: false })
+  })
+})
+
+describe('changedData', () => {
+  it('should name changed tables, or adapters without table snapshots', () => {
+    const before = {
+      supabase: { database: { tables: { users: { rowCount: 3 }, posts: { rowCount: 1 } } } },
+      api: { version: 1 },
+    }
+    const after = {
+      supabase: { database: { tables: { users: { rowCount: 4 }, posts: { rowCount: 1 } } } },
+      api: { version: 2 },
+    }
+
+    expect(changedData(before, after)).toEqual(['users', 'api'])
+    expect(changedData(before, before)).toEqual([])
+    expect(changedData({}, after)).toEqual([])
+  })
+})
+
+describe('invalidInputIssues', () => {
+  const [probe] = invalidProbes(signup)
+
+  it('should report missing, untied and unfocused errors', () => {
+    expect(invalidInputIssues(probe, report(), [], 'desktop')).toEqual([])
+    expect(invalidInputIssues(probe, report({ errorShown: false }), [], 'desktop').map((i) => i.rule)).toEqual([
+      'invalid-input-no-error',
+    ])
+    expect(
+      invalidInputIssues(probe, report({ tied: false, focused: false }), [], 'desktop').map((i) => i.rule)
+    ).toEqual(['form-error-not-associated', 'form-error-focus'])
+  })
+
+  it('should report saved data even when the browser refused the value', () => {
+    const issues = invalidInputIssues(probe, report({ valueKept: false, errorShown: false }), ['users'], 'mobile')
+
+    expect(issues).toHaveLength(1)
+    expect(issues[0]).toMatchObject({
+      type: 'functional',
+      severity: 'critical',
+      rule: 'invalid-input-persisted',
+      elements: ['#email'],
+      viewport: 'mobile',
+      details: { changed: ['users'] },
+    })
+  })
+})
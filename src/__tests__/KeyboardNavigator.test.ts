@@ -0,0 +1,171 @@
+/**
+ * KeyboardNavigator Tests
+ *
+ * Tests for key sequences that reach and activate actions in keyboard mode
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { KeyboardNavigator, activationKey, keysBetween, keysFor } from '../core/KeyboardNavigator.js'
+import type { Action } from '../core/types.js'
+
+describe('activationKey', () => {
+  it('should press Enter on buttons and links', () => {
+    expect(activationKey({ type: 'click', selector: 'button', label: 'Save', tagName: 'button' })).toBe('Enter')
+    expect(activationKey({ type: 'click', selector: 'a', label: 'Home', tagName: 'a' })).toBe('Enter')
+  })
+
+  it('should press Space on checkboxes and switches', () => {
+    expect(activationKey({ type: 'check', selector: '#terms', label: 'Terms' })).toBe('Space')
+    expect(activationKey({ type: 'click', selector: '#dark', label: 'Dark', role: 'switch' })).toBe('Space')
+  })
+
+  it('should open selects with ArrowDown', () => {
+    expect(activationKey({ type: 'select', selector: '#country', label: 'Country' })).toBe('ArrowDown')
+  })
+})
+
+describe('keysFor', () => {
+  it('should tab forward to stops near the start', () => {
+    expect(keysFor({ tabStop: 2, arrows: 0, vertical: false }, { length: 10, wraps: true })).toEqual([
+      'Tab',
+      'Tab',
+      'Tab',
+    ])
+  })
+
+  it('should tab backward to stops near the end when focus wraps', () => {
+    // 8 stops, then focus leaves the page
+    expect(keysFor({ tabStop: 7, arrows: 0, vertical: false }, { length: 9, wraps: true })).toEqual(['Shift+Tab'])
+  })
+
+  it('should only tab forward when focus never leaves the page', () => {
+    expect(keysFor({ tabStop: 3, arrows: 0, vertical: false }, { length: 4, wraps: false })).toHaveLength(4)
+  })
+
+  it('should add arrow presses inside widgets', () => {
+    expect(keysFor({ tabStop: 0, arrows: 2, vertical: false }, { length: 5, wraps: true })).toEqual([
+      'Tab',
+      'ArrowRight',
+      'ArrowRight',
+    ])
+    expect(keysFor({ tabStop: 0, arrows: -1, vertical: true }, { length: 5, wraps: true })).toEqual([
+      'Tab',
+      'ArrowUp',
+    ])
+  })
+})
+
+describe('keysBetween', () => {
+  it('should tab from one form field to the next', () => {
+    expect(keysBetween({ tabStop: 1, arrows: 0, vertical: false }, { tabStop: 3, arrows: 0, vertical: false })).toEqual([
+      'Tab',
+      'Tab',
+    ])
+    expect(keysBetween({ tabStop: 3, arrows: 0, vertical: false }, { tabStop: 2, arrows: 1, vertical: true })).toEqual([
+      'Shift+Tab',
+      'ArrowDown',
+    ])
+  })
+
+  it('should only use arrows inside the same widget', () => {
+    expect(keysBetween({ tabStop: 2, arrows: 1, vertical: false }, { tabStop: 2, arrows: 3, vertical: false })).toEqual([
+      'ArrowRight',
+      'ArrowRight',
+    ])
+  })
+})
+
+describe('KeyboardNavigator.perform', () => {
+  function createMockPage(focused: boolean) {
+    const locator = {
+      first: vi.fn(),
+      evaluate: vi.fn().mockResolvedValue(focused),
+    }
+    locator.first.mockReturnValue(locator)
+
+    return {
+      locator: vi.fn().mockReturnValue(locator),
+      keyboard: { press: vi.fn().mockResolvedValue(undefined), type: vi.fn().mockResolvedValue(undefined) },
+    }
+  }
+
+  const save: Action = { type: 'click', selector: '#save', label: 'Save', keys: ['Tab', 'Tab', 'Enter'] }
+
+  it('should press the navigation keys, then the activation key', async () => {
+    const page = createMockPage(true)
+
+    const reached = await new KeyboardNavigator().perform(page as unknown as import('playwright').Page, save)
+
+    expect(reached).toBe(true)
+    expect(page.keyboard.press.mock.calls.map((call) => call[0])).toEqual(['Tab', 'Tab', 'Enter'])
+  })
+
+  it('should not activate an element that did not get focus', async () => {
+    const page = createMockPage(false)
+
+    const reached = await new KeyboardNavigator().perform(page as unknown as import('playwright').Page, save)
+
+    expect(reached).toBe(false)
+    expect(page.keyboard.press).not.toHaveBeenCalledWith('Enter')
+  })
+
+  it('should type the value of fill actions', async () => {
+    const page = createMockPage(true)
+
+    await new KeyboardNavigator().perform(page as unknown as import('playwright').Page, {
+      type: 'fill',
+      selector: '#email',
+      label: 'Email',
+      value: 'a@b.test',
+      keys: ['Tab'],
+    })
+
+    expect(page.keyboard.type).toHaveBeenCalledWith('a@b.test')
+  })
+
+  it('should clear fill actions with an empty value', async () => {
+    const page = createMockPage(true)
+
+    await new KeyboardNavigator().perform(page as unknown as import('playwright').Page, {
+      type: 'fill',
+      selector: '#email',
+      label: 'Email',
+      value: '',
+      keys: ['Tab'],
+    })
+
+    expect(page.keyboard.type).not.toHaveBeenCalled()
+    expect(page.keyboard.press).toHaveBeenLastCalledWith('Delete')
+  })
+
+  it('should fill each field of a form submission before pressing its button', async () => {
+    const page = createMockPage(true)
+
+    const reached = await new KeyboardNavigator().perform(page as unknown as import('playwright').Page, {
+      type: 'submit',
+      selector: '#login >> button[type="submit"]',
+      label: 'Submit form: Log in',
+      form: '#login',
+      fields: [
+        { type: 'fill', selector: '#email', label: 'Email', value: 'a@b.test', keys: ['Tab'] },
+        { type: 'check', selector: '#remember', label: 'Remember me', keys: ['Tab', 'Space'] },
+      ],
+      keys: ['Tab', 'Enter'],
+    })
+
+    expect(reached).toBe(true)
+    expect(page.locator.mock.calls.map((call) => call[0])).toEqual([
+      '#email',
+      '#remember',
+      '#login >> button[type="submit"]',
+    ])
+    expect(page.keyboard.press.mock.calls.map((call) => call[0])).toEqual([
+      'Tab',
+      'ControlOrMeta+A',
+      'Tab',
+      'Space',
+      'Tab',
+      'Enter',
+    ])
+  })
+})
@@ -0,0 +1,95 @@
+/**
+ * Login Tests
+ *
+ * Tests for the scripted login form and logged-out detection
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { LoginFlow } from '../core/Login.js'
+import type { LoginConfig } from '../core/types.js'
+
+function createMockPage(url: string, passwordVisible = false) {
+  const locator = { first: vi.fn(), isVisible: vi.fn().mockResolvedValue(passwordVisible) }
+  locator.first.mockReturnValue(locator)
+  return {
+    url: vi.fn().mockReturnValue(url),
+    goto: vi.fn().mockResolvedValue(null),
+    fill: vi.fn().mockResolvedValue(undefined),
+    click: vi.fn().mockResolvedValue(undefined),
+    press: vi.fn().mockResolvedValue(undefined),
+    waitForLoadState: vi.fn().mockResolvedValue(undefined),
+    locator: vi.fn().mockReturnValue(locator),
+  }
+}
+
+const config: LoginConfig = {
+  url: '/login',
+  usernameSelector: '#email',
+  passwordSelector: '#password',
+}
+const env = { EVA_USERNAME: 'ada@example.com', EVA_PASSWORD: 'hunter2' }
+
+describe('LoginFlow', () => {
+  it('should fill the form with credentials from the environment', async () => {
+    const page = createMockPage('http://localhost:3000/login')
+    const flow = new LoginFlow({ ...config, submitSelector: '#sign-in' }, 'http://localhost:3000', env)
+
+    await flow.submit(page as never)
+
+    expect(page.goto).toHaveBeenCalledWith('http://localhost:3000/login', expect.any(Object))
+    expect(page.fill).toHaveBeenCalledWith('#email', 'ada@example.com', expect.any(Object))
+    expect(page.fill).toHaveBeenCalledWith('#password', 'hunter2', expect.any(Object))
+    expect(page.click).toHaveBeenCalledWith('#sign-in', expect.any(Object))
+  })
+
+  it('should submit with Enter when there is no submit button', async () => {
+    const page = createMockPage('http://localhost:3000/login')
+    const flow = new LoginFlow({ ...config, usernameEnv: 'APP_USER', passwordEnv: 'APP_PASS' }, 'http://localhost:3000', {
+      APP_USER: 'alan',
+      APP_PASS: 'enigma',
+    })
+
+    await flow.submit(page as never)
+
+    expect(page.fill).toHaveBeenCalledWith('#email', 'alan', expect.any(Object))
+    expect(page.press).toHaveBeenCalledWith('#password', 'Enter', expect.any(Object))
+  })
+
+  it('should name the missing environment variables', () => {
+    const flow = new LoginFlow(config, 'http://localhost:3000', {})
+
+    expect(() => flow.credentials()).toThrow('set EVA_USERNAME and EVA_PASSWORD')
+  })
+
+  it('should recognise the login page and a visible login form', async () => {
+    const flow = new LoginFlow(config, 'http://localhost:3000', env)
+
+    expect(await flow.isLoggedOut(createMockPage('http://localhost:3000/login?next=/songs') as never)).toBe(true)
+    expect(await flow.isLoggedOut(createMockPage('http://localhost:3000/songs', true) as never)).toBe(true)
+    expect(await flow.isLoggedOut(createMockPage('http://localhost:3000/songs') as never)).toBe(false)
+  })
+
+  it('should not take a lone password input for the login form', async () => {
+    const flow = new LoginFlow({ ...config, submitSelector: '#sign-in' }, 'http://localhost:3000', env)
+    const page = createMockPage('http://localhost:3000/account/password')
+    page.locator.mockImplementation((selector: string) => {
+      const locator = { first: () => locator, isVisible: vi.fn().mockResolvedValue(selector !== '#email') }
+      return locator
+    })
+
+    expect(await flow.isLoggedOut(page as never)).toBe(false)
+  })
+
+  it('should use the configured logged-out detector', async () => {
+    const flow = new LoginFlow(
+      { ...config, loggedOut: { url: /\/auth\/sign-in/, visible: '[data-testid="session-expired"]' } },
+      'http://localhost:3000',
+      env
+    )
+    const page = createMockPage('http://localhost:3000/login', false)
+
+    expect(await flow.isLoggedOut(page as never)).toBe(false)
+    expect(page.locator).toHaveBeenCalledWith('[data-testid="session-expired"]')
+    expect(await flow.isLoggedOut(createMockPage('http://localhost:3000/auth/sign-in') as never)).toBe(true)
+  })
+})
@@ -208,6 +208,40 @@ describe('ResponsiveValidator', () => {
       expect(touchIssue).toBeUndefined()
     })
 
+    it('should check touch targets on custom touch profiles', async () => {
+      const mockPage = createMockPage({
+        viewportSize: { width: 1024, height: 768 },
+      })
+
+      // Overflow check
+      mockPage.evaluate.mockResolvedValueOnce({
+        hasOverflow: false,
+        maxWidth: 1024,
+        viewportWidth: 1024,
+        overflowingElements: [],
+      })
+
+      // Touch targets
+      mockPage.evaluate.mockResolvedValueOnce([
+        { selector: '#small-btn', width: 30, height: 30, label: 'Small Button' },
+      ])
+
+      // Truncation
+      mockPage.evaluate.mockResolvedValueOnce([])
+
+      // Out of bounds
+      mockPage.evaluate.mockResolvedValueOnce([])
+
+      const result = await validator.validate(
+        mockPage as unknown as import('playwright').Page,
+        { name: 'touch-laptop', width: 1024, height: 768, hasTouch: true }
+      )
+
+      const touchIssue = result.issues.find(i => i.rule === 'touch-target-size')
+      expect(touchIssue).toBeDefined()
+      expect(touchIssue?.viewport).toBe('touch-laptop')
+    })
+
     it('should detect text truncation', async () => {
       const mockPage = createMockPage({
         viewportSize: { width: 375, height: 667 },
@@ -0,0 +1,192 @@
+/**
+ * RouteSeeds Tests
+ *
+ * Tests for robots.txt rules, sitemap parsing, route manifests, and Next.js route scanning
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import {
+  RouteSeeder,
+  isAllowedByRobots,
+  loadRouteManifest,
+  parseRobotsTxt,
+  parseSitemap,
+  scanNextRoutes,
+} from '../core/RouteSeeds.js'
+
+describe('parseRobotsTxt', () => {
+  const robots = `
+# Comment
+User-agent: Googlebot
+Disallow: /
+
+User-agent: *
+Disallow: /admin
+Allow: /admin/help
+Disallow: /*.pdf$
+
+Sitemap: https://app.test/sitemap-index.xml
+`
+
+  it('should use the * group by default', () => {
+    const rules = parseRobotsTxt(robots)
+    expect(rules.disallow).toEqual(['/admin', '/*.pdf$'])
+    expect(rules.allow).toEqual(['/admin/help'])
+  })
+
+  it('should prefer a matching user agent group', () => {
+    expect(parseRobotsTxt(robots, 'googlebot').disallow).toEqual(['/'])
+  })
+
+  it('should collect sitemap links', () => {
+    expect(parseRobotsTxt(robots).sitemaps).toEqual(['https://app.test/sitemap-index.xml'])
+  })
+})
+
+describe('isAllowedByRobots', () => {
+  const rules = { allow: ['/admin/help'], disallow: ['/admin', '/*.pdf$'], sitemaps: [] }
+
+  it('should block disallowed prefixes', () => {
+    expect(isAllowedByRobots(rules, '/admin/users')).toBe(false)
+    expect(isAllowedByRobots(rules, '/songs')).toBe(true)
+  })
+
+  it('should let the longest matching rule win', () => {
+    expect(isAllowedByRobots(rules, '/admin/help/faq')).toBe(true)
+  })
+
+  it('should support wildcards and end anchors', () => {
+    expect(isAllowedByRobots(rules, '/files/report.pdf')).toBe(false)
+    expect(isAllowedByRobots(rules, '/files/report.pdf?download=1')).toBe(true)
+  })
+})
+
+describe('parseSitemap', () => {
+  it('should extract page URLs from a urlset', () => {
+    const xml = `<?xml version="1.0"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url><loc>https://app.test/</loc></url>
+  <url><loc> https://app.test/search?q=a&amp;page=2 </loc></url>
+</urlset>`
+
+    expect(parseSitemap(xml)).toEqual({
+      urls: ['https://app.test/', 'https://app.test/search?q=a&page=2'],
+      sitemaps: [],
+    })
+  })
+
+  it('should extract nested sitemaps from a sitemap index', () => {
+    const xml = `<sitemapindex><sitemap><loc>https://app.test/sitemap-1.xml</loc></sitemap></sitemapindex>`
+    expect(parseSitemap(xml)).toEqual({ urls: [], sitemaps: ['https://app.test/sitemap-1.xml'] })
+  })
+})
+
+describe('file-based routes', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'eva-routes-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  const touch = (path: string) => {
+    mkdirSync(join(dir, path, '..'), { recursive: true })
+    writeFileSync(join(dir, path), '')
+  }
+
+  it('should load a JSON route manifest', () => {
+    writeFileSync(join(dir, 'routes.json'), JSON.stringify(['/', '/songs']))
+    expect(loadRouteManifest(join(dir, 'routes.json'))).toEqual(['/', '/songs'])
+  })
+
+  it('should reject manifests that are not a list of strings', () => {
+    writeFileSync(join(dir, 'routes.json'), JSON.stringify({ routes: ['/'] }))
+    expect(() => loadRouteManifest(join(dir, 'routes.json'))).toThrow('must be a JSON list')
+  })
+
+  it('should scan a Next.js pages directory', () => {
+    touch('pages/index.tsx')
+    touch('pages/_app.tsx')
+    touch('pages/about.tsx')
+    touch('pages/songs/[id].tsx')
+    touch('pages/docs/[...slug].tsx')
+    touch('pages/api/songs.ts')
+
+    expect(scanNextRoutes(dir)).toEqual(['/', '/about', '/docs/:slug*', '/songs/:id'])
+  })
+
+  it('should scan a Next.js app directory', () => {
+    touch('src/app/page.tsx')
+    touch('src/app/layout.tsx')
+    touch('src/app/(marketing)/pricing/page.tsx')
+    touch('src/app/songs/[id]/page.tsx')
+    touch('src/app/_components/page.tsx')
+    touch('src/app/@modal/login/page.tsx')
+
+    expect(scanNextRoutes(dir)).toEqual(['/', '/pricing', '/songs/:id'])
+  })
+})
+
+describe('RouteSeeder', () => {
+  const files: Record<string, string> = {
+    'https://app.test/robots.txt': 'User-agent: *\nDisallow: /private\nSitemap: https://app.test/sitemap-index.xml',
+    'https://app.test/sitemap-index.xml':
+      '<sitemapindex><sitemap><loc>https://app.test/sitemap-pages.xml</loc></sitemap></sitemapindex>',
+    'https://app.test/sitemap-pages.xml':
+      '<urlset><url><loc>https://app.test/about</loc></url><url><loc>https://app.test/private/x</loc></url></urlset>',
+  }
+  const fetcher = async (url: string) => files[url] ?? null
+
+  it('should follow sitemaps listed in robots.txt and drop disallowed URLs', async () => {
+    const seeder = new RouteSeeder({ sitemap: true }, 'https://app.test', fetcher)
+    expect(await seeder.discover()).toEqual({ urls: ['https://app.test/about'], patterns: [] })
+  })
+
+  it('should keep disallowed URLs when robots.txt is ignored', async () => {
+    const seeder = new RouteSeeder({ sitemap: true, respectRobots: false }, 'https://app.test', fetcher)
+    expect((await seeder.discover()).urls).toEqual([
+      'https://app.test/about',
+      'https://app.test/private/x',
+    ])
+  })
+
+  it('should warn about missing sitemaps', async () => {
+    const seeder = new RouteSeeder({ sitemap: '/missing.xml' }, 'https://app.test', fetcher)
+    await seeder.discover()
+    expect(seeder.getWarnings()).toEqual(['Sitemap not found: https://app.test/missing.xml'])
+  })
+
+  it('should warn about a missing Next.js project and keep the other sources', async () => {
+    const seeder = new RouteSeeder(
+      { sitemap: true, nextjs: join(tmpdir(), 'eva-missing-next-project') },
+      'https://app.test',
+      fetcher
+    )
+
+    expect((await seeder.discover()).urls).toEqual(['https://app.test/about'])
+    expect(seeder.getWarnings()).toEqual([
+      `Could not scan Next.js routes: ${join(tmpdir(), 'eva-missing-next-project')} does not exist`,
+    ])
+  })
+
+  it('should keep parameterised manifest routes as patterns', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'eva-manifest-'))
+    try {
+      writeFileSync(join(dir, 'routes.json'), JSON.stringify(['/songs', '/songs/:id', '/albums/[id]']))
+      const seeder = new RouteSeeder({ manifest: join(dir, 'routes.json') }, 'https://app.test', fetcher)
+
+      expect(await seeder.discover()).toEqual({
+        urls: ['https://app.test/songs'],
+        patterns: ['/songs/:id', '/albums/:id'],
+      })
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,110 @@
+/**
+ * RouteTemplates Tests
+ *
+ * Tests for ID detection, declared templates, and per-template sampling
+ */
+
+import { describe, it, expect } from 'vitest'
+import { RouteSampler, RouteTemplateMatcher, detectParam } from '../core/RouteTemplates.js'
+
+describe('detectParam', () => {
+  it('should detect numeric IDs', () => {
+    expect(detectParam('42')).toBe(':id')
+  })
+
+  it('should detect UUIDs', () => {
+    expect(detectParam('3f2504e0-4f89-11d3-9a0c-0305e82c3301')).toBe(':uuid')
+  })
+
+  it('should detect hashes', () => {
+    expect(detectParam('5f4dcc3b5aa765d61d83')).toBe(':hash')
+  })
+
+  it('should detect slugs ending in a hash', () => {
+    expect(detectParam('my-first-song-a8f3k29')).toBe(':slug')
+  })
+
+  it('should leave meaningful segments alone', () => {
+    expect(detectParam('settings')).toBeNull()
+    expect(detectParam('getting-started')).toBeNull()
+    expect(detectParam('v2')).toBeNull()
+  })
+})
+
+describe('RouteTemplateMatcher', () => {
+  it('should template ID-like path segments', () => {
+    const matcher = new RouteTemplateMatcher()
+    expect(matcher.toTemplate('https://app.test/songs/42/edit')).toBe('/songs/:id/edit')
+  })
+
+  it('should template ID-like query values and sort params', () => {
+    const matcher = new RouteTemplateMatcher()
+    expect(matcher.toTemplate('https://app.test/search?tab=all&song=7')).toBe('/search?song=:id&tab=all')
+  })
+
+  it('should leave URLs without parameters unchanged', () => {
+    const matcher = new RouteTemplateMatcher()
+    expect(matcher.toTemplate('https://app.test/settings')).toBe('/settings')
+    expect(matcher.isParameterised('/settings')).toBe(false)
+    expect(matcher.isParameterised('/songs/:id')).toBe(true)
+    expect(matcher.isParameterised('/search?song=:id')).toBe(true)
+  })
+
+  it('should prefer declared templates over auto-detection', () => {
+    const matcher = new RouteTemplateMatcher({ templates: ['/artists/:name'] })
+    expect(matcher.toTemplate('https://app.test/artists/radiohead')).toBe('/artists/:name')
+    expect(matcher.toTemplate('https://app.test/artists/radiohead/albums')).toBe(
+      '/artists/radiohead/albums'
+    )
+  })
+
+  it('should not auto-detect when disabled', () => {
+    const matcher = new RouteTemplateMatcher({ autoDetect: false })
+    expect(matcher.toTemplate('https://app.test/songs/42')).toBe('/songs/42')
+  })
+})
+
+describe('RouteSampler', () => {
+  it('should admit up to the sample size per template', () => {
+    const sampler = new RouteSampler({ samplesPerTemplate: 2 })
+
+    expect(sampler.admit('https://app.test/songs/1')).toBe(true)
+    expect(sampler.admit('https://app.test/songs/2')).toBe(true)
+    expect(sampler.admit('https://app.test/songs/3')).toBe(false)
+    expect(sampler.admit('https://app.test/songs/4')).toBe(false)
+
+    expect(sampler.getSkipped()).toEqual({ '/songs/:id': ['/songs/3', '/songs/4'] })
+  })
+
+  it('should keep admitting URLs already sampled', () => {
+    const sampler = new RouteSampler({ samplesPerTemplate: 1 })
+
+    expect(sampler.admit('https://app.test/songs/1')).toBe(true)
+    expect(sampler.admit('https://app.test/songs/1')).toBe(true)
+  })
+
+  it('should always admit URLs without parameters', () => {
+    const sampler = new RouteSampler({ samplesPerTemplate: 0 })
+    expect(sampler.admit('https://app.test/settings')).toBe(true)
+  })
+
+  it('should honor per-template sample sizes', () => {
+    const sampler = new RouteSampler({
+      templates: [{ template: '/songs/:id', samples: 1 }],
+      samplesPerTemplate: 5,
+    })
+
+    expect(sampler.admit('https://app.test/songs/1')).toBe(true)
+    expect(sampler.admit('https://app.test/songs/2')).toBe(false)
+    expect(sampler.admit('https://app.test/albums/1')).toBe(true)
+    expect(sampler.admit('https://app.test/albums/2')).toBe(true)
+  })
+
+  it('should restore samples and skipped URLs from a checkpoint', () => {
+    const sampler = new RouteSampler({ samplesPerTemplate: 1 })
+    sampler.restore(['https://app.test/songs/1'], { '/songs/:id': ['/songs/2'] })
+
+    expect(sampler.admit('https://app.test/songs/3')).toBe(false)
+    expect(sampler.getSkipped()).toEqual({ '/songs/:id': ['/songs/2', '/songs/3'] })
+  })
+})
@@ -0,0 +1,105 @@
+/**
+ * Safety Tests
+ *
+ * Tests for the safety policy: which actions run, and stubbing writes in dry-run mode
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { SafetyPolicy, DEFAULT_DESTRUCTIVE_PATTERNS } from '../core/Safety.js'
+import type { Action } from '../core/types.js'
+
+const save: Action = { type: 'click', selector: '#save', label: 'Save' }
+const deleteAccount: Action = { type: 'click', selector: '#delete', label: 'Delete account', destructive: true }
+
+type RouteHandler = (route: unknown) => Promise<void>
+
+function createContext() {
+  const handlers: RouteHandler[] = []
+  return {
+    handlers,
+    route: vi.fn(async (_url: string, handler: RouteHandler) => {
+      handlers.push(handler)
+    }),
+  }
+}
+
+function createRoute(method: string, page: unknown, postData: string | null = null) {
+  return {
+    request: () => ({
+      method: () => method,
+      url: () => 'http://localhost:3000/api/account',
+      postData: () => postData,
+      frame: () => ({ page: () => page }),
+    }),
+    fulfill: vi.fn().mockResolvedValue(undefined),
+    fallback: vi.fn().mockResolvedValue(undefined),
+  }
+}
+
+describe('SafetyPolicy', () => {
+  it('should allow actions by mode', () => {
+    expect(new SafetyPolicy().allows(deleteAccount)).toBe(true)
+    expect(new SafetyPolicy({ mode: 'dry-run' }).allows(deleteAccount)).toBe(true)
+
+    const skip = new SafetyPolicy({ mode: 'skip-destructive' })
+    expect(skip.allows(save)).toBe(true)
+    expect(skip.allows(deleteAccount)).toBe(false)
+
+    const allowlist = new SafetyPolicy({ mode: 'allowlist', allow: ['^save$', '#delete'] })
+    expect(allowlist.allows(save)).toBe(true)
+    expect(allowlist.allows(deleteAccount)).toBe(true)
+    expect(allowlist.allows({ type: 'click', selector: '#publish', label: 'Publish' })).toBe(false)
+  })
+
+  it('should use the configured destructive patterns', () => {
+    expect(new SafetyPolicy().destructivePatterns).toEqual(DEFAULT_DESTRUCTIVE_PATTERNS)
+    expect(new SafetyPolicy({ destructivePatterns: ['archive'] }).destructivePatterns).toEqual(['archive'])
+  })
+
+  it('should only route requests in dry-run mode', async () => {
+    const context = createContext()
+    await new SafetyPolicy({ mode: 'skip-destructive' }).blockWrites(context as never)
+    expect(context.route).not.toHaveBeenCalled()
+
+    await new SafetyPolicy({ mode: 'dry-run' }).blockWrites(context as never)
+    expect(context.route).toHaveBeenCalledWith('**/*', expect.any(Function))
+  })
+
+  it('should stub writes and record what would have been sent', async () => {
+    const policy = new SafetyPolicy({ mode: 'dry-run' })
+    const context = createContext()
+    const page = {}
+    await policy.blockWrites(context as never)
+    const [handle] = context.handlers
+
+    const read = createRoute('GET', page)
+    await handle(read)
+    expect(read.fallback).toHaveBeenCalled()
+
+    const write = createRoute('DELETE', page, '{"id":1}')
+    await handle(write)
+    expect(write.fallback).not.toHaveBeenCalled()
+    expect(write.fulfill).toHaveBeenCalledWith(expect.objectContaining({ status: 200 }))
+
+    expect(policy.take(page as never)).toEqual([
+      { method: 'DELETE', url: 'http://localhost:3000/api/account', body: '{"id":1}' },
+    ])
+    expect(policy.take(page as never)).toEqual([])
+  })
+
+  it('should let writes through while logging in again', async () => {
+    const policy = new SafetyPolicy({ mode: 'dry-run' })
+    const context = createContext()
+    const page = {}
+    await policy.blockWrites(context as never)
+    const [handle] = context.handlers
+
+    const login = createRoute('POST', page, 'user=ada')
+    await policy.withWrites(page as never, () => handle(login))
+    expect(login.fallback).toHaveBeenCalled()
+
+    const after = createRoute('POST', page)
+    await handle(after)
+    expect(after.fulfill).toHaveBeenCalled()
+  })
+})
@@ -88,6 +88,23 @@ describe('StateManager', () => {
       expect(id1).not.toBe(id2)
     })
 
+    it('should use the route template instead of the pathname when set', () => {
+      const song1 = stateManager.computeStateId({
+        pathname: '/songs/1',
+        routeTemplate: '/songs/:id',
+        domFingerprint: 'abc123',
+        viewport: 'desktop',
+      })
+      const song2 = stateManager.computeStateId({
+        pathname: '/songs/2',
+        routeTemplate: '/songs/:id',
+        domFingerprint: 'abc123',
+        viewport: 'desktop',
+      })
+
+      expect(song1).toBe(song2)
+    })
+
     it('should include viewport in state identity', () => {
       const baseState: Partial<AppState> = {
         pathname: '/dashboard',
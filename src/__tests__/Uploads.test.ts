@@ -0,0 +1,63 @@
+/**
+ * Uploads Tests
+ *
+ * Tests for choosing upload fixtures and checking the app's reaction
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { chooseUploadFile, uploadFileName, verifyUpload, DEFAULT_UPLOAD_FILES } from '../core/Uploads.js'
+import type { Action } from '../core/types.js'
+
+describe('chooseUploadFile', () => {
+  const fixtures = {
+    'image/*': './fixtures/avatar.jpg',
+    '.csv': './fixtures/contacts.csv',
+    'application/pdf': './fixtures/invoice.pdf',
+  }
+
+  it('should pick a configured fixture by MIME type, wildcard or extension', () => {
+    expect(chooseUploadFile('image/png', fixtures)).toBe('./fixtures/avatar.jpg')
+    expect(chooseUploadFile('.jpg,.jpeg', fixtures)).toBe('./fixtures/avatar.jpg')
+    expect(chooseUploadFile('text/csv', fixtures)).toBe('./fixtures/contacts.csv')
+    expect(chooseUploadFile('.pdf', fixtures)).toBe('./fixtures/invoice.pdf')
+  })
+
+  it('should fall back to the catch-all fixture, then built-in files', () => {
+    expect(chooseUploadFile('.docx', { ...fixtures, '*': './fixtures/notes.txt' })).toBe('./fixtures/notes.txt')
+    expect(chooseUploadFile('image/*')).toBe(DEFAULT_UPLOAD_FILES.image)
+    expect(chooseUploadFile('application/pdf')).toBe(DEFAULT_UPLOAD_FILES.pdf)
+    expect(chooseUploadFile('.csv')).toBe(DEFAULT_UPLOAD_FILES.csv)
+    expect(chooseUploadFile('.docx')).toBe(DEFAULT_UPLOAD_FILES.text)
+    expect(chooseUploadFile(undefined)).toBe(DEFAULT_UPLOAD_FILES.image)
+  })
+
+  it('should name files by their basename', () => {
+    expect(uploadFileName('./fixtures/avatar.jpg')).toBe('avatar.jpg')
+    expect(uploadFileName(DEFAULT_UPLOAD_FILES.csv)).toBe('eva-upload.csv')
+  })
+})
+
+describe('verifyUpload', () => {
+  const upload: Action = { type: 'upload', selector: '#avatar', label: 'Profile photo', accept: 'image/*' }
+  const pageWith = (reaction: { nameShown: boolean; preview: boolean }) => ({
+    evaluate: vi.fn().mockResolvedValue(reaction),
+  })
+
+  it('should pass when the page shows the file or a preview', async () => {
+    const shown = await verifyUpload(pageWith({ nameShown: true, preview: false }) as never, upload, 'a.png', false)
+    const preview = await verifyUpload(pageWith({ nameShown: false, preview: true }) as never, upload, 'a.png', false)
+
+    expect(shown).toMatchObject({ passed: true, type: 'ui', actual: 'file name shown' })
+    expect(preview).toMatchObject({ passed: true, actual: 'preview shown' })
+  })
+
+  it('should fail when nothing reacted to the upload', async () => {
+    const page = pageWith({ nameShown: false, preview: false })
+
+    const result = await verifyUpload(page as never, upload, 'a.png', false)
+
+    expect(result.passed).toBe(false)
+    expect(result.message).toContain('"Profile photo"')
+    expect(page.evaluate).toHaveBeenCalledWith(expect.any(Function), 'a.png')
+  })
+})
@@ -0,0 +1,152 @@
+/**
+ * WorkerPool Tests
+ *
+ * Tests for concurrent task processing from a shared queue
+ */
+
+import { describe, it, expect } from 'vitest'
+import { WorkerPool } from '../core/WorkerPool.js'
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 1))
+
+describe('WorkerPool', () => {
+  describe('constructor', () => {
+    it('should clamp concurrency to at least 1', () => {
+      const pool = new WorkerPool<number>({ concurrency: 0, next: () => undefined })
+      expect(pool.size).toBe(1)
+    })
+
+    it('should floor fractional concurrency', () => {
+      const pool = new WorkerPool<number>({ concurrency: 3.7, next: () => undefined })
+      expect(pool.size).toBe(3)
+    })
+  })
+
+  describe('run', () => {
+    it('should process every queued task', async () => {
+      const queue = [1, 2, 3, 4, 5]
+      const processed: number[] = []
+
+      const pool = new WorkerPool<number>({
+        concurrency: 2,
+        next: () => queue.shift(),
+      })
+
+      await pool.run(async (task) => {
+        await tick()
+        processed.push(task)
+      })
+
+      expect(processed.sort()).toEqual([1, 2, 3, 4, 5])
+    })
+
+    it('should run tasks concurrently up to the pool size', async () => {
+      const queue = [1, 2, 3, 4, 5, 6]
+      let running = 0
+      let maxRunning = 0
+
+      const pool = new WorkerPool<number>({
+        concurrency: 3,
+        next: () => queue.shift(),
+      })
+
+      await pool.run(async () => {
+        running++
+        maxRunning = Math.max(maxRunning, running)
+        await tick()
+        running--
+      })
+
+      expect(maxRunning).toBe(3)
+    })
+
+    it('should pick up tasks enqueued by running workers', async () => {
+      const queue = [0]
+      const processed: number[] = []
+
+      const pool = new WorkerPool<number>({
+        concurrency: 4,
+        next: () => queue.shift(),
+      })
+
+      await pool.run(async (task) => {
+        await tick()
+        processed.push(task)
+        // Each task spawns two children until depth 3
+        if (task < 3) {
+          queue.push(task + 1, task + 1)
+        }
+      })
+
+      expect(processed).toHaveLength(15)
+    })
+
+    it('should stop taking tasks when shouldStop returns true', async () => {
+      const queue = [1, 2, 3, 4, 5]
+      const processed: number[] = []
+
+      const pool = new WorkerPool<number>({
+        concurrency: 1,
+        next: () => queue.shift(),
+        shouldStop: () => processed.length >= 2,
+      })
+
+      await pool.run(async (task) => {
+        processed.push(task)
+      })
+
+      expect(processed).toEqual([1, 2])
+      expect(queue).toEqual([3, 4, 5])
+    })
+
+    it('should pass worker ids to the handler', async () => {
+      const queue = [1, 2, 3, 4]
+      const workerIds = new Set<number>()
+
+      const pool = new WorkerPool<number>({
+        concurrency: 2,
+        next: () => queue.shift(),
+      })
+
+      await pool.run(async (_task, workerId) => {
+        workerIds.add(workerId)
+        await tick()
+      })
+
+      expect([...workerIds].sort()).toEqual([0, 1])
+    })
+
+    it('should stop taking tasks and wait for running ones when a task fails', async () => {
+      const queue = [1, 2, 3, 4, 5, 6]
+      const processed: number[] = []
+      let running = 0
+
+      const pool = new WorkerPool<number>({
+        concurrency: 3,
+        next: () => queue.shift(),
+      })
+
+      const run = pool.run(async (task) => {
+        running++
+        try {
+          if (task === 1) throw new Error('Login failed')
+          await tick()
+          await tick()
+          processed.push(task)
+        } finally {
+          running--
+        }
+      })
+
+      await expect(run).rejects.toThrow('Login failed')
+      expect(running).toBe(0)
+      expect(processed.sort()).toEqual([2, 3])
+      expect(queue).toEqual([4, 5, 6])
+    })
+
+    it('should resolve immediately with an empty queue', async () => {
+      const pool = new WorkerPool<number>({ concurrency: 3, next: () => undefined })
+      await expect(pool.run(async () => {})).resolves.toBeUndefined()
+    })
+  })
+})
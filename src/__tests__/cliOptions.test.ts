@@ -0,0 +1,38 @@
+/**
+ * CLI Options Tests
+ *
+ * Tests for turning command-line flags into exploration settings
+ */
+
+import { describe, it, expect } from 'vitest'
+import { explorationFlags } from '../cliOptions.js'
+
+describe('explorationFlags', () => {
+  it('should let --workers override the config file', () => {
+    const fileExploration = { concurrency: 2, maxDepth: 4 }
+
+    const exploration = { ...fileExploration, ...explorationFlags({ workers: '6' }, fileExploration) }
+
+    expect(exploration).toMatchObject({ concurrency: 6, maxDepth: 4 })
+  })
+
+  it('should fall back to the config file, then to one worker', () => {
+    expect(explorationFlags({}, { concurrency: 3 })).toMatchObject({ concurrency: 3 })
+    expect(explorationFlags({})).toMatchObject({ concurrency: 1 })
+  })
+
+  it('should let --strategy and --seed override the config file', () => {
+    const fileExploration = { strategy: 'dfs' as const, seed: 7 }
+
+    expect(explorationFlags({ strategy: 'random', seed: '42' }, fileExploration)).toMatchObject({
+      strategy: 'random',
+      seed: 42,
+    })
+    expect(explorationFlags({}, fileExploration)).toMatchObject({ strategy: 'dfs', seed: 7 })
+    expect(explorationFlags({})).toMatchObject({ strategy: 'bfs', seed: 0 })
+  })
+
+  it('should reject unknown strategies', () => {
+    expect(() => explorationFlags({ strategy: 'bsf' })).toThrow('Unknown strategy "bsf". Use bfs, dfs, random, novelty')
+  })
+})
@@ -90,6 +90,7 @@ describe('createConfig', () => {
     expect(config.validators?.console?.failOnError).toBe(false)
     expect(config.validators?.network?.enabled).toBe(true)
     expect(config.validators?.network?.maxResponseTime).toBe(5000)
+    expect(config.validators?.focus?.enabled).toBe(false)
   })
 
   it('should set default output options', () => {
@@ -241,6 +242,26 @@ describe('createConfig', () => {
 
     expect(config.setup).toHaveLength(2)
   })
+
+  it('should accept a setup storage state path', () => {
+    const config = createConfig({
+      baseUrl: 'http://localhost:3000',
+      setup: [{ goto: '/settings' }, { check: '#beta' }, { expect: { visible: ['#beta-badge'] } }],
+      setupStorageState: './setup-state.json',
+    })
+
+    expect(config.setup).toHaveLength(3)
+    expect(config.setupStorageState).toBe('./setup-state.json')
+  })
+
+  it('should keep the safety policy', () => {
+    const config = createConfig({
+      baseUrl: 'http://localhost:3000',
+      safety: { mode: 'dry-run', destructivePatterns: ['archive'] },
+    })
+
+    expect(config.safety).toEqual({ mode: 'dry-run', destructivePatterns: ['archive'] })
+  })
 })
 
 describe('Type exports', () => {
@@ -42,11 +42,16 @@ if (currentVersion < MIN_NODE_VERSION) {
 
 import { program } from 'commander'
 import chalk from 'chalk'
-import { readFileSync, existsSync, mkdirSync, writeFileSync, readdirSync } from 'fs'
+import { readFileSync, existsSync, mkdirSync, writeFileSync, readdirSync, statSync } from 'fs'
 import { resolve, dirname, isAbsolute, normalize } from 'path'
 import { fileURLToPath } from 'url'
 import { Explorer } from './core/Explorer.js'
-import type { ExplorerConfig, ExplorerEvent, ViewportName, Issue } from './core/types.js'
+import { CheckpointStore } from './core/Checkpoint.js'
+import { explorationFlags } from './cliOptions.js'
+import { findEngineSpecificIssues } from './core/BrowserMatrix.js'
+import { describeChange } from './core/AccessibilityTree.js'
+import { BROWSER_NAMES } from './core/types.js'
+import type { BrowserName, ExplorerConfig, ExplorerEvent, ViewportName, Issue, RouteTemplateConfig, SeedConfig, DialogConfig, SafetyConfig } from './core/types.js'
 
 const __dirname = dirname(fileURLToPath(import.meta.url))
 
@@ -263,6 +268,217 @@ const PRESETS: Record<string, Preset> = {
   },
 }
 
+// =============================================================================
+// Option Parsing
+// =============================================================================
+
+/**
+ * Parse --cookie options (name=value format, supports multiple)
+ */
+function parseCookieOptions(
+  option: unknown,
+  baseUrl: string
+): Array<{ name: string; value: string; url: string }> | undefined {
+  if (!option) return undefined
+
+  const cookieArray = Array.isArray(option) ? option : [option]
+  const cookies: Array<{ name: string; value: string; url: string }> = []
+  for (const cookieStr of cookieArray as string[]) {
+    const [name, ...valueParts] = cookieStr.split('=')
+    const value = valueParts.join('=') // Handle values with = in them
+    if (name && value) {
+      cookies.push({ name: name.trim(), value: value.trim(), url: baseUrl })
+    } else {
+      console.warn(chalk.yellow(`Warning: Invalid cookie format "${cookieStr}". Use: --cookie "name=value"`))
+    }
+  }
+  return cookies.length > 0 ? cookies : undefined
+}
+
+/**
+ * Parse --header options (Name: value format, supports multiple)
+ */
+function parseHeaderOptions(option: unknown): Record<string, string> | undefined {
+  if (!option) return undefined
+
+  const headerArray = Array.isArray(option) ? option : [option]
+  const headers: Record<string, string> = {}
+  for (const headerStr of headerArray as string[]) {
+    const [name, ...valueParts] = headerStr.split(':')
+    const value = valueParts.join(':').trim()
+    if (name && value) {
+      headers[name.trim()] = value
+    } else {
+      console.warn(chalk.yellow(`Warning: Invalid header format "${headerStr}". Use: --header "Authorization: Bearer token"`))
+    }
+  }
+  return Object.keys(headers).length > 0 ? headers : undefined
+}
+
+/**
+ * Merge --route-template and --samples-per-template into the config file's route templates
+ */
+function parseRouteTemplateOptions(
+  options: Record<string, unknown>,
+  fileRouteTemplates: RouteTemplateConfig = {}
+): RouteTemplateConfig {
+  const routeTemplates: RouteTemplateConfig = { ...fileRouteTemplates }
+
+  if (options.routeTemplate) {
+    const templates = Array.isArray(options.routeTemplate) ? options.routeTemplate : [options.routeTemplate]
+    routeTemplates.templates = [...(routeTemplates.templates || []), ...(templates as string[])]
+  }
+  if (options.samplesPerTemplate) {
+    const samples = (options.samplesPerTemplate as string).trim()
+    if (!/^\d+$/.test(samples) || parseInt(samples, 10) < 1) {
+      throw new Error(`Invalid --samples-per-template "${samples}". Use a whole number of 1 or more`)
+    }
+    routeTemplates.samplesPerTemplate = parseInt(samples, 10)
+  }
+
+  return routeTemplates
+}
+
+/**
+ * Merge --sitemap, --routes and --ignore-robots into the config file's seeds
+ */
+function parseSeedOptions(
+  options: Record<string, unknown>,
+  fileSeeds?: SeedConfig
+): SeedConfig | undefined {
+  if (!options.sitemap && !options.routes && !fileSeeds) return undefined
+
+  const seeds: SeedConfig = { ...fileSeeds }
+
+  if (options.sitemap) {
+    seeds.sitemap = typeof options.sitemap === 'string' ? options.sitemap : true
+  }
+  if (options.routes) {
+    const routesPath = resolve(options.routes as string)
+    if (existsSync(routesPath) && statSync(routesPath).isDirectory()) {
+      seeds.nextjs = routesPath
+    } else {
+      seeds.manifest = routesPath
+    }
+  }
+  if (options.ignoreRobots) {
+    seeds.respectRobots = false
+  }
+
+  return seeds
+}
+
+/**
+ * Parse a duration like "90", "90s", "10m" or "1h" (plain numbers are seconds) into milliseconds
+ */
+function parseDuration(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s|m|h)?$/i)
+  if (!match) {
+    throw new Error(`Invalid duration "${value}". Use e.g. 300, 300s, 9m or 1h`)
+  }
+
+  const units: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000 }
+  return Math.round(parseFloat(match[1]) * units[(match[2] || 's').toLowerCase()])
+}
+
+/**
+ * Parse --browsers option (e.g. "chromium,webkit") into browser engines
+ */
+function parseBrowserOptions(option: unknown, fileBrowsers?: BrowserName[]): BrowserName[] | undefined {
+  if (!option) return fileBrowsers
+
+  const browsers = (option as string).split(',').map((b) => b.trim().toLowerCase()).filter(Boolean)
+  for (const browser of browsers) {
+    if (!BROWSER_NAMES.includes(browser as BrowserName)) {
+      throw new Error(`Unknown browser "${browser}". Use ${BROWSER_NAMES.join(', ')}`)
+    }
+  }
+  return browsers as BrowserName[]
+}
+
+/**
+ * Parse --dialogs into a dialog config, merged over the config file's
+ */
+function parseDialogOptions(option: unknown, fileDialogs?: DialogConfig): DialogConfig | undefined {
+  if (!option) return fileDialogs
+
+  const policy = (option as string).trim().toLowerCase()
+  if (!['accept', 'dismiss', 'both'].includes(policy)) {
+    throw new Error(`Unknown dialog policy "${policy}". Use accept, dismiss or both`)
+  }
+  return { ...fileDialogs, policy: policy as DialogConfig['policy'] }
+}
+
+/**
+ * Parse --safety and --allow into a safety config, merged over the config file's
+ */
+function parseSafetyOptions(options: Record<string, unknown>, fileSafety?: SafetyConfig): SafetyConfig | undefined {
+  const safety: SafetyConfig = { ...fileSafety }
+
+  if (options.safety) {
+    const mode = (options.safety as string).trim().toLowerCase()
+    if (!['all', 'skip-destructive', 'allowlist', 'dry-run'].includes(mode)) {
+      throw new Error(`Unknown safety mode "${mode}". Use all, skip-destructive, allowlist or dry-run`)
+    }
+    safety.mode = mode as SafetyConfig['mode']
+  }
+  if (options.allow) {
+    safety.allow = options.allow as string[]
+  }
+
+  if (safety.mode === 'allowlist' && !safety.allow?.length) {
+    throw new Error('Safety mode "allowlist" needs patterns: use --allow or "safety.allow"')
+  }
+  return Object.keys(safety).length > 0 ? safety : undefined
+}
+
+/**
+ * Stop the explorer gracefully on Ctrl+C / SIGTERM so reports are still written.
+ * A second signal exits immediately. Returns a function that removes the handlers.
+ */
+function stopOnSignals(explorer: Explorer): () => void {
+  let received = false
+
+  const handler = (signal: NodeJS.Signals) => {
+    if (received) {
+      process.exit(130)
+    }
+    received = true
+    explorer.stop('signal', `Received ${signal}`)
+  }
+
+  process.on('SIGINT', handler)
+  process.on('SIGTERM', handler)
+
+  return () => {
+    process.off('SIGINT', handler)
+    process.off('SIGTERM', handler)
+  }
+}
+
+/**
+ * Run an exploration with the signal handlers installed, removing them
+ * however the run ends
+ */
+async function runStoppable<T>(explorer: Explorer, run: () => Promise<T>): Promise<T> {
+  const removeSignalHandlers = stopOnSignals(explorer)
+  try {
+    return await run()
+  } finally {
+    removeSignalHandlers()
+  }
+}
+
+/**
+ * Parse --format option into known report formats
+ */
+function parseOutputFormats(option: unknown): ('html' | 'json' | 'junit')[] {
+  return ((option as string) || 'html,json')
+    .split(',')
+    .map(f => f.trim().toLowerCase())
+    .filter(f => ['html', 'json', 'junit'].includes(f)) as ('html' | 'json' | 'junit')[]
+}
+
 // =============================================================================
 // Main Program
 // =============================================================================
@@ -283,7 +499,29 @@ program
   .option('--ci', 'CI mode - exit 1 on critical/serious issues')
   .option('--depth <n>', 'Override max depth')
   .option('--states <n>', 'Override max states')
-  .option('--viewports <list>', 'Override viewports (mobile,tablet,desktop)')
+  .option('--workers <n>', 'Number of parallel browser contexts (default: 1)')
+  .option('--strategy <name>', 'Exploration order: bfs, dfs, random, novelty (default: bfs)')
+  .option('--seed <n>', 'Seed for the random strategy (default: 0)')
+  .option('--data-seed <n>', 'Seed for {{gen.*}} test data (default: new each run)')
+  .option('--route-template <pattern...>', 'Route templates grouping similar URLs (e.g., "/songs/:id"), can be repeated')
+  .option('--samples-per-template <n>', 'Concrete URLs explored per route template (default: 3)')
+  .option('--sitemap [url]', 'Seed routes from sitemap.xml (default: the site\'s sitemap)')
+  .option('--routes <path>', 'Seed routes from a JSON route list or a Next.js project directory')
+  .option('--ignore-robots', 'Seed routes even if robots.txt disallows them')
+  .option('--max-time <duration>', 'Stop after this long and write a partial report (e.g., 9m, 300s)')
+  .option('--viewports <list>', 'Override viewports: mobile,tablet,desktop or Playwright device names (e.g., "iPhone 13,Pixel 7")')
+  .option('--browsers <list>', 'Browser engines to explore: chromium,firefox,webkit (default: chromium)')
+  .option('--keyboard', 'Keyboard-only exploration: reach actions with Tab/Shift+Tab, trigger them with Enter/Space/arrows')
+  .option('--scroll', 'Scroll long pages and scrollable containers to find controls below the fold and lazy-loaded content')
+  .option('--hover', 'Hover controls to find menus and tooltips that open on mouseover')
+  .option('--invalid-inputs', 'Submit forms with invalid values and check the errors are shown, announced and focused')
+  .option('--focus', 'Check focus handling of dialogs, and tab through each state looking for keyboard traps (slower)')
+  .option('--safety <mode>', 'Which actions run: all, skip-destructive, allowlist (with --allow) or dry-run (writes are stubbed)')
+  .option('--allow <pattern...>', 'Label or selector patterns of the actions allowlist mode performs, can be repeated')
+  .option('--dialogs <policy>', 'Answer confirm() and prompt() dialogs: dismiss (default), accept, or both (each as its own transition)')
+  .option('--scan-after-actions', 'Rescan the parts of the page each action changes for accessibility violations')
+  .option('--a11y-tree', 'Record each state\'s accessibility tree and what changes for screen readers after each action')
+  .option('--emulation <list>', 'Also validate under: dark,reduced-motion,forced-colors,locale:<locale>,timezone:<zone>')
   .option('--ignore <selectors>', 'CSS selectors to ignore (comma-separated)')
   .option('--timeout <ms>', 'Timeout for page loads and actions (default: 10000)')
   .option('--skip-network-idle', 'Skip waiting for network idle (use for Livewire/SPA apps with constant polling)')
@@ -413,6 +651,24 @@ program
   .option('-o, --output <dir>', 'Output directory', './eva-qa-reports')
   .action(listBaselines)
 
+// =============================================================================
+// Checkpoint & Resume
+// =============================================================================
+
+program
+  .command('resume <dir>')
+  .description('Resume an interrupted exploration from the checkpoint in its output directory')
+  .option('--cookie <cookie...>', 'Set cookies for authentication (can be repeated)')
+  .option('--header <header...>', 'Set headers for authentication (can be repeated)')
+  .option('-f, --format <formats>', 'Output formats: html,json,junit')
+  .option('--score', 'Show compliance score')
+  .option('--ci', 'CI mode')
+  .option('-q, --quiet', 'Minimal output')
+  .option('-v, --verbose', 'Detailed output')
+  .action(async (dir, options, command) => {
+    await runResume(dir, command.optsWithGlobals())
+  })
+
 // =============================================================================
 // Run Explorer
 // =============================================================================
@@ -475,45 +731,12 @@ async function runExplorer(
       ? parseInt(options.timeout as string, 10)
       : fileConfig.exploration?.timeout || 10000
 
-    // Parse cookie options (name=value format, supports multiple)
-    let cookies: Array<{ name: string; value: string; url: string }> | undefined
-    if (options.cookie) {
-      const cookieArray = Array.isArray(options.cookie) ? options.cookie : [options.cookie]
-      cookies = []
-      for (const cookieStr of cookieArray as string[]) {
-        const [name, ...valueParts] = cookieStr.split('=')
-        const value = valueParts.join('=') // Handle values with = in them
-        if (name && value) {
-          cookies.push({ name: name.trim(), value: value.trim(), url: baseUrl })
-        } else {
-          console.warn(chalk.yellow(`Warning: Invalid cookie format "${cookieStr}". Use: --cookie "name=value"`))
-        }
-      }
-      if (cookies.length === 0) cookies = undefined
-    }
-
-    // Parse header options (Name: value format, supports multiple)
-    let extraHTTPHeaders: Record<string, string> | undefined
-    if (options.header) {
-      const headerArray = Array.isArray(options.header) ? options.header : [options.header]
-      extraHTTPHeaders = {}
-      for (const headerStr of headerArray as string[]) {
-        const [name, ...valueParts] = headerStr.split(':')
-        const value = valueParts.join(':').trim()
-        if (name && value) {
-          extraHTTPHeaders[name.trim()] = value
-        } else {
-          console.warn(chalk.yellow(`Warning: Invalid header format "${headerStr}". Use: --header "Authorization: Bearer token"`))
-        }
-      }
-      if (Object.keys(extraHTTPHeaders).length === 0) extraHTTPHeaders = undefined
-    }
+    // Parse cookie and header options
+    const cookies = parseCookieOptions(options.cookie, baseUrl)
+    const extraHTTPHeaders = parseHeaderOptions(options.header)
 
     // Parse output formats
-    const outputFormats = ((options.format as string) || 'html,json')
-      .split(',')
-      .map(f => f.trim().toLowerCase())
-      .filter(f => ['html', 'json', 'junit'].includes(f)) as ('html' | 'json' | 'junit')[]
+    const outputFormats = parseOutputFormats(options.format)
 
     // Build config from preset + overrides
     const config: ExplorerConfig = {
@@ -530,11 +753,22 @@ async function runExplorer(
         maxActionsPerState: 50,
         timeout,
         viewports: options.viewports
-          ? (options.viewports as string).split(',') as ViewportName[]
+          ? (options.viewports as string).split(',').map((v) => v.trim())
           : preset.exploration.viewports,
         waitForNetworkIdle: !options.skipNetworkIdle,
         actionDelay: 100,
         ...fileConfig.exploration,
+        ...explorationFlags(options, fileConfig.exploration),
+        routeTemplates: parseRouteTemplateOptions(options, fileConfig.exploration?.routeTemplates),
+        seeds: parseSeedOptions(options, fileConfig.exploration?.seeds),
+        maxDuration: options.maxTime
+          ? parseDuration(options.maxTime as string)
+          : fileConfig.exploration?.maxDuration,
+        keyboard: options.keyboard ? true : fileConfig.exploration?.keyboard,
+        accessibilityTree: options.a11yTree ? true : fileConfig.exploration?.accessibilityTree,
+        scroll: options.scroll ? true : fileConfig.exploration?.scroll,
+        hover: options.hover ? true : fileConfig.exploration?.hover,
+        invalidInputs: options.invalidInputs ? true : fileConfig.exploration?.invalidInputs,
       },
 
       validators: {
@@ -545,6 +779,7 @@ async function runExplorer(
             ? (options.ignoreRules as string).split(',').map(r => r.trim())
             : fileConfig.validators?.accessibility?.ignoredRules || [],
           ...fileConfig.validators?.accessibility,
+          ...(options.scanAfterActions ? { afterActions: true } : {}),
         },
         responsive: {
           enabled: preset.validators.responsive,
@@ -571,6 +806,10 @@ async function runExplorer(
           timeout: 5000,
           ...fileConfig.validators?.brokenLinks,
         },
+        focus: {
+          ...fileConfig.validators?.focus,
+          enabled: !!options.focus || !!fileConfig.validators?.focus?.enabled,
+        },
       },
 
       // SEC-003: Use environment variables for Supabase credentials
@@ -585,11 +824,21 @@ async function runExplorer(
 
       actionSchemas: fileConfig.actionSchemas,
       testData: fileConfig.testData,
+      testDataSeed: options.dataSeed
+        ? parseInt(options.dataSeed as string, 10)
+        : fileConfig.testDataSeed,
+      uploads: fileConfig.uploads,
+      dialogs: parseDialogOptions(options.dialogs, fileConfig.dialogs),
+      safety: parseSafetyOptions(options, fileConfig.safety),
 
       ignore: options.ignore
         ? (options.ignore as string).split(',')
         : fileConfig.ignore || [],
 
+      setup: fileConfig.setup,
+      login: fileConfig.login,
+      setupStorageState: fileConfig.setupStorageState,
+
       output: {
         dir: outputDir,
         formats: ['html', 'json'],
@@ -600,6 +849,10 @@ async function runExplorer(
 
       headless: options.headless as boolean,
       browser: fileConfig.browser || 'chromium',
+      browsers: parseBrowserOptions(options.browsers, fileConfig.browsers),
+      emulation: options.emulation
+        ? (options.emulation as string).split(',').map((e) => e.trim()).filter(Boolean)
+        : fileConfig.emulation,
 
       // New: Cookie and header authentication
       cookies,
@@ -627,10 +880,10 @@ async function runExplorer(
     }
 
     const startTime = Date.now()
-    const result = await explorer.explore()
+    const result = await runStoppable(explorer, () => explorer.explore())
 
-    // Run zoom level testing if requested
-    if (options.zoom) {
+    // Run zoom level testing if requested (skipped when the run was cut short)
+    if (options.zoom && !result.summary.partial) {
       const zoomLevels = (options.zoom as string).split(',').map(z => parseInt(z.trim(), 10)).filter(z => z > 0)
       if (zoomLevels.length > 0 && !options.quiet) {
         console.log(chalk.yellow(`Testing zoom levels: ${zoomLevels.join('%, ')}%...`))
@@ -680,6 +933,94 @@ async function runExplorer(
   }
 }
 
+// =============================================================================
+// Resume Explorer
+// =============================================================================
+
+async function runResume(
+  dir: string,
+  options: Record<string, unknown>
+): Promise<void> {
+  try {
+    const cwd = process.cwd()
+
+    // SEC-002: Validate output path
+    const outputDir = validateOutputPath(dir, cwd)
+
+    const store = new CheckpointStore(outputDir)
+    if (!store.exists()) {
+      console.error(chalk.red('Error:'), `No checkpoint found in ${outputDir}`)
+      console.error(chalk.gray('Tip:'), 'Checkpoints are written to the output directory while an exploration runs.')
+      process.exit(1)
+    }
+
+    const checkpoint = store.load()
+
+    // SEC-003: Credentials are not stored in checkpoints - read them again
+    const supabaseUrl = process.env.SUPABASE_URL || process.env.EVA_SUPABASE_URL
+    const supabaseKey = process.env.SUPABASE_SERVICE_KEY || process.env.EVA_SUPABASE_KEY
+
+    const config: ExplorerConfig = {
+      ...checkpoint.config,
+      adapters: supabaseUrl && supabaseKey
+        ? { supabase: { url: supabaseUrl, serviceKey: supabaseKey } }
+        : undefined,
+      cookies: parseCookieOptions(options.cookie, checkpoint.config.baseUrl),
+      extraHTTPHeaders: parseHeaderOptions(options.header),
+      output: { ...checkpoint.config.output, dir: outputDir },
+    }
+
+    if (!options.quiet) {
+      console.log()
+      console.log(chalk.bold.cyan('EVA'), chalk.gray(`v${version}`), chalk.gray('- Resuming exploration'))
+      console.log(chalk.gray('─'.repeat(50)))
+      console.log(chalk.white('URL:'), config.baseUrl)
+      console.log(chalk.white('Checkpoint:'), new Date(checkpoint.savedAt).toLocaleString())
+      console.log(chalk.white('Progress:'), `${checkpoint.states.length} states explored, ${checkpoint.queue.length} queued`)
+      console.log(chalk.gray('─'.repeat(50)))
+      console.log()
+    }
+
+    const explorer = new Explorer(config)
+
+    if (!options.quiet) {
+      explorer.on(createProgressHandler(options.verbose as boolean))
+      console.log(chalk.yellow('Exploring...'))
+      console.log()
+    }
+
+    const result = await runStoppable(explorer, () => explorer.resume(checkpoint))
+
+    const duration = (result.summary.duration / 1000).toFixed(1)
+    const score = calculateComplianceScore(result)
+
+    printResults(result, duration, options.quiet as boolean, options.score as boolean, score)
+    writeReports(result, outputDir, parseOutputFormats(options.format), options.quiet as boolean, score)
+
+    // CI mode exit
+    if (options.ci) {
+      const hasCritical = result.issues.some(
+        (i) => i.severity === 'critical' || i.severity === 'serious'
+      )
+      if (hasCritical) {
+        console.log(chalk.red('\nCI: Failing due to critical/serious issues'))
+        process.exit(1)
+      }
+    }
+  } catch (error) {
+    const friendly = getFriendlyError(error as Error)
+    console.error()
+    console.error(chalk.red('Error:'), friendly.message)
+    if (friendly.tip) {
+      console.error(chalk.gray('Tip:'), friendly.tip)
+    }
+    if (options.verbose) {
+      console.error(chalk.gray((error as Error).stack))
+    }
+    process.exit(1)
+  }
+}
+
 // =============================================================================
 // Compliance Score Calculation
 // =============================================================================
@@ -788,6 +1129,7 @@ function printResults(
         duration: parseFloat(duration),
         score: score.overall,
         grade: score.grade,
+        partial: result.summary.partial?.reason,
       })
     )
     return
@@ -795,7 +1137,12 @@ function printResults(
 
   console.log()
   console.log(chalk.gray('─'.repeat(50)))
-  console.log(chalk.bold.green('✓ Exploration Complete'))
+  if (result.summary.partial) {
+    console.log(chalk.bold.yellow('⚠ Exploration Stopped Early'), chalk.gray(`- ${result.summary.partial.message}`))
+    console.log(chalk.gray('  Results are partial.'))
+  } else {
+    console.log(chalk.bold.green('✓ Exploration Complete'))
+  }
   console.log(chalk.gray('─'.repeat(50)))
   console.log()
 
@@ -838,6 +1185,12 @@ function printResults(
     if (serious > 0) console.log(chalk.yellow(`  ${serious} serious`))
     if (moderate > 0) console.log(chalk.blue(`  ${moderate} moderate`))
     if (minor > 0) console.log(chalk.gray(`  ${minor} minor`))
+
+    // Issues that only show under an emulated user preference
+    for (const profile of result.summary.emulation || []) {
+      const count = result.issues.filter((i) => i.emulation === profile).length
+      if (count > 0) console.log(chalk.gray(`  (${count} only under ${profile})`))
+    }
   }
 
   // Verifications (only if adapters were used)
@@ -850,6 +1203,57 @@ function printResults(
     }
   }
 
+  // Issues only one browser engine showed
+  const engineSpecific = findEngineSpecificIssues(result)
+  if (engineSpecific.length > 0) {
+    console.log()
+    console.log(chalk.bold('Engine-specific issues:'))
+    for (const browser of result.summary.browsers || []) {
+      const count = engineSpecific.filter((e) => e.browser === browser).length
+      if (count > 0) console.log(chalk.yellow(`  ${count} only in ${browser}`))
+    }
+  }
+
+  // Seeded routes (sitemap, manifest) the crawl never got to
+  const unreachedRoutes = result.summary.coverage.unreachedRoutes || []
+  if (unreachedRoutes.length > 0) {
+    console.log()
+    console.log(chalk.bold('Coverage gaps:'), chalk.yellow(`${unreachedRoutes.length} seeded route${unreachedRoutes.length === 1 ? '' : 's'} never reached`))
+    for (const route of unreachedRoutes.slice(0, 5)) {
+      console.log(chalk.gray(`  ${route}`))
+    }
+    if (unreachedRoutes.length > 5) {
+      console.log(chalk.gray(`  + ${unreachedRoutes.length - 5} more`))
+    }
+  }
+
+  // URLs left out because their route template was already sampled
+  const skippedTemplates = Object.entries(result.summary.coverage.skippedByTemplate || {})
+  if (skippedTemplates.length > 0) {
+    console.log()
+    console.log(chalk.bold('Skipped by route template:'))
+    for (const [template, urls] of skippedTemplates) {
+      console.log(chalk.gray(`  ${template}: ${urls.length} URL${urls.length === 1 ? '' : 's'} not explored`))
+    }
+  }
+
+  // Actions the safety policy left out, and writes a dry run stubbed
+  const skippedBySafety = Object.values(result.summary.coverage.skippedBySafety || {}).flat()
+  const stubbed = Array.from(result.graph.states.values())
+    .flatMap((node) => node.transitions)
+    .reduce((sum, transition) => sum + (transition.stubbedRequests?.length || 0), 0)
+  if (skippedBySafety.length > 0 || stubbed > 0) {
+    console.log()
+    console.log(chalk.bold('Safety:'))
+    if (skippedBySafety.length > 0) {
+      const labels = [...new Set(skippedBySafety)]
+      console.log(chalk.gray(`  ${labels.length} action${labels.length === 1 ? '' : 's'} not performed: ${labels.slice(0, 5).join(', ')}${labels.length > 5 ? ', ...' : ''}`))
+    }
+    if (stubbed > 0) {
+      console.log(chalk.gray(`  ${stubbed} write request${stubbed === 1 ? '' : 's'} stubbed (dry run)`))
+    }
+  }
+
   console.log()
 }
 
@@ -879,12 +1283,22 @@ function writeReports(
             summary: score.summary,
           },
           issues: result.issues,
+          engineSpecificIssues: findEngineSpecificIssues(result),
+          screenReaderChanges: getScreenReaderChanges(result).map(({ transition, lines }) => ({
+            fromState: transition.fromState,
+            toState: transition.toState,
+            action: transition.action.label,
+            viewport: transition.viewport,
+            changes: lines,
+            total: transition.accessibilityDiff?.total,
+          })),
           verifications: result.verifications,
           states: Array.from(result.graph.states.values()).map((node) => ({
             id: node.state.id,
             url: node.state.url,
             title: node.state.title,
             viewport: node.state.viewport,
+            browser: node.state.browser,
             issueCount: node.issues.length,
           })),
         },
@@ -946,7 +1360,8 @@ function generateJunitReport(
   let xml = `<?xml version="1.0" encoding="UTF-8"?>
 <testsuites name="EVA UI Testing" tests="${totalTests}" failures="${failures}" errors="${errors}" time="${(summary.duration / 1000).toFixed(3)}" timestamp="${timestamp}">
   <!-- Compliance Score: ${score.overall}% (${score.grade}) -->
-`
+${summary.partial ? `  <!-- Partial results: ${escapeXml(summary.partial.message)} -->
+` : ''}`
 
   // Add a test suite for each issue type
   for (const [type, typeIssues] of Object.entries(issuesByType)) {
@@ -1054,6 +1469,11 @@ function createProgressHandler(verbose: boolean): (event: ExplorerEvent) => void
       case 'warning':
         console.log(chalk.yellow('⚠'), chalk.gray(event.message))
         break
+
+      case 'stopping':
+        process.stdout.write('\r' + ' '.repeat(60) + '\r')
+        console.log(chalk.yellow('⚠'), `${event.message} - finishing up and writing a partial report...`)
+        break
     }
   }
 }
@@ -1104,6 +1524,16 @@ const USER_IMPACT_DESCRIPTIONS: Record<string, string> = {
   'focus-order-semantics': 'Keyboard users may encounter a confusing tab order.',
   'focusable-disabled': 'Keyboard users may try to interact with disabled elements.',
   'tabindex': 'Keyboard users may encounter unexpected navigation order.',
+  'keyboard-unreachable': 'Keyboard and switch users can\'t get to this control at all.',
+  'keyboard-activation': 'Keyboard users can reach this control but nothing happens when they press it.',
+  'keyboard-trap': 'Keyboard users get stuck and can\'t reach the rest of the page.',
+  'unannounced-change': 'Screen reader users won\'t know the page changed after their action.',
+  'control-role-changed': 'Screen reader users hear a different kind of control than the one they used.',
+  'control-name-lost': 'Screen reader users won\'t know what this control does any more.',
+  'modal-focus-not-moved': 'Screen reader users may not notice the dialog opened.',
+  'modal-focus-not-trapped': 'Keyboard users can tab behind the dialog and lose their place.',
+  'modal-escape': 'Keyboard users have to hunt for a close button to dismiss the dialog.',
+  'modal-focus-not-returned': 'Keyboard users lose their place on the page after closing the dialog.',
 
   // Accessibility - Tables
   'td-headers-attr': 'Screen reader users won\'t understand how table data relates to headers.',
@@ -1122,6 +1552,15 @@ const USER_IMPACT_DESCRIPTIONS: Record<string, string> = {
   'console-error': 'Users may experience broken functionality or see error messages.',
   'network-error': 'Users may see missing content or broken features.',
   'slow-response': 'Users may experience frustrating delays.',
+
+  // Functional
+  'unexpected-alert': 'Users are interrupted by a browser alert they have to dismiss before continuing.',
+  'invalid-input-no-error': 'Users who make a mistake get no feedback and don\'t know why the form did nothing.',
+  'invalid-input-persisted': 'Invalid data is saved, so users and the app have to deal with broken records.',
+
+  // Form errors
+  'form-error-not-associated': 'Screen reader users aren\'t told which field the error is about.',
+  'form-error-focus': 'Keyboard and screen reader users have to search the form for what went wrong.',
 }
 
 /**
@@ -1236,6 +1675,9 @@ function generateHtmlReport(
     issuesByType[issue.type].push(issue)
   }
 
+  // Tag issues with their engine when several engines were explored
+  const multiBrowser = (summary.browsers?.length || 0) > 1
+
   // Determine score color class
   const scoreColorClass = score.overall >= 90 ? 'success' : score.overall >= 70 ? 'warning' : 'danger'
 
@@ -1343,6 +1785,7 @@ function generateHtmlReport(
     .issue-elements { font-family: monospace; font-size: 0.75rem; color: var(--text-muted); margin-top: 0.5rem; }
     .issue-elements code { background: var(--bg); padding: 0.125rem 0.375rem; border-radius: 3px; }
     .empty { text-align: center; padding: 3rem; color: var(--success); }
+    .partial { background: #f59e0b22; border: 1px solid var(--warning); border-radius: 8px; padding: 0.75rem 1rem; margin-bottom: 1.5rem; color: var(--warning); }
     a { color: var(--primary); text-decoration: none; }
     a:hover { text-decoration: underline; }
     .quick-wins {
@@ -1391,6 +1834,8 @@ function generateHtmlReport(
     <h1>EVA Report</h1>
     <p class="meta">Generated ${new Date().toLocaleString()}</p>
 
+    ${summary.partial ? `<div class="partial">⚠ Partial results - the exploration stopped early: ${escapeHtml(summary.partial.message)}</div>` : ''}
+
     <div class="score-card">
       <div class="score-circle ${scoreColorClass}">
         <div class="score-value">${score.overall}%</div>
@@ -1443,6 +1888,9 @@ function generateHtmlReport(
             <div class="issue-header">
               <span class="issue-rule">${escapeHtml(issue.rule)}</span>
               <span class="badge ${escapeHtml(issue.severity)}">${escapeHtml(issue.severity)}</span>
+              ${multiBrowser && issue.browser ? `<span class="badge minor">${escapeHtml(issue.browser)}</span>` : ''}
+              ${issue.emulation ? `<span class="badge minor">${escapeHtml(issue.emulation)}</span>` : ''}
+              ${issue.transition ? `<span class="badge minor">after ${escapeHtml(issue.transition.action)}</span>` : ''}
             </div>
             <div class="issue-desc">${escapeHtml(issue.description)}</div>
             ${userImpact ? `<div class="issue-impact">${escapeHtml(userImpact)}</div>` : ''}
@@ -1465,11 +1913,152 @@ function generateHtmlReport(
     `
       )
       .join('')}
+
+    ${generateEngineSpecificSection(result)}
+
+    ${generateScreenReaderSection(result)}
+
+    ${generateCoverageGapsSection(summary)}
+
+    ${generateSkippedRoutesSection(summary)}
   </div>
 </body>
 </html>`
 }
 
+/**
+ * List issues that only one browser engine showed on pages all engines checked
+ */
+function generateEngineSpecificSection(result: import('./core/types.js').ExplorationResult): string {
+  const engineSpecific = findEngineSpecificIssues(result)
+  if (engineSpecific.length === 0) return ''
+
+  return `
+      <h2>Engine-Specific Issues (${engineSpecific.length})</h2>
+      <div class="issues">
+        ${engineSpecific
+          .slice(0, 50)
+          .map(
+            ({ browser, comparedWith, url, issue }) => `
+          <div class="issue ${escapeHtml(issue.severity)}">
+            <div class="issue-header">
+              <span class="issue-rule">${escapeHtml(issue.rule)}</span>
+              <span class="badge ${escapeHtml(issue.severity)}">only in ${escapeHtml(browser)}</span>
+            </div>
+            <div class="issue-desc">${escapeHtml(issue.description)}</div>
+            <div class="issue-desc">${escapeHtml(url)}${issue.viewport ? ` (${escapeHtml(issue.viewport)})` : ''} - not found in ${escapeHtml(comparedWith.join(', '))}</div>
+          </div>
+        `
+          )
+          .join('')}
+        ${engineSpecific.length > 50 ? `<p style="color: var(--text-muted); text-align: center;">+ ${engineSpecific.length - 50} more</p>` : ''}
+      </div>
+    `
+}
+
+/**
+ * Transitions that changed what a screen reader perceives, with their changes as text
+ */
+function getScreenReaderChanges(
+  result: import('./core/types.js').ExplorationResult
+): Array<{ transition: import('./core/types.js').StateTransition; lines: string[] }> {
+  const changes: Array<{ transition: import('./core/types.js').StateTransition; lines: string[] }> = []
+  for (const node of result.graph.states.values()) {
+    for (const transition of node.transitions) {
+      if (transition.accessibilityDiff?.changes.length) {
+        changes.push({ transition, lines: transition.accessibilityDiff.changes.map(describeChange) })
+      }
+    }
+  }
+  return changes
+}
+
+/**
+ * Show what each action changed for a screen-reader user
+ */
+function generateScreenReaderSection(result: import('./core/types.js').ExplorationResult): string {
+  const changes = getScreenReaderChanges(result)
+  if (changes.length === 0) return ''
+
+  return `
+      <h2>Screen Reader Changes (${changes.length})</h2>
+      <div class="issues">
+        ${changes
+          .slice(0, 50)
+          .map(
+            ({ transition, lines }) => `
+          <div class="issue minor">
+            <div class="issue-header">
+              <span class="issue-rule">${escapeHtml(transition.action.label)}</span>
+              <span class="badge minor">${escapeHtml(transition.viewport)}</span>
+            </div>
+            <div class="issue-desc">${escapeHtml(transition.fromState)} → ${escapeHtml(transition.toState)}</div>
+            <div class="issue-elements">${lines
+              .slice(0, 20)
+              .map((line) => `<code>${escapeHtml(line)}</code>`)
+              .join('<br>')}${(transition.accessibilityDiff?.total || 0) > 20 ? `<br>+ ${(transition.accessibilityDiff?.total || 0) - 20} more` : ''}</div>
+          </div>
+        `
+          )
+          .join('')}
+        ${changes.length > 50 ? `<p style="color: var(--text-muted); text-align: center;">+ ${changes.length - 50} more</p>` : ''}
+      </div>
+    `
+}
+
+/**
+ * List seeded routes the crawl never reached
+ */
+function generateCoverageGapsSection(summary: import('./core/types.js').ExplorationSummary): string {
+  const unreached = summary.coverage.unreachedRoutes || []
+  if (unreached.length === 0) return ''
+
+  return `
+      <h2>Coverage Gaps (${unreached.length})</h2>
+      <div class="issues">
+        <div class="issue moderate">
+          <div class="issue-desc">Routes from the sitemap or route manifest that the crawl never reached.</div>
+          <div class="issue-elements">${unreached
+            .slice(0, 50)
+            .map((route) => `<code>${escapeHtml(route)}</code>`)
+            .join(' ')}</div>
+          ${unreached.length > 50 ? `<div class="issue-desc">+ ${unreached.length - 50} more</div>` : ''}
+        </div>
+      </div>
+    `
+}
+
+/**
+ * List the concrete URLs that route-template sampling left unexplored
+ */
+function generateSkippedRoutesSection(summary: import('./core/types.js').ExplorationSummary): string {
+  const skipped = Object.entries(summary.coverage.skippedByTemplate || {})
+  if (skipped.length === 0) return ''
+
+  return `
+      <h2>Skipped by Route Template (${skipped.reduce((sum, [, urls]) => sum + urls.length, 0)})</h2>
+      <div class="issues">
+        ${skipped
+          .map(
+            ([template, urls]) => `
+          <div class="issue minor">
+            <div class="issue-header">
+              <span class="issue-rule">${escapeHtml(template)}</span>
+              <span class="badge minor">${urls.length} skipped</span>
+            </div>
+            <div class="issue-elements">${urls
+              .slice(0, 10)
+              .map((url) => `<code>${escapeHtml(url)}</code>`)
+              .join(' ')}</div>
+            ${urls.length > 10 ? `<div class="issue-desc">+ ${urls.length - 10} more</div>` : ''}
+          </div>
+        `
+          )
+          .join('')}
+      </div>
+    `
+}
+
 function escapeHtml(str: string): string {
   return str
     .replace(/&/g, '&amp;')
@@ -2179,16 +2768,36 @@ async function runExplorerAndGetResult(
         viewports: preset.exploration.viewports,
         waitForNetworkIdle: !options.skipNetworkIdle,
         actionDelay: 100,
+        ...explorationFlags(options),
+        routeTemplates: parseRouteTemplateOptions(options),
+        seeds: parseSeedOptions(options),
+        maxDuration: options.maxTime ? parseDuration(options.maxTime as string) : undefined,
+        keyboard: options.keyboard ? true : undefined,
+        accessibilityTree: options.a11yTree ? true : undefined,
+        scroll: options.scroll ? true : undefined,
+        hover: options.hover ? true : undefined,
+        invalidInputs: options.invalidInputs ? true : undefined,
       },
       validators: {
-        accessibility: { enabled: preset.validators.accessibility, rules: ['wcag21aa'] },
+        accessibility: {
+          enabled: preset.validators.accessibility,
+          rules: ['wcag21aa'],
+          afterActions: options.scanAfterActions ? true : undefined,
+        },
         responsive: { enabled: preset.validators.responsive, checkOverflow: true, checkTouchTargets: true, minTouchTarget: 44 },
         console: { enabled: preset.validators.console, failOnError: false },
         network: { enabled: preset.validators.network, maxResponseTime: 5000 },
+        focus: { enabled: !!options.focus },
       },
       output: { dir: outputDir, formats: ['json'], screenshots: false },
       headless: true,
       browser: 'chromium',
+      browsers: parseBrowserOptions(options.browsers),
+      emulation: options.emulation
+        ? (options.emulation as string).split(',').map((e) => e.trim()).filter(Boolean)
+        : undefined,
+      dialogs: parseDialogOptions(options.dialogs),
+      safety: parseSafetyOptions(options),
       cookies,
       extraHTTPHeaders,
     }
@@ -0,0 +1,34 @@
+/**
+ * CLI Options - Turns command-line flags into exploration settings
+ *
+ * Flags take precedence over the config file, which takes precedence over
+ * the defaults.
+ */
+
+import { isStrategyName, STRATEGY_NAMES } from './core/ExplorationStrategy.js'
+import type { ExplorerConfig } from './core/types.js'
+
+type ExplorationOptions = NonNullable<ExplorerConfig['exploration']>
+
+/**
+ * Exploration settings for --workers, --strategy and --seed, falling back to the config file's
+ * exploration settings. Spread after the config file's settings.
+ */
+export function explorationFlags(
+  options: Record<string, unknown>,
+  fileExploration: ExplorationOptions = {}
+): Pick<ExplorationOptions, 'concurrency' | 'strategy' | 'seed'> {
+  if (options.strategy !== undefined && !isStrategyName(options.strategy as string)) {
+    throw new Error(`Unknown strategy "${options.strategy}". Use ${STRATEGY_NAMES.join(', ')}`)
+  }
+
+  return {
+    concurrency: options.workers
+      ? parseInt(options.workers as string, 10)
+      : fileExploration.concurrency || 1,
+    strategy: (options.strategy as ExplorationOptions['strategy']) || fileExploration.strategy || 'bfs',
+    seed: options.seed
+      ? parseInt(options.seed as string, 10)
+      : fileExploration.seed || 0,
+  }
+}
@@ -0,0 +1,441 @@
+/**
+ * AccessibilityTree - What a screen reader perceives, per state and per transition
+ *
+ * Each state's tree comes from Playwright's aria snapshot of the page, parsed
+ * into nested nodes (role, name, states). Diffing the trees on either side of
+ * a transition shows what changed for a screen-reader user, and flags:
+ * - content that changed in place without being announced (no live region,
+ *   dialog or control state change)
+ * - controls whose role changed or that lost their name
+ */
+
+import type { Page } from 'playwright'
+import type {
+  AccessibilityChange,
+  AccessibilityNode,
+  AccessibilityTreeDiff,
+  Action,
+  Issue,
+} from './types.js'
+
+/** Roles whose changes screen readers announce by themselves */
+const ANNOUNCED_ROLES = ['alert', 'status', 'log', 'marquee', 'timer', 'alertdialog', 'dialog']
+
+/** States announced on the control that changed them */
+const ANNOUNCED_STATES = ['checked', 'expanded', 'pressed', 'selected']
+
+/** Roles of controls users operate */
+const CONTROL_ROLES = [
+  'button',
+  'link',
+  'checkbox',
+  'radio',
+  'switch',
+  'textbox',
+  'searchbox',
+  'combobox',
+  'slider',
+  'spinbutton',
+  'tab',
+  'menuitem',
+  'menuitemcheckbox',
+  'menuitemradio',
+  'option',
+  'treeitem',
+]
+
+/** Roles whose inline value is the control's value rather than a text child */
+const VALUE_ROLES = ['textbox', 'searchbox', 'combobox', 'spinbutton', 'slider']
+
+/** Above this many (before x after) changed nodes, the diff skips aligning them */
+const MAX_ALIGNMENT = 1_000_000
+
+/** A node with where it sits in the tree */
+interface FlatNode {
+  depth: number
+  path: string
+  node: Omit<AccessibilityNode, 'children'>
+  key: string
+}
+
+/**
+ * Capture the page's accessibility tree (null if the snapshot fails)
+ */
+export async function captureAccessibilityTree(page: Page, timeout = 5000): Promise<AccessibilityNode | null> {
+  try {
+    return parseAriaSnapshot(await page.locator('body').ariaSnapshot({ timeout }))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Parse a Playwright aria snapshot (YAML) into a tree under a `document` root
+ */
+export function parseAriaSnapshot(snapshot: string): AccessibilityNode {
+  const root: AccessibilityNode = { role: 'document', children: [] }
+  const stack: Array<{ indent: number; node: AccessibilityNode }> = [{ indent: -1, node: root }]
+
+  for (const line of snapshot.split('\n')) {
+    const match = line.match(/^(\s*)- (.*)$/)
+    if (!match) continue
+
+    const indent = match[1].length
+    while (stack.length > 1 && stack[stack.length - 1].indent >= indent) {
+      stack.pop()
+    }
+    const parent = stack[stack.length - 1].node
+
+    const { key, value } = splitEntry(match[2])
+
+    // Properties such as `/url: /songs` belong to the parent node
+    if (key.startsWith('/')) {
+      parent.attributes = { ...parent.attributes, [key.slice(1)]: value ?? '' }
+      continue
+    }
+
+    const node = parseNode(key)
+    if (value !== undefined && value !== '') {
+      if (node.role === 'text') {
+        node.name = value
+      } else if (VALUE_ROLES.includes(node.role)) {
+        node.attributes = { ...node.attributes, value }
+      } else {
+        node.children = [{ role: 'text', name: value }]
+      }
+    }
+
+    parent.children = [...(parent.children || []), node]
+    stack.push({ indent, node })
+  }
+
+  return root
+}
+
+/**
+ * One-line description of a node, in aria snapshot style: `button "Save" [disabled]`
+ */
+export function describeNode(node: Omit<AccessibilityNode, 'children'>): string {
+  if (node.role === 'text') return `text: ${node.name || ''}`
+
+  const attributes = Object.entries(node.attributes || {})
+    .map(([key, value]) => (value === 'true' ? ` [${key}]` : ` [${key}=${value}]`))
+    .join('')
+  return `${node.role}${node.name ? ` ${JSON.stringify(node.name)}` : ''}${attributes}`
+}
+
+/**
+ * Diff two accessibility trees. Nodes are compared in document order; a node
+ * removed and another added at the same depth with the same role (or name) is
+ * reported as one changed node.
+ */
+export function diffAccessibilityTrees(
+  before: AccessibilityNode,
+  after: AccessibilityNode,
+  maxChanges = 100
+): AccessibilityTreeDiff {
+  const a = flatten(before)
+  const b = flatten(after)
+
+  // Skip the unchanged start and end
+  let start = 0
+  while (start < a.length && start < b.length && a[start].key === b[start].key) start++
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1].key === b[endB - 1].key) {
+    endA--
+    endB--
+  }
+
+  const changes: AccessibilityChange[] = []
+  for (const hunk of alignHunks(a.slice(start, endA), b.slice(start, endB))) {
+    changes.push(...pairHunk(hunk.removed, hunk.added))
+  }
+
+  return { changes: changes.slice(0, maxChanges), total: changes.length }
+}
+
+/**
+ * Screen-reader issues caused by a transition
+ */
+export function findAccessibilityDiffIssues(
+  diff: AccessibilityTreeDiff,
+  action: Action,
+  options: { viewport: string; navigated: boolean }
+): Issue[] {
+  const issues: Issue[] = []
+  const details = { action: action.label, changes: diff.changes.slice(0, 10).map(describeChange) }
+
+  // Control role or name changes
+  for (const change of diff.changes) {
+    if (change.kind !== 'changed' || !change.before || !change.after) continue
+    if (!CONTROL_ROLES.includes(change.before.role)) continue
+    const control = change.path ? `${change.path} > ${describeNode(change.before)}` : describeNode(change.before)
+
+    if (change.before.role !== change.after.role) {
+      issues.push({
+        type: 'accessibility',
+        severity: 'moderate',
+        rule: 'control-role-changed',
+        description: `${describeNode(change.before)} became ${describeNode(change.after)} after "${action.label}"`,
+        elements: [control],
+        helpUrl: 'https://www.w3.org/WAI/WCAG21/Understanding/name-role-value.html',
+        viewport: options.viewport,
+        details,
+      })
+    } else if (change.before.name && !change.after.name) {
+      issues.push({
+        type: 'accessibility',
+        severity: 'serious',
+        rule: 'control-name-lost',
+        description: `${describeNode(change.before)} lost its accessible name after "${action.label}"`,
+        elements: [control],
+        helpUrl: 'https://www.w3.org/WAI/WCAG21/Understanding/name-role-value.html',
+        viewport: options.viewport,
+        details,
+      })
+    }
+  }
+
+  // Content changed in place with nothing to tell a screen reader about it.
+  // Typing changes the field the user is in, and a new page is announced on load.
+  if (action.type === 'fill' || options.navigated) return issues
+
+  // Control name changes are checked above
+  const contentChanged = diff.changes.some(
+    (change) =>
+      change.kind === 'added' ||
+      (change.kind === 'changed' &&
+        change.before?.name !== change.after?.name &&
+        !CONTROL_ROLES.includes(change.before?.role || ''))
+  )
+  const announced = diff.changes.some((change) => {
+    const roles = [change.before?.role, change.after?.role, ...change.path.split(' > ').map((p) => p.split(' ')[0])]
+    if (roles.some((role) => role && ANNOUNCED_ROLES.includes(role))) return true
+    return ANNOUNCED_STATES.some(
+      (state) => change.kind === 'changed' && change.before?.attributes?.[state] !== change.after?.attributes?.[state]
+    )
+  })
+
+  if (contentChanged && !announced) {
+    issues.push({
+      type: 'accessibility',
+      severity: 'moderate',
+      rule: 'unannounced-change',
+      description: `"${action.label}" changes the page without announcing it to screen readers`,
+      elements: [action.selector],
+      helpUrl: 'https://www.w3.org/WAI/WCAG21/Understanding/status-messages.html',
+      viewport: options.viewport,
+      details,
+    })
+  }
+
+  return issues
+}
+
+/**
+ * One-line description of a change: `+ main > button "Save"`
+ */
+export function describeChange(change: AccessibilityChange): string {
+  const where = change.path ? `${change.path} > ` : ''
+  switch (change.kind) {
+    case 'added':
+      return `+ ${where}${describeNode(change.after!)}`
+    case 'removed':
+      return `- ${where}${describeNode(change.before!)}`
+    default:
+      return `~ ${where}${describeNode(change.before!)} -> ${describeNode(change.after!)}`
+  }
+}
+
+/**
+ * Split a snapshot entry into its key and inline value, unquoting YAML strings
+ */
+function splitEntry(entry: string): { key: string; value?: string } {
+  let key: string
+  let rest: string
+
+  if (entry.startsWith("'") || entry.startsWith('"')) {
+    const quoted = readQuoted(entry)
+    key = quoted.text
+    rest = entry.slice(quoted.length)
+  } else {
+    // The first `: ` outside a quoted name
+    let inName = false
+    let split = -1
+    for (let i = 0; i < entry.length; i++) {
+      if (entry[i] === '\\') {
+        i++
+      } else if (entry[i] === '"') {
+        inName = !inName
+      } else if (entry[i] === ':' && !inName && (i === entry.length - 1 || entry[i + 1] === ' ')) {
+        split = i
+        break
+      }
+    }
+    key = split === -1 ? entry : entry.slice(0, split)
+    rest = split === -1 ? '' : entry.slice(split)
+  }
+
+  if (!rest.startsWith(':')) return { key: key.trim() }
+
+  let value = rest.slice(1).trim()
+  if (value.startsWith("'") || value.startsWith('"')) {
+    value = readQuoted(value).text
+  }
+  return { key: key.trim(), value }
+}
+
+/**
+ * Read a YAML single- or double-quoted string from the start of text
+ */
+function readQuoted(text: string): { text: string; length: number } {
+  const quote = text[0]
+  let result = ''
+  let i = 1
+  while (i < text.length) {
+    const char = text[i]
+    if (quote === "'" && char === "'") {
+      if (text[i + 1] === "'") {
+        result += "'"
+        i += 2
+        continue
+      }
+      return { text: result, length: i + 1 }
+    }
+    if (quote === '"' && char === '\\') {
+      const next = text[i + 1]
+      result += next === 'n' ? '\n' : next === 't' ? '\t' : next
+      i += 2
+      continue
+    }
+    if (quote === '"' && char === '"') {
+      return { text: result, length: i + 1 }
+    }
+    result += char
+    i++
+  }
+  return { text: result, length: text.length }
+}
+
+/**
+ * Parse a node key: `heading "Welcome" [level=1]`
+ */
+function parseNode(key: string): AccessibilityNode {
+  const match = key.match(/^([\w-]+)(?:\s+"((?:[^"\\]|\\.)*)")?((?:\s*\[[^\]]*\])*)\s*$/)
+  if (!match) return { role: key }
+
+  const node: AccessibilityNode = { role: match[1] }
+  if (match[2] !== undefined) {
+    try {
+      node.name = JSON.parse(`"${match[2]}"`)
+    } catch {
+      node.name = match[2]
+    }
+  }
+
+  for (const [, attribute] of match[3].matchAll(/\[([^\]]*)\]/g)) {
+    const [name, ...value] = attribute.split('=')
+    node.attributes = { ...node.attributes, [name.trim()]: value.length ? value.join('=').trim() : 'true' }
+  }
+
+  return node
+}
+
+/**
+ * List a tree's nodes in document order (without the root)
+ */
+function flatten(root: AccessibilityNode): FlatNode[] {
+  const nodes: FlatNode[] = []
+
+  const visit = (node: AccessibilityNode, depth: number, path: string[]) => {
+    for (const child of node.children || []) {
+      const { children, ...summary } = child
+      nodes.push({ depth, path: path.join(' > '), node: summary, key: `${depth}|${describeNode(summary)}` })
+      if (children?.length) {
+        visit(child, depth + 1, [...path, describeNode({ role: child.role, name: child.name })])
+      }
+    }
+  }
+  visit(root, 0, [])
+
+  return nodes
+}
+
+/**
+ * Align two node lists (longest common subsequence) into hunks of removed and added nodes
+ */
+function alignHunks(a: FlatNode[], b: FlatNode[]): Array<{ removed: FlatNode[]; added: FlatNode[] }> {
+  if (a.length === 0 && b.length === 0) return []
+  if (a.length * b.length > MAX_ALIGNMENT || a.length === 0 || b.length === 0) {
+    return [{ removed: a, added: b }]
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const width = b.length + 1
+  const lengths = new Uint32Array((a.length + 1) * width)
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        a[i].key === b[j].key
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1])
+    }
+  }
+
+  const hunks: Array<{ removed: FlatNode[]; added: FlatNode[] }> = []
+  let hunk = { removed: [] as FlatNode[], added: [] as FlatNode[] }
+  const flush = () => {
+    if (hunk.removed.length || hunk.added.length) hunks.push(hunk)
+    hunk = { removed: [], added: [] }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i].key === b[j].key) {
+      flush()
+      i++
+      j++
+    } else if (j < b.length && (i === a.length || lengths[i * width + j + 1] >= lengths[(i + 1) * width + j])) {
+      hunk.added.push(b[j++])
+    } else {
+      hunk.removed.push(a[i++])
+    }
+  }
+  flush()
+
+  return hunks
+}
+
+/**
+ * Turn a hunk into changes, pairing removed and added nodes that are the same node changed
+ */
+function pairHunk(removed: FlatNode[], added: FlatNode[]): AccessibilityChange[] {
+  const changes: AccessibilityChange[] = []
+  const paired = new Set<FlatNode>()
+
+  for (const old of removed) {
+    const match = added.find(
+      (node) =>
+        !paired.has(node) &&
+        node.depth === old.depth &&
+        node.path === old.path &&
+        (node.node.role === old.node.role || (!!node.node.name && node.node.name === old.node.name))
+    )
+    if (match) {
+      paired.add(match)
+      changes.push({ kind: 'changed', path: match.path, before: old.node, after: match.node })
+    } else {
+      changes.push({ kind: 'removed', path: old.path, before: old.node })
+    }
+  }
+
+  for (const node of added) {
+    if (!paired.has(node)) {
+      changes.push({ kind: 'added', path: node.path, after: node.node })
+    }
+  }
+
+  return changes
+}
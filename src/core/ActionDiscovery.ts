@@ -2,11 +2,20 @@
  * ActionDiscovery - Finds all interactive elements on a page
  *
  * Discovers buttons, links, inputs, and other interactive elements
- * that could be clicked/interacted with during exploration.
+ * that could be clicked/interacted with during exploration, including
+ * those inside open shadow roots (web components) and same-origin iframes.
  */
 
-import type { Page, Locator } from 'playwright'
-import type { Action, DiscoveredAction, ActionType } from './types.js'
+import type { Page, Locator, FrameLocator } from 'playwright'
+import type {
+  Action,
+  DiscoveredAction,
+  ActionType,
+  HoverConfig,
+  ScrollConfig,
+  ScrollPosition,
+} from './types.js'
+import { DEFAULT_DESTRUCTIVE_PATTERNS } from './Safety.js'
 
 export interface ActionDiscoveryOptions {
   /** CSS selectors for interactive elements */
@@ -19,6 +28,12 @@ export interface ActionDiscoveryOptions {
   includeDisabled?: boolean
   /** Maximum actions to discover per page */
   maxActions?: number
+  /** Scroll the page and scrollable containers to find elements below the fold */
+  scroll?: Required<ScrollConfig>
+  /** Hover elements to find menus and tooltips that open on mouseover */
+  hover?: Required<HoverConfig>
+  /** Label patterns (case-insensitive regexes) of destructive actions */
+  destructivePatterns?: string[]
 }
 
 const DEFAULT_INTERACTIVE_SELECTORS = [
@@ -49,12 +64,88 @@ const DEFAULT_IGNORE_SELECTORS = [
   '[data-no-explore]',
 ]
 
+/** Buttons that submit the form they are in */
+const SUBMIT_SELECTOR = 'button[type="submit"], input[type="submit"], button:not([type])'
+
 const DEFAULT_OPTIONS: ActionDiscoveryOptions = {
   interactiveSelectors: DEFAULT_INTERACTIVE_SELECTORS,
   ignoreSelectors: DEFAULT_IGNORE_SELECTORS,
   minClickableSize: 1, // Some buttons are icon-only and small
   includeDisabled: false,
   maxActions: 100,
+  destructivePatterns: DEFAULT_DESTRUCTIVE_PATTERNS,
+}
+
+/**
+ * Locate an action's element, entering the iframes on its frame path
+ */
+export function locateAction(page: Page, action: Action): Locator {
+  let scope: Page | FrameLocator = page
+  for (const frame of action.frame || []) {
+    scope = scope.frameLocator(frame)
+  }
+  return scope.locator(action.selector).first()
+}
+
+/**
+ * Fill in scroll defaults (undefined when scrolling is off)
+ */
+export function resolveScrollConfig(config: boolean | ScrollConfig | undefined): Required<ScrollConfig> | undefined {
+  if (!config) return undefined
+  return {
+    maxSteps: 10,
+    containers: true,
+    settleDelay: 500,
+    ...(typeof config === 'object' ? config : {}),
+  }
+}
+
+/**
+ * Fill in hover defaults (undefined when hover discovery is off)
+ */
+export function resolveHoverConfig(config: boolean | HoverConfig | undefined): Required<HoverConfig> | undefined {
+  if (!config) return undefined
+  return {
+    maxChecks: 10,
+    settleDelay: 200,
+    ...(typeof config === 'object' ? config : {}),
+  }
+}
+
+/** Identity of an action within a page (selector in its frame) */
+function actionKey(action: Action): string {
+  return [...(action.frame || []), action.selector].join('\n')
+}
+
+/**
+ * Scroll the page or a container down by most of its visible height
+ */
+async function scrollStep(
+  page: Page,
+  container?: string
+): Promise<{ moved: boolean; height: number }> {
+  return page.evaluate((selector) => {
+    const el = selector ? document.querySelector(selector) : document.scrollingElement
+    if (!el) return { moved: false, height: 0 }
+    const top = el.scrollTop
+    const height = el.scrollHeight
+    el.scrollTop = top + Math.max(1, Math.floor((selector ? el.clientHeight : window.innerHeight) * 0.9))
+    return { moved: el.scrollTop !== top, height }
+  }, container ?? null)
+}
+
+/**
+ * Current scroll position and content height of the page or a container
+ */
+async function scrollMetrics(
+  page: Page,
+  container?: string
+): Promise<{ x: number; y: number; height: number } | null> {
+  return page.evaluate((selector) => {
+    const el = selector ? document.querySelector(selector) : document.scrollingElement
+    if (!el) return null
+    return { x: el.scrollLeft, y: el.scrollTop, height: el.scrollHeight }
+  }, container ?? null)
 }
 
 /**
@@ -68,7 +159,10 @@ export class ActionDiscovery {
   }
 
   /**
-   * Discover all interactive elements on the current page
+   * Discover all interactive elements on the current page. With scrolling on,
+   * elements below the fold are included too, with the scroll position they
+   * were found at. With hovering on, elements whose mouseover opens a menu or
+   * tooltip also get a `hover` action.
    */
   async discoverActions(
     page: Page,
@@ -79,8 +173,47 @@ export class ActionDiscovery {
       ...additionalIgnore,
     ]
 
+    let actions = await this.discoverVisible(page, ignoreSelectors)
+    if (this.options.scroll) {
+      actions = await this.discoverWhileScrolling(page, ignoreSelectors, actions, this.options.scroll)
+    }
+    if (this.options.hover) {
+      actions.push(...(await this.discoverHoverActions(page, actions, this.options.hover)))
+    }
+
+    return actions
+  }
+
+  /**
+   * Scroll to a recorded position. Scrolls again while lazy-loaded content keeps
+   * growing the page, so positions below content loaded by scrolling are reached.
+   */
+  async restoreScroll(page: Page, position: ScrollPosition): Promise<void> {
+    const { maxSteps, settleDelay } = this.options.scroll || resolveScrollConfig(true)!
+
+    for (let step = 0; step < maxSteps; step++) {
+      const reached = await page.evaluate(({ x, y, container }) => {
+        const el = container ? document.querySelector(container) : document.scrollingElement
+        if (!el) return true
+        el.scrollTo(x, y)
+        return el.scrollTop >= y - 1
+      }, position)
+      if (reached) return
+
+      const before = await scrollMetrics(page, position.container)
+      await page.waitForTimeout(settleDelay)
+      const after = await scrollMetrics(page, position.container)
+      // The page stopped growing, so the position can't be reached
+      if (!before || !after || after.height <= before.height) return
+    }
+  }
+
+  /**
+   * Discover interactive elements in the viewport
+   */
+  private async discoverVisible(page: Page, ignoreSelectors: string[]): Promise<DiscoveredAction[]> {
     const actions = await page.evaluate(
-      ({ selectors, ignore, minSize, includeDisabled, maxActions }) => {
+      ({ selectors, ignore, minSize, includeDisabled, maxActions, destructiveLabels }) => {
         const discovered: Array<{
           type: string
           selector: string
@@ -92,41 +225,92 @@ export class ActionDiscovery {
           destructive: boolean
           boundingBox: { x: number; y: number; width: number; height: number } | null
           value?: string
+          accept?: string
+          field?: {
+            type: string
+            name?: string
+            id?: string
+            autocomplete?: string
+            pattern?: string
+            min?: string
+            max?: string
+            step?: string
+            minLength?: number
+            maxLength?: number
+            placeholder?: string
+            required?: boolean
+          }
           zIndex?: number
+          frame?: string[]
         }> = []
 
+        // A document being searched: the page itself or a same-origin iframe.
+        // Offsets and bounds are in top-level viewport coordinates.
+        interface FrameContext {
+          path: string[]
+          x: number
+          y: number
+          bounds: { left: number; top: number; right: number; bottom: number }
+        }
+
+        type Root = Document | ShadowRoot
+
+        const isShadowRoot = (node: Node | null): node is ShadowRoot =>
+          !!node && node.nodeType === Node.DOCUMENT_FRAGMENT_NODE && 'host' in node
+
+        // Elements in iframes belong to another window
+        const styleOf = (el: Element): CSSStyleDeclaration =>
+          (el.ownerDocument.defaultView || window).getComputedStyle(el)
+
+        // Parent element, stepping out of shadow roots to their host
+        const parentOf = (el: Element): Element | null =>
+          el.parentElement || (isShadowRoot(el.parentNode) ? el.parentNode.host : null)
+
+        // Query a document and all open shadow roots inside it
+        const queryDeep = (root: Root, selector: string): Element[] => {
+          const found = Array.from(root.querySelectorAll(selector))
+          for (const el of root.querySelectorAll('*')) {
+            if (el.shadowRoot) {
+              found.push(...queryDeep(el.shadowRoot, selector))
+            }
+          }
+          return found
+        }
+
         // Helper to check if element is visible
         const isVisible = (el: HTMLElement): boolean => {
-          if (!el.offsetParent && getComputedStyle(el).position !== 'fixed') {
+          if (!el.offsetParent && styleOf(el).position !== 'fixed') {
             return false
           }
           const rect = el.getBoundingClientRect()
           if (rect.width === 0 || rect.height === 0) {
             return false
           }
-          const style = getComputedStyle(el)
+          const style = styleOf(el)
           if (style.visibility === 'hidden' || style.opacity === '0') {
             return false
           }
           return true
         }
 
-        // Helper to check if element is in viewport
-        const isInViewport = (el: HTMLElement): boolean => {
+        // Helper to check if element is in viewport (and inside its iframe)
+        const isInViewport = (el: HTMLElement, frame: FrameContext): boolean => {
           const rect = el.getBoundingClientRect()
           return (
-            rect.top < window.innerHeight &&
-            rect.bottom > 0 &&
-            rect.left < window.innerWidth &&
-            rect.right > 0
+            frame.y + rect.top < frame.bounds.bottom &&
+            frame.y + rect.bottom > frame.bounds.top &&
+            frame.x + rect.left < frame.bounds.right &&
+            frame.x + rect.right > frame.bounds.left
           )
         }
 
-        // Helper to check if element matches ignore selectors
+        // Helper to check if element (or an ancestor, across shadow roots) matches ignore selectors
         const shouldIgnore = (el: Element): boolean => {
-          for (const selector of ignore) {
-            if (el.matches(selector) || el.closest(selector)) {
-              return true
+          for (let current: Element | null = el; current; current = parentOf(current)) {
+            for (const selector of ignore) {
+              if (current.matches(selector)) {
+                return true
+              }
             }
           }
           return false
@@ -140,10 +324,10 @@ export class ActionDiscovery {
           const ariaLabel = el.getAttribute('aria-label')
           if (ariaLabel) return ariaLabel.trim()
 
-          // Try aria-labelledby
+          // Try aria-labelledby (IDs resolve within the element's own tree)
           const labelledBy = el.getAttribute('aria-labelledby')
           if (labelledBy) {
-            const labelEl = document.getElementById(labelledBy)
+            const labelEl = (el.getRootNode() as Root).getElementById(labelledBy)
             if (labelEl?.textContent) return labelEl.textContent.trim()
           }
 
@@ -162,6 +346,11 @@ export class ActionDiscovery {
           const placeholder = el.getAttribute('placeholder')
           if (placeholder) return placeholder.trim()
 
+          // Try the input's <label> (for controls without text of their own)
+          const labels = (el as HTMLInputElement).labels
+          const labelText = labels?.[0]?.textContent?.trim()
+          if (labelText) return labelText.slice(0, 100)
+
           // Try name or id
           const name = el.getAttribute('name') || el.id
           if (name) return name
@@ -170,8 +359,8 @@ export class ActionDiscovery {
           return `${el.tagName.toLowerCase()}`
         }
 
-        // Helper to generate unique selector
-        const getSelector = (el: Element): string => {
+        // Helper to generate a selector unique within the element's document or shadow root
+        const getLocalSelector = (el: Element, root: Root): string => {
           // Try ID first
           if (el.id) {
             return `#${CSS.escape(el.id)}`
@@ -186,7 +375,7 @@ export class ActionDiscovery {
           // Try unique aria-label
           const ariaLabel = el.getAttribute('aria-label')
           if (ariaLabel) {
-            const matches = document.querySelectorAll(`[aria-label="${CSS.escape(ariaLabel)}"]`)
+            const matches = root.querySelectorAll(`[aria-label="${CSS.escape(ariaLabel)}"]`)
             if (matches.length === 1) {
               return `[aria-label="${CSS.escape(ariaLabel)}"]`
             }
@@ -194,9 +383,10 @@ export class ActionDiscovery {
 
           // Build path-based selector
           const path: string[] = []
+          const body = isShadowRoot(root) ? null : root.body
           let current: Element | null = el
 
-          while (current && current !== document.body) {
+          while (current && current !== body) {
             let segment = current.tagName.toLowerCase()
 
             // Add role if present
@@ -205,8 +395,8 @@ export class ActionDiscovery {
               segment = `${segment}[role="${role}"]`
             }
 
-            // Add nth-child if needed for uniqueness
-            const parent = current.parentElement
+            // Add nth-child if needed for uniqueness (top-level shadow children have no parent element)
+            const parent: ParentNode | null = current.parentElement || current.parentNode
             if (parent) {
               const siblings = Array.from(parent.children).filter(
                 (c) => c.tagName === current!.tagName
@@ -224,7 +414,7 @@ export class ActionDiscovery {
             if (path.length > 1) {
               const selector = path.join(' > ')
               try {
-                const matches = document.querySelectorAll(selector)
+                const matches = root.querySelectorAll(selector)
                 if (matches.length === 1) break
               } catch {
                 // Invalid selector, continue building
@@ -235,6 +425,14 @@ export class ActionDiscovery {
           return path.join(' > ')
         }
 
+        // Helper to generate unique selector. Inside a shadow root the selector is
+        // chained to its host with `>>`, which Playwright resolves into open shadow roots.
+        const getSelector = (el: Element): string => {
+          const root = el.getRootNode() as Root
+          const local = getLocalSelector(el, root)
+          return isShadowRoot(root) ? `${getSelector(root.host)} >> ${local}` : local
+        }
+
         // Helper to determine action type
         const getActionType = (el: Element): string => {
           const tag = el.tagName.toLowerCase()
@@ -254,20 +452,26 @@ export class ActionDiscovery {
           return 'click'
         }
 
+        // Helper to describe the input a fill action types into (only attributes that are set)
+        const getField = (el: Element) => {
+          const input = el as HTMLInputElement
+          const attrs = ['name', 'id', 'autocomplete', 'pattern', 'min', 'max', 'step', 'placeholder'] as const
+          const field: Record<string, string | number | boolean> = {
+            type: el.tagName === 'TEXTAREA' ? 'textarea' : (el.getAttribute('type') || 'text').toLowerCase(),
+          }
+          for (const attr of attrs) {
+            const value = el.getAttribute(attr)
+            if (value) field[attr] = value
+          }
+          if (input.minLength > 0) field.minLength = input.minLength
+          if (input.maxLength > 0) field.maxLength = input.maxLength
+          if (input.required) field.required = true
+          return field as { type: string }
+        }
+
         // Helper to check if action is destructive
+        const destructivePatterns = destructiveLabels.map((pattern) => new RegExp(pattern, 'i'))
         const isDestructive = (el: Element, label: string): boolean => {
-          const destructivePatterns = [
-            /delete/i,
-            /remove/i,
-            /destroy/i,
-            /logout/i,
-            /sign.?out/i,
-            /cancel/i,
-            /close/i,
-            /discard/i,
-            /clear/i,
-          ]
-
           const text = label + ' ' + (el.className || '')
           return destructivePatterns.some((p) => p.test(text))
         }
@@ -276,7 +480,7 @@ export class ActionDiscovery {
         const getZIndex = (el: HTMLElement): number => {
           let current: HTMLElement | null = el
           while (current) {
-            const style = getComputedStyle(current)
+            const style = styleOf(current)
             if (style.zIndex !== 'auto') {
               return parseInt(style.zIndex, 10)
             }
@@ -285,61 +489,110 @@ export class ActionDiscovery {
           return 0
         }
 
-        // Find all interactive elements
-        const selector = selectors.join(',')
-        const elements = document.querySelectorAll(selector)
-
-        for (const el of elements) {
-          if (discovered.length >= maxActions) break
-
-          const htmlEl = el as HTMLElement
-
-          // Skip ignored elements
-          if (shouldIgnore(el)) continue
-
-          // Check visibility
-          const visible = isVisible(htmlEl) && isInViewport(htmlEl)
-
-          // Check if enabled
-          const isDisabled =
-            el.hasAttribute('disabled') ||
-            el.getAttribute('aria-disabled') === 'true'
-          const enabled = !isDisabled
+        // Find all interactive elements in a document, then in its same-origin iframes
+        const discoverIn = (doc: Document, frame: FrameContext): void => {
+          const frameKey = frame.path.join('\n')
+          const elements = queryDeep(doc, selectors.join(','))
+
+          for (const el of elements) {
+            if (discovered.length >= maxActions) return
+
+            const htmlEl = el as HTMLElement
+
+            // Skip ignored elements
+            if (shouldIgnore(el)) continue
+
+            // Labels of file inputs are covered by the input's upload action
+            if (el.tagName === 'LABEL' && (el as HTMLLabelElement).control?.getAttribute('type') === 'file') continue
+
+            // Check visibility. File inputs are often hidden behind a styled
+            // label, and are reachable as long as the label is visible.
+            const fileLabel =
+              el.tagName === 'INPUT' && (el as HTMLInputElement).type === 'file'
+                ? (Array.from((el as HTMLInputElement).labels || []) as HTMLElement[]).find(
+                    (l) => isVisible(l) && isInViewport(l, frame)
+                  )
+                : undefined
+            const visible = (isVisible(htmlEl) && isInViewport(htmlEl, frame)) || !!fileLabel
+
+            // Check if enabled
+            const isDisabled =
+              el.hasAttribute('disabled') ||
+              el.getAttribute('aria-disabled') === 'true'
+            const enabled = !isDisabled
+
+            if (!includeDisabled && !enabled) continue
+            if (!visible) continue
+
+            // Get bounding box
+            const rect = (isVisible(htmlEl) ? htmlEl : fileLabel || htmlEl).getBoundingClientRect()
+            if (rect.width < minSize || rect.height < minSize) continue
+
+            const label = getLabel(el)
+            const selector = getSelector(el)
+            const actionType = getActionType(el)
+            const destructive = isDestructive(el, label)
+
+            // Avoid duplicates (same selector in the same frame)
+            if (discovered.some((d) => d.selector === selector && (d.frame || []).join('\n') === frameKey)) continue
+
+            discovered.push({
+              type: actionType,
+              selector,
+              label,
+              tagName: el.tagName.toLowerCase(),
+              role: el.getAttribute('role'),
+              visible,
+              enabled,
+              destructive,
+              boundingBox: {
+                x: frame.x + rect.x,
+                y: frame.y + rect.y,
+                width: rect.width,
+                height: rect.height,
+              },
+              zIndex: getZIndex(htmlEl),
+              ...(actionType === 'upload' && el.getAttribute('accept') ? { accept: el.getAttribute('accept')! } : {}),
+              ...(actionType === 'fill' && /^(INPUT|TEXTAREA)$/.test(el.tagName) ? { field: getField(el) } : {}),
+              ...(frame.path.length > 0 ? { frame: frame.path } : {}),
+            })
+          }
 
-          if (!includeDisabled && !enabled) continue
-          if (!visible) continue
+          for (const iframe of queryDeep(doc, 'iframe, frame') as HTMLIFrameElement[]) {
+            if (discovered.length >= maxActions) return
+            if (shouldIgnore(iframe) || !isVisible(iframe)) continue
 
-          // Get bounding box
-          const rect = htmlEl.getBoundingClientRect()
-          if (rect.width < minSize || rect.height < minSize) continue
+            // contentDocument is null (or throws) for cross-origin frames
+            let childDoc: Document | null = null
+            try {
+              childDoc = iframe.contentDocument
+            } catch {
+              childDoc = null
+            }
+            if (!childDoc?.documentElement) continue
+
+            const rect = iframe.getBoundingClientRect()
+            const x = frame.x + rect.left + iframe.clientLeft
+            const y = frame.y + rect.top + iframe.clientTop
+            const bounds = {
+              left: Math.max(frame.bounds.left, x),
+              top: Math.max(frame.bounds.top, y),
+              right: Math.min(frame.bounds.right, x + iframe.clientWidth),
+              bottom: Math.min(frame.bounds.bottom, y + iframe.clientHeight),
+            }
+            if (bounds.right <= bounds.left || bounds.bottom <= bounds.top) continue
 
-          const label = getLabel(el)
-          const selector = getSelector(el)
-          const actionType = getActionType(el)
-          const destructive = isDestructive(el, label)
-
-          // Avoid duplicates (same selector)
-          if (discovered.some((d) => d.selector === selector)) continue
-
-          discovered.push({
-            type: actionType,
-            selector,
-            label,
-            tagName: el.tagName.toLowerCase(),
-            role: el.getAttribute('role'),
-            visible,
-            enabled,
-            destructive,
-            boundingBox: {
-              x: rect.x,
-              y: rect.y,
-              width: rect.width,
-              height: rect.height,
-            },
-            zIndex: getZIndex(htmlEl),
-          })
+            discoverIn(childDoc, { path: [...frame.path, getSelector(iframe)], x, y, bounds })
+          }
         }
 
+        discoverIn(document, {
+          path: [],
+          x: 0,
+          y: 0,
+          bounds: { left: 0, top: 0, right: window.innerWidth, bottom: window.innerHeight },
+        })
+
         // Sort by z-index (higher = more prominent) and position (top to bottom, left to right)
         discovered.sort((a, b) => {
           if ((b.zIndex || 0) !== (a.zIndex || 0)) {
@@ -362,6 +615,7 @@ export class ActionDiscovery {
         minSize: this.options.minClickableSize || 1,
         includeDisabled: this.options.includeDisabled || false,
         maxActions: this.options.maxActions || 100,
+        destructiveLabels: this.options.destructivePatterns || [],
       }
     )
 
@@ -374,42 +628,328 @@ export class ActionDiscovery {
   }
 
   /**
-   * Get actions that need form input before clicking (e.g., submit buttons)
+   * Scroll the page, then each scrollable container, a viewport at a time,
+   * collecting elements that come into view. Scrolling that loads more content
+   * also yields a `scroll` action that reaches the loaded state.
+   */
+  private async discoverWhileScrolling(
+    page: Page,
+    ignoreSelectors: string[],
+    initial: DiscoveredAction[],
+    options: Required<ScrollConfig>
+  ): Promise<DiscoveredAction[]> {
+    const maxActions = this.options.maxActions || 100
+    const actions = [...initial]
+    const seen = new Set(initial.map(actionKey))
+
+    const containers: Array<string | undefined> = [undefined]
+    if (options.containers) {
+      containers.push(...(await this.findScrollContainers(page, ignoreSelectors)))
+    }
+
+    try {
+      for (const container of containers) {
+        let loadedMore = false
+
+        for (let step = 0; step < options.maxSteps && actions.length < maxActions; step++) {
+          const before = await scrollStep(page, container)
+          await page.waitForTimeout(options.settleDelay)
+          const after = await scrollMetrics(page, container)
+          if (!after) break
+
+          // Reaching the end loaded more content (infinite scroll)
+          if (after.height > before.height && !loadedMore) {
+            loadedMore = true
+            actions.push({
+              type: 'scroll',
+              selector: container || 'html',
+              label: container ? `Scroll ${container} to load more` : 'Scroll to load more',
+              scroll: { x: after.x, y: after.y, ...(container && { container }) },
+              visible: true,
+              enabled: true,
+              destructive: false,
+            })
+          }
+
+          if (!before.moved && after.height <= before.height) break
+
+          for (const action of await this.discoverVisible(page, ignoreSelectors)) {
+            const key = actionKey(action)
+            if (seen.has(key) || actions.length >= maxActions) continue
+            seen.add(key)
+            actions.push({ ...action, scroll: { x: after.x, y: after.y, ...(container && { container }) } })
+          }
+        }
+      }
+    } finally {
+      // Leave the page as it was found
+      await page.evaluate((selectors) => {
+        window.scrollTo(0, 0)
+        for (const selector of selectors) {
+          const el = document.querySelector(selector)
+          if (el) el.scrollTop = 0
+        }
+      }, containers.filter((c): c is string => !!c))
+    }
+
+    return actions
+  }
+
+  /**
+   * Hover candidate elements and keep those whose mouseover makes something
+   * appear outside the element itself (a menu, submenu or tooltip). Elements
+   * are tried in discovery order, so navigation near the top comes first.
+   */
+  private async discoverHoverActions(
+    page: Page,
+    actions: DiscoveredAction[],
+    options: Required<HoverConfig>
+  ): Promise<DiscoveredAction[]> {
+    const maxActions = this.options.maxActions || 100
+    const candidates = actions
+      .filter((action) => ['click', 'fill', 'select'].includes(action.type) && !action.scroll && !action.destructive)
+      .slice(0, options.maxChecks)
+
+    const found: DiscoveredAction[] = []
+    for (const action of candidates) {
+      if (actions.length + found.length >= maxActions) break
+      if (await this.hoverReveals(page, action, options.settleDelay)) {
+        found.push({ ...action, type: 'hover', label: `Hover ${action.label}` })
+      }
+    }
+    return found
+  }
+
+  /**
+   * Whether hovering an action's element shows more elements elsewhere in the page
+   */
+  private async hoverReveals(page: Page, action: Action, settleDelay: number): Promise<boolean> {
+    const locator = locateAction(page, action)
+
+    // Visible elements outside the hovered element (and its ancestors)
+    const countVisible = (el: Element): number => {
+      const view = el.ownerDocument.defaultView || window
+      let count = 0
+      for (const node of Array.from(el.ownerDocument.body.querySelectorAll('*'))) {
+        if (el.contains(node) || node.contains(el)) continue
+        const rect = node.getBoundingClientRect()
+        if (rect.width === 0 || rect.height === 0) continue
+        const style = view.getComputedStyle(node)
+        if (style.visibility === 'hidden' || style.opacity === '0') continue
+        count++
+      }
+      return count
+    }
+
+    try {
+      const before = await locator.evaluate(countVisible, undefined, { timeout: 2000 })
+      await locator.hover({ timeout: 2000 })
+      await page.waitForTimeout(settleDelay)
+      const after = await locator.evaluate(countVisible, undefined, { timeout: 2000 })
+      return after > before
+    } catch {
+      return false
+    } finally {
+      // Move away so the menu closes before the next element is tried
+      await page.mouse.move(0, 0).catch(() => {})
+      await page.waitForTimeout(settleDelay)
+    }
+  }
+
+  /**
+   * Find visible scrollable containers (top-level document only)
+   */
+  private async findScrollContainers(page: Page, ignoreSelectors: string[]): Promise<string[]> {
+    return page.evaluate(
+      ({ ignore, max }) => {
+        const selectorFor = (el: Element): string => {
+          if (el.id) return `#${CSS.escape(el.id)}`
+          const parent = el.parentElement
+          const tag = el.tagName.toLowerCase()
+          if (!parent || parent === document.body) return `body > ${tag}`
+          const sameTag = Array.from(parent.children).filter((child) => child.tagName === el.tagName)
+          const own = sameTag.length > 1 ? `${tag}:nth-of-type(${sameTag.indexOf(el) + 1})` : tag
+          return `${selectorFor(parent)} > ${own}`
+        }
+
+        const found: string[] = []
+        for (const el of Array.from(document.body.querySelectorAll('*'))) {
+          if (found.length >= max) break
+          const style = getComputedStyle(el)
+          if (!['auto', 'scroll'].includes(style.overflowY)) continue
+          if (el.scrollHeight <= el.clientHeight + 20) continue
+
+          const rect = el.getBoundingClientRect()
+          if (rect.width === 0 || rect.height === 0 || rect.bottom < 0 || rect.top > window.innerHeight) continue
+          if (ignore.some((selector) => el.closest(selector))) continue
+
+          found.push(selectorFor(el))
+        }
+        return found
+      },
+      { ignore: ignoreSelectors, max: 5 }
+    )
+  }
+
+  /**
+   * Get a "fill form and submit" action for each visible form with a submit
+   * button. The action carries the form's fields (fill, select, and check for
+   * required checkboxes and radio groups) and is performed as one step.
    */
-  async getFormActions(page: Page): Promise<Action[]> {
-    const formActions: Action[] = []
+  async getFormActions(page: Page, additionalIgnore: string[] = []): Promise<DiscoveredAction[]> {
+    const formActions: DiscoveredAction[] = []
+    const ignore = [...(this.options.ignoreSelectors || []), ...additionalIgnore]
 
     // Find forms and their submit buttons
     const forms = await page.locator('form').all()
 
-    for (const form of forms) {
+    for (const [index, form] of forms.entries()) {
       const isVisible = await form.isVisible()
       if (!isVisible) continue
 
       // Find submit button
-      const submitButton = form.locator(
-        'button[type="submit"], input[type="submit"], button:not([type])'
-      )
+      const submitButton = form.locator(SUBMIT_SELECTOR)
       const count = await submitButton.count()
-
-      if (count > 0) {
-        const button = submitButton.first()
-        const label =
-          (await button.getAttribute('aria-label')) ||
-          (await button.innerText()).trim() ||
-          'Submit'
-
-        formActions.push({
-          type: 'click',
-          selector: await this.getLocatorSelector(button),
-          label: `Submit form: ${label}`,
-        })
-      }
+      if (count === 0) continue
+
+      const details = await this.getFormFields(form, index, ignore)
+      if (!details) continue
+
+      const button = submitButton.first()
+      const label =
+        (await button.getAttribute('aria-label')) ||
+        (await button.innerText()).trim() ||
+        'Submit'
+
+      // Buttons without an id or test id are found within their form
+      const buttonSelector = await this.getLocatorSelector(button)
+      const selector = /^[#[]/.test(buttonSelector) ? buttonSelector : `${details.selector} >> ${buttonSelector}`
+
+      formActions.push({
+        type: 'submit',
+        selector,
+        label: `Submit form: ${label}`,
+        form: details.selector,
+        fields: details.fields,
+        tagName: 'button',
+        visible: true,
+        enabled: true,
+        destructive: (this.options.destructivePatterns || []).some((pattern) => new RegExp(pattern, 'i').test(label)),
+      })
     }
 
     return formActions
   }
 
+  /**
+   * Collect the fields a form submission fills. Returns null for forms inside
+   * an ignored element.
+   */
+  private async getFormFields(
+    form: Locator,
+    index: number,
+    ignore: string[]
+  ): Promise<{ selector: string; fields: Action[] } | null> {
+    const details = await form.evaluate(
+      (formEl, { index, ignore }) => {
+        if (ignore.some((selector) => formEl.closest(selector))) return null
+
+        // Without an id the form is found by its position among the page's forms
+        const formSelector = formEl.id ? `#${CSS.escape(formEl.id)}` : `form >> nth=${index}`
+        const controls = Array.from(formEl.querySelectorAll('input, textarea, select')) as Array<
+          HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+        >
+
+        const isVisible = (el: HTMLElement): boolean => {
+          const style = getComputedStyle(el)
+          const rect = el.getBoundingClientRect()
+          return style.display !== 'none' && style.visibility !== 'hidden' && rect.width > 0 && rect.height > 0
+        }
+
+        const getSelector = (el: Element, position: number): string => {
+          if (el.id) return `#${CSS.escape(el.id)}`
+          const name = el.getAttribute('name')
+          if (name && el.getAttribute('type') !== 'radio') {
+            const named = formEl.querySelectorAll(`[name="${CSS.escape(name)}"]`)
+            if (named.length === 1) return `${formSelector} >> [name="${CSS.escape(name)}"]`
+          }
+          return `${formSelector} >> :is(input, textarea, select) >> nth=${position}`
+        }
+
+        const getLabel = (el: HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement): string =>
+          (el.labels?.[0]?.textContent || '').trim() ||
+          el.getAttribute('aria-label') ||
+          el.getAttribute('placeholder') ||
+          el.getAttribute('name') ||
+          el.tagName.toLowerCase()
+
+        // Only attributes that are set, as in discovery
+        const getField = (el: Element) => {
+          const input = el as HTMLInputElement
+          const attrs = ['name', 'id', 'autocomplete', 'pattern', 'min', 'max', 'step', 'placeholder'] as const
+          const field: Record<string, string | number | boolean> = {
+            type: el.tagName === 'TEXTAREA' ? 'textarea' : (el.getAttribute('type') || 'text').toLowerCase(),
+          }
+          for (const attr of attrs) {
+            const value = el.getAttribute(attr)
+            if (value) field[attr] = value
+          }
+          if (input.minLength > 0) field.minLength = input.minLength
+          if (input.maxLength > 0) field.maxLength = input.maxLength
+          if (input.required) field.required = true
+          return field as { type: string }
+        }
+
+        const fields: Array<{ type: string; selector: string; label: string; value?: string; field?: { type: string } }> = []
+        const radioGroups = new Set<string>()
+
+        controls.forEach((el, position) => {
+          const type = el.tagName === 'INPUT' ? (el.getAttribute('type') || 'text').toLowerCase() : el.tagName.toLowerCase()
+          if (['hidden', 'submit', 'button', 'reset', 'image', 'file'].includes(type)) return
+          if (el.disabled || (el as HTMLInputElement).readOnly) return
+          if (!isVisible(el) || ignore.some((selector) => el.closest(selector))) return
+
+          const selector = getSelector(el, position)
+          const label = getLabel(el)
+
+          if (type === 'checkbox') {
+            // Optional checkboxes (newsletters, "remember me") are left as they are
+            if ((el as HTMLInputElement).required && !(el as HTMLInputElement).checked) {
+              fields.push({ type: 'check', selector, label })
+            }
+          } else if (type === 'radio') {
+            // Pick the first option of a required group nothing is chosen in
+            const name = el.getAttribute('name') || selector
+            if (radioGroups.has(name)) return
+            radioGroups.add(name)
+            const group = controls.filter(
+              (other) => other.getAttribute('type') === 'radio' && other.getAttribute('name') === name
+            ) as HTMLInputElement[]
+            if (group.some((radio) => radio.required) && !group.some((radio) => radio.checked)) {
+              fields.push({ type: 'check', selector, label })
+            }
+          } else if (el.tagName === 'SELECT') {
+            const option = Array.from((el as HTMLSelectElement).options).find((o) => o.value && !o.disabled)
+            if (option && !(el as HTMLSelectElement).multiple) {
+              fields.push({ type: 'select', selector, label, value: option.value })
+            }
+          } else {
+            fields.push({ type: 'fill', selector, label, field: getField(el) })
+          }
+        })
+
+        return { selector: formSelector, fields }
+      },
+      { index, ignore }
+    )
+
+    if (!details) return null
+    return {
+      selector: details.selector,
+      fields: details.fields.map((field) => ({ ...field, type: field.type as ActionType })),
+    }
+  }
+
   /**
    * Get a stable selector for a Playwright Locator
    */
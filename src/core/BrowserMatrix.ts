@@ -0,0 +1,85 @@
+/**
+ * BrowserMatrix - Compares issues across browser engines
+ *
+ * When a run explores several engines, the same page is checked in each of
+ * them. An issue found on a page in only one engine (e.g. WebKit-only layout
+ * breakage) is engine-specific. Pages that only one engine reached are left
+ * out, since there is nothing to compare them with.
+ */
+
+import type { BrowserName, ExplorationResult, Issue } from './types.js'
+
+export interface EngineSpecificIssue {
+  /** The only engine the issue occurred in */
+  browser: BrowserName
+  /** Engines that checked the same page without finding the issue */
+  comparedWith: BrowserName[]
+  /** Page URL */
+  url: string
+  issue: Issue
+}
+
+/**
+ * A page as seen at one viewport (path and query; hashes are ignored)
+ */
+function pageKey(url: string, viewport: string): string {
+  try {
+    const parsed = new URL(url)
+    return `${viewport}|${parsed.pathname}${parsed.search}`
+  } catch {
+    return `${viewport}|${url}`
+  }
+}
+
+/**
+ * Identity of an issue independent of the engine it was found in
+ */
+function issueKey(issue: Issue, page: string): string {
+  return [page, issue.emulation || '', issue.type, issue.rule, [...(issue.elements || [])].sort().join(',')].join('|')
+}
+
+/**
+ * Find issues that occur in only one engine on pages checked by several engines
+ */
+export function findEngineSpecificIssues(result: ExplorationResult): EngineSpecificIssue[] {
+  const states = result.graph.states
+
+  // Which engines checked each page
+  const enginesByPage = new Map<string, Set<BrowserName>>()
+  for (const node of states.values()) {
+    if (!node.state.browser) continue
+    const page = pageKey(node.state.url, node.state.viewport)
+    const engines = enginesByPage.get(page) || new Set<BrowserName>()
+    engines.add(node.state.browser)
+    enginesByPage.set(page, engines)
+  }
+
+  // Which engines found each issue
+  const occurrences = new Map<string, { page: string; url: string; issue: Issue; engines: Set<BrowserName> }>()
+  for (const issue of result.issues) {
+    const state = issue.stateId ? states.get(issue.stateId)?.state : undefined
+    if (!state || !issue.browser) continue
+
+    const page = pageKey(state.url, state.viewport)
+    const key = issueKey(issue, page)
+    const occurrence = occurrences.get(key) || { page, url: state.url, issue, engines: new Set<BrowserName>() }
+    occurrence.engines.add(issue.browser)
+    occurrences.set(key, occurrence)
+  }
+
+  const engineSpecific: EngineSpecificIssue[] = []
+  for (const { page, url, issue, engines } of occurrences.values()) {
+    const checkedBy = enginesByPage.get(page) || new Set<BrowserName>()
+    if (engines.size !== 1 || checkedBy.size < 2) continue
+
+    const [browser] = engines
+    engineSpecific.push({
+      browser,
+      comparedWith: [...checkedBy].filter((engine) => engine !== browser),
+      url,
+      issue,
+    })
+  }
+
+  return engineSpecific
+}
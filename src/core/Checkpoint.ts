@@ -0,0 +1,140 @@
+/**
+ * Checkpoint - Persists exploration progress so long runs can be resumed
+ *
+ * A checkpoint holds everything the Explorer needs to carry on: the pending
+ * queue and the strategy's own state, the states explored so far (with their
+ * issues and transitions), and the config the run was started with. It is written as JSON to the output
+ * directory, replacing the previous checkpoint atomically.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import type { SeedRoutes } from './RouteSeeds.js'
+import type { ExplorerConfig, ExplorationTask, StateNode } from './types.js'
+
+export const CHECKPOINT_FILE = 'checkpoint.json'
+export const CHECKPOINT_VERSION = 1
+
+export interface CheckpointState extends StateNode {
+  /** Task order that produced this state (keeps results deterministic) */
+  order: number[]
+}
+
+export interface ExplorationCheckpoint {
+  /** Checkpoint format version */
+  version: number
+  /** When the checkpoint was written */
+  savedAt: number
+  /** When the original run started */
+  startTime: number
+  /** Config the run was started with */
+  config: ExplorerConfig
+  /** Tasks still to explore (in-flight tasks first) */
+  queue: ExplorationTask[]
+  /** Tasks set aside as too deep or past the state budget */
+  parked?: ExplorationTask[]
+  /** States explored so far */
+  states: CheckpointState[]
+  /** Start state IDs */
+  startStates: string[]
+  /** Concrete URLs skipped per route template */
+  skippedByTemplate?: Record<string, string[]>
+  /** Labels of actions the safety policy didn't perform, by URL */
+  skippedBySafety?: Record<string, string[]>
+  /** Routes seeded from sitemaps and manifests */
+  seeds?: SeedRoutes
+  /** Strategy that ordered the queue, with its state besides the pending tasks */
+  strategy?: { name: string; state?: unknown }
+  /** Dialogs whose focus handling was already checked */
+  focusChecked?: string[]
+  /** How many values each `{{gen.*}}` placeholder has generated */
+  generated?: Record<string, number>
+  /** `testData` keys whose generator functions couldn't be saved with the config */
+  testDataGenerators?: string[]
+}
+
+/**
+ * JSON can't represent RegExp, so tag them on the way out...
+ */
+function replacer(_key: string, value: unknown): unknown {
+  if (value instanceof RegExp) {
+    return { $regexp: value.source, flags: value.flags }
+  }
+  return value
+}
+
+/**
+ * ...and rebuild them on the way back in
+ */
+function reviver(_key: string, value: unknown): unknown {
+  if (value && typeof value === 'object' && '$regexp' in value) {
+    const tagged = value as { $regexp: string; flags?: string }
+    return new RegExp(tagged.$regexp, tagged.flags)
+  }
+  return value
+}
+
+/**
+ * Reads and writes checkpoints in an output directory
+ */
+export class CheckpointStore {
+  private dir: string
+
+  constructor(dir: string) {
+    this.dir = dir
+  }
+
+  /**
+   * Full path of the checkpoint file
+   */
+  get path(): string {
+    return join(this.dir, CHECKPOINT_FILE)
+  }
+
+  /**
+   * Check if a checkpoint exists
+   */
+  exists(): boolean {
+    return existsSync(this.path)
+  }
+
+  /**
+   * Write a checkpoint, replacing any previous one
+   */
+  save(checkpoint: ExplorationCheckpoint): void {
+    if (!existsSync(this.dir)) {
+      mkdirSync(this.dir, { recursive: true })
+    }
+
+    // Write to a temp file first so a crash mid-write never corrupts the last good checkpoint
+    const tempPath = `${this.path}.tmp`
+    writeFileSync(tempPath, JSON.stringify(checkpoint, replacer))
+    renameSync(tempPath, this.path)
+  }
+
+  /**
+   * Load the checkpoint from disk
+   */
+  load(): ExplorationCheckpoint {
+    if (!this.exists()) {
+      throw new Error(`No checkpoint found at ${this.path}`)
+    }
+
+    const checkpoint = JSON.parse(readFileSync(this.path, 'utf-8'), reviver) as ExplorationCheckpoint
+
+    if (checkpoint.version !== CHECKPOINT_VERSION) {
+      throw new Error(
+        `Unsupported checkpoint version ${checkpoint.version} (expected ${CHECKPOINT_VERSION})`
+      )
+    }
+
+    return checkpoint
+  }
+
+  /**
+   * Remove the checkpoint (e.g., once the run completes)
+   */
+  clear(): void {
+    rmSync(this.path, { force: true })
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * CrawlScope - Decides which URLs the Explorer is allowed to visit
+ *
+ * A URL is in scope when:
+ * - its origin is allowed (base URL and start URL origins by default),
+ *   optionally including subdomains of allowed hosts
+ * - it matches at least one include pattern (if any are configured)
+ * - it matches no exclude pattern
+ *
+ * Patterns are globs (`/admin/**`, `*.pdf`) or regular expressions. Strings
+ * wrapped in slashes (`"/^\\/api\\//i"`) are treated as regex so they can be
+ * written in JSON config. Patterns starting with a scheme match the full URL,
+ * globs without a slash (`*.pdf`) match the last path segment, and all others
+ * match the path and query string.
+ */
+
+import type { ScopeConfig } from './types.js'
+
+export interface ScopeDecision {
+  inScope: boolean
+  /** Why the URL is out of scope */
+  reason?: 'origin' | 'protocol' | 'not-included' | 'excluded' | 'invalid-url'
+}
+
+/**
+ * Convert a glob to a RegExp.
+ * `**` matches anything, `*` matches within a path segment, `?` one character.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = ''
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        pattern += '.*'
+        i++
+      } else {
+        pattern += '[^/]*'
+      }
+    } else if (char === '?') {
+      pattern += '.'
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${pattern}$`)
+}
+
+/**
+ * Turn a config pattern into a RegExp
+ */
+export function toUrlPattern(pattern: string | RegExp): RegExp {
+  if (pattern instanceof RegExp) return pattern
+
+  const regexLiteral = pattern.match(/^\/(.+)\/([gimsuy]*)$/)
+  if (regexLiteral) {
+    return new RegExp(regexLiteral[1], regexLiteral[2])
+  }
+
+  return globToRegExp(pattern)
+}
+
+/** A compiled pattern and the part of the URL it matches */
+interface ScopeRule {
+  regex: RegExp
+  target: 'url' | 'path' | 'basename'
+}
+
+export class CrawlScope {
+  private origins: URL[]
+  private includeSubdomains: boolean
+  private include: ScopeRule[]
+  private exclude: ScopeRule[]
+
+  /**
+   * @param config - Scope rules
+   * @param defaultOrigins - URLs whose origins are allowed when none are configured
+   */
+  constructor(config: ScopeConfig = {}, defaultOrigins: string[] = []) {
+    const origins = config.allowedOrigins?.length ? config.allowedOrigins : defaultOrigins
+    this.origins = origins.flatMap((origin) => {
+      try {
+        return [new URL(origin)]
+      } catch {
+        return []
+      }
+    })
+    this.includeSubdomains = config.includeSubdomains ?? false
+
+    // Regex literals are wrapped in slashes, so a string without one is a glob
+    const compile = (pattern: string | RegExp): ScopeRule => ({
+      regex: toUrlPattern(pattern),
+      target:
+        typeof pattern !== 'string'
+          ? 'path'
+          : /^[a-z][a-z0-9+.-]*:\/\//i.test(pattern)
+            ? 'url'
+            : pattern.includes('/')
+              ? 'path'
+              : 'basename',
+    })
+    this.include = (config.include || []).map(compile)
+    this.exclude = (config.exclude || []).map(compile)
+  }
+
+  /**
+   * Check if a URL may be explored
+   */
+  isInScope(url: string): boolean {
+    return this.check(url).inScope
+  }
+
+  /**
+   * Check a URL and explain why it is out of scope
+   */
+  check(url: string): ScopeDecision {
+    let parsed: URL
+    try {
+      parsed = new URL(url)
+    } catch {
+      return { inScope: false, reason: 'invalid-url' }
+    }
+
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      return { inScope: false, reason: 'protocol' }
+    }
+
+    if (!this.isAllowedOrigin(parsed)) {
+      return { inScope: false, reason: 'origin' }
+    }
+
+    const matches = (rule: ScopeRule) => {
+      rule.regex.lastIndex = 0
+      if (rule.target === 'url') return rule.regex.test(parsed.href)
+      if (rule.target === 'basename') return rule.regex.test(parsed.pathname.split('/').pop() || '')
+      return rule.regex.test(parsed.pathname + parsed.search)
+    }
+
+    if (this.include.length > 0 && !this.include.some(matches)) {
+      return { inScope: false, reason: 'not-included' }
+    }
+
+    if (this.exclude.some(matches)) {
+      return { inScope: false, reason: 'excluded' }
+    }
+
+    return { inScope: true }
+  }
+
+  /**
+   * Check the URL's origin against the allowed origins
+   */
+  private isAllowedOrigin(url: URL): boolean {
+    // No origins known - don't restrict
+    if (this.origins.length === 0) return true
+
+    return this.origins.some((allowed) => {
+      if (allowed.origin === url.origin) return true
+      if (!this.includeSubdomains) return false
+
+      return (
+        allowed.protocol === url.protocol &&
+        allowed.port === url.port &&
+        url.hostname.endsWith(`.${allowed.hostname}`)
+      )
+    })
+  }
+}
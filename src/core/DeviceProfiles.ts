@@ -0,0 +1,74 @@
+/**
+ * DeviceProfiles - Resolves configured viewports into device profiles
+ *
+ * A viewport can be given as:
+ * - a built-in name: `mobile`, `tablet`, `desktop`
+ * - a Playwright `devices` name: `iPhone 13`, `Pixel 7`, `iPad Mini landscape`
+ * - a custom profile: `{ name: 'fold', width: 280, height: 653, isMobile: true, hasTouch: true }`
+ */
+
+import { devices } from 'playwright'
+import { VIEWPORTS, type Viewport, type ViewportConfig, type ViewportName } from './types.js'
+
+/** Emulation for the built-in viewports (mobile is a touch device) */
+const BUILT_IN_EMULATION: Partial<Record<ViewportName, Partial<Viewport>>> = {
+  mobile: { hasTouch: true },
+}
+
+/**
+ * Resolve one configured viewport into a device profile
+ */
+export function resolveViewport(viewport: ViewportConfig): Viewport {
+  if (typeof viewport === 'object') {
+    if (!viewport.name || !(viewport.width > 0) || !(viewport.height > 0)) {
+      throw new Error(
+        `Invalid viewport ${JSON.stringify(viewport)}: name, width and height are required`
+      )
+    }
+    return { ...viewport }
+  }
+
+  if (Object.prototype.hasOwnProperty.call(VIEWPORTS, viewport)) {
+    return { ...VIEWPORTS[viewport as ViewportName], ...BUILT_IN_EMULATION[viewport as ViewportName] }
+  }
+
+  // Playwright device names are matched case-insensitively
+  const deviceName = Object.keys(devices).find((name) => name.toLowerCase() === viewport.toLowerCase())
+  if (deviceName) {
+    const device = devices[deviceName]
+    return {
+      name: deviceName,
+      width: device.viewport.width,
+      height: device.viewport.height,
+      deviceScaleFactor: device.deviceScaleFactor,
+      isMobile: device.isMobile,
+      hasTouch: device.hasTouch,
+      userAgent: device.userAgent,
+    }
+  }
+
+  throw new Error(
+    `Unknown viewport "${viewport}". Use mobile, tablet, desktop, a Playwright device name (e.g. "iPhone 13") or a { name, width, height } profile`
+  )
+}
+
+/**
+ * Resolve configured viewports, keyed by profile name (later duplicates are ignored)
+ */
+export function resolveViewports(viewports: ViewportConfig[]): Map<string, Viewport> {
+  const profiles = new Map<string, Viewport>()
+  for (const viewport of viewports) {
+    const profile = resolveViewport(viewport)
+    if (!profiles.has(profile.name)) {
+      profiles.set(profile.name, profile)
+    }
+  }
+  return profiles
+}
+
+/**
+ * Whether touch-target sizes matter for a profile
+ */
+export function isTouchProfile(viewport: Viewport): boolean {
+  return viewport.hasTouch ?? viewport.isMobile ?? false
+}
@@ -0,0 +1,148 @@
+/**
+ * Dialogs - Answers native dialogs and collects popup windows
+ *
+ * Without a listener Playwright dismisses every dialog, and a beforeunload
+ * prompt blocks navigating away. The watcher answers each confirm() and
+ * prompt() by the policy (or the action's own answer) - dismissing them
+ * unless accepting is configured, so a confirm() on "Delete" doesn't delete
+ * by accident - always lets the page unload, and records what was shown so it can be
+ * attached to the transition. Popups and new tabs opened by a page are kept
+ * until the explorer takes them.
+ */
+
+import type { Dialog, Page } from 'playwright'
+import type { Action, DialogConfig, DialogResponse, Issue, NativeDialog } from './types.js'
+
+const DEFAULT_CONFIG: DialogConfig = {
+  policy: 'dismiss',
+  expectedAlerts: [],
+  followPopups: true,
+}
+
+/**
+ * Watches pages for native dialogs and popups
+ */
+export class DialogWatcher {
+  private config: DialogConfig
+  private responses: WeakMap<Page, DialogResponse> = new WeakMap()
+  private dialogs: WeakMap<Page, NativeDialog[]> = new WeakMap()
+  private popups: WeakMap<Page, Page[]> = new WeakMap()
+
+  constructor(config: DialogConfig = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config }
+  }
+
+  /** Whether each answer to a confirmation is explored as its own transition */
+  get exploresBoth(): boolean {
+    return this.config.policy === 'both'
+  }
+
+  /**
+   * Start answering a page's dialogs and collecting its popups
+   */
+  watch(page: Page): void {
+    this.dialogs.set(page, [])
+    this.popups.set(page, [])
+
+    page.on('dialog', (dialog) => void this.answer(page, dialog))
+    page.on('popup', (popup) => {
+      if (this.config.followPopups) {
+        this.popups.get(page)?.push(popup)
+      } else {
+        void popup.close().catch(() => {})
+      }
+    })
+  }
+
+  /**
+   * Set how the page's next confirm() and prompt() dialogs are answered
+   */
+  respondWith(page: Page, response?: DialogResponse): void {
+    this.responses.set(page, response || (this.config.policy === 'dismiss' ? 'dismiss' : 'accept'))
+  }
+
+  /**
+   * Dialogs shown since the last call
+   */
+  take(page: Page): NativeDialog[] {
+    const dialogs = this.dialogs.get(page) || []
+    this.dialogs.set(page, [])
+    return dialogs
+  }
+
+  /**
+   * Popups opened since the last call
+   */
+  takePopups(page: Page): Page[] {
+    const popups = this.popups.get(page) || []
+    this.popups.set(page, [])
+    return popups
+  }
+
+  /**
+   * Close popups nobody took (opened while reaching a state, not by an action)
+   */
+  async closePopups(page: Page): Promise<void> {
+    await Promise.all(this.takePopups(page).map((popup) => popup.close().catch(() => {})))
+  }
+
+  /**
+   * Report alert() dialogs that aren't in `expectedAlerts`. Without an action
+   * the alerts were shown while loading the state.
+   */
+  alertIssues(dialogs: NativeDialog[], viewport: string, action?: Action): Issue[] {
+    return dialogs
+      .filter((dialog) => dialog.type === 'alert' && !this.isExpected(dialog.message))
+      .map((dialog) => ({
+        type: 'functional' as const,
+        severity: 'moderate' as const,
+        rule: 'unexpected-alert',
+        description: action
+          ? `"${action.label}" showed an alert: "${dialog.message}"`
+          : `An alert was shown while loading the page: "${dialog.message}"`,
+        elements: action ? [action.selector] : [],
+        viewport,
+        details: { message: dialog.message },
+      }))
+  }
+
+  /**
+   * Whether an alert message matches one of the expected alerts
+   */
+  private isExpected(message: string): boolean {
+    return (this.config.expectedAlerts || []).some((pattern) =>
+      typeof pattern === 'string' ? message.includes(pattern) : pattern.test(message)
+    )
+  }
+
+  /**
+   * Answer a dialog and record it. Alerts can only be accepted, and unloading
+   * is always allowed so the explorer can navigate back.
+   */
+  private async answer(page: Page, dialog: Dialog): Promise<void> {
+    const type = dialog.type() as NativeDialog['type']
+    const response: DialogResponse =
+      type === 'confirm' || type === 'prompt'
+        ? this.responses.get(page) || (this.config.policy === 'dismiss' ? 'dismiss' : 'accept')
+        : 'accept'
+    const value =
+      type === 'prompt' && response === 'accept' ? this.config.promptValue ?? dialog.defaultValue() : undefined
+
+    this.dialogs.get(page)?.push({
+      type,
+      message: dialog.message(),
+      response,
+      ...(value !== undefined && { value }),
+    })
+
+    try {
+      if (response === 'accept') {
+        await dialog.accept(value)
+      } else {
+        await dialog.dismiss()
+      }
+    } catch {
+      // The page closed while the dialog was open
+    }
+  }
+}
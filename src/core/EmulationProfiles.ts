@@ -0,0 +1,67 @@
+/**
+ * EmulationProfiles - Resolves configured user-preference emulation profiles
+ *
+ * A profile can be given as:
+ * - a built-in name: `dark`, `reduced-motion`, `forced-colors`
+ * - a locale or timezone shorthand: `locale:de-DE`, `timezone:Asia/Tokyo`
+ * - a custom profile: `{ name: 'dark-ja', colorScheme: 'dark', locale: 'ja-JP', timezoneId: 'Asia/Tokyo' }`
+ */
+
+import type { EmulationConfig, EmulationName, EmulationProfile } from './types.js'
+
+const BUILT_IN_PROFILES: Record<EmulationName, EmulationProfile> = {
+  dark: { name: 'dark', colorScheme: 'dark' },
+  'reduced-motion': { name: 'reduced-motion', reducedMotion: 'reduce' },
+  'forced-colors': { name: 'forced-colors', forcedColors: 'active' },
+}
+
+/**
+ * Resolve one configured emulation profile
+ */
+export function resolveEmulationProfile(profile: EmulationConfig): EmulationProfile {
+  if (typeof profile === 'object') {
+    const { name, ...settings } = profile
+    if (!name || Object.values(settings).every((value) => value === undefined)) {
+      throw new Error(
+        `Invalid emulation profile ${JSON.stringify(profile)}: a name and at least one setting are required`
+      )
+    }
+    return { ...profile }
+  }
+
+  if (Object.prototype.hasOwnProperty.call(BUILT_IN_PROFILES, profile)) {
+    return { ...BUILT_IN_PROFILES[profile as EmulationName] }
+  }
+
+  const shorthand = profile.match(/^(locale|timezone):(.+)$/)
+  if (shorthand) {
+    const value = shorthand[2].trim()
+    return shorthand[1] === 'locale' ? { name: profile, locale: value } : { name: profile, timezoneId: value }
+  }
+
+  throw new Error(
+    `Unknown emulation profile "${profile}". Use dark, reduced-motion, forced-colors, locale:<locale>, timezone:<zone> or a { name, ... } profile`
+  )
+}
+
+/**
+ * Resolve configured emulation profiles (later duplicates by name are ignored)
+ */
+export function resolveEmulationProfiles(profiles: EmulationConfig[]): EmulationProfile[] {
+  const resolved = new Map<string, EmulationProfile>()
+  for (const profile of profiles) {
+    const emulation = resolveEmulationProfile(profile)
+    if (!resolved.has(emulation.name)) {
+      resolved.set(emulation.name, emulation)
+    }
+  }
+  return [...resolved.values()]
+}
+
+/**
+ * Whether a profile needs its own browser context (locale and timezone
+ * can't be changed on an open page)
+ */
+export function needsOwnContext(profile: EmulationProfile): boolean {
+  return profile.locale !== undefined || profile.timezoneId !== undefined
+}
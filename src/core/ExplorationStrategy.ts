@@ -0,0 +1,287 @@
+/**
+ * ExplorationStrategy - Decides which queued task the Explorer runs next
+ *
+ * Built-in strategies:
+ * - bfs: breadth-first (FIFO) - wide coverage of shallow states first
+ * - dfs: depth-first (LIFO) - reaches deep flows (wizards, checkouts) quickly
+ * - random: seeded random walk - follows random actions, restarting when stuck
+ * - novelty: prefers tasks reaching unseen pathnames or untried action labels
+ */
+
+import { createHash } from 'crypto'
+import type { ExplorationTask } from './types.js'
+
+export type StrategyName = 'bfs' | 'dfs' | 'random' | 'novelty'
+
+export const STRATEGY_NAMES: StrategyName[] = ['bfs', 'dfs', 'random', 'novelty']
+
+export interface ExplorationStrategy {
+  /** Strategy name (shown in reports and stored in checkpoints) */
+  readonly name: string
+
+  /** Number of pending tasks */
+  readonly size: number
+
+  /** Queue a task */
+  add(task: ExplorationTask): void
+
+  /** Take the next task to explore (undefined when empty) */
+  next(): ExplorationTask | undefined
+
+  /** Pending tasks in the order they would be taken */
+  toArray(): ExplorationTask[]
+
+  /** Replace pending tasks (given in the order they should be taken) */
+  load(tasks: ExplorationTask[]): void
+
+  /** State besides the pending tasks, as JSON, for checkpoints */
+  getState?(): unknown
+
+  /** Restore state from getState (after load) */
+  restoreState?(state: unknown): void
+}
+
+/**
+ * Deterministic pseudo-random number in [0, 1) for a task, derived from the
+ * run seed and the task's position in the exploration tree
+ */
+function seededRank(seed: number, task: ExplorationTask): number {
+  const hash = createHash('sha256')
+  hash.update(`${seed}:${(task.order || []).join('.')}:${task.viewport}`)
+  return parseInt(hash.digest('hex').slice(0, 8), 16) / 0x100000000
+}
+
+/**
+ * Pathname of a task's URL (falls back to the raw URL if unparseable)
+ */
+function taskPathname(task: ExplorationTask): string {
+  try {
+    return new URL(task.url).pathname
+  } catch {
+    return task.url
+  }
+}
+
+/**
+ * Breadth-first: first in, first out
+ */
+export class BreadthFirstStrategy implements ExplorationStrategy {
+  readonly name: string = 'bfs'
+  private queue: ExplorationTask[] = []
+
+  get size(): number {
+    return this.queue.length
+  }
+
+  add(task: ExplorationTask): void {
+    this.queue.push(task)
+  }
+
+  next(): ExplorationTask | undefined {
+    return this.queue.shift()
+  }
+
+  toArray(): ExplorationTask[] {
+    return [...this.queue]
+  }
+
+  load(tasks: ExplorationTask[]): void {
+    this.queue = [...tasks]
+  }
+}
+
+/**
+ * Depth-first: last in, first out
+ */
+export class DepthFirstStrategy implements ExplorationStrategy {
+  readonly name: string = 'dfs'
+  private stack: ExplorationTask[] = []
+
+  get size(): number {
+    return this.stack.length
+  }
+
+  add(task: ExplorationTask): void {
+    this.stack.push(task)
+  }
+
+  next(): ExplorationTask | undefined {
+    return this.stack.pop()
+  }
+
+  toArray(): ExplorationTask[] {
+    return [...this.stack].reverse()
+  }
+
+  load(tasks: ExplorationTask[]): void {
+    this.stack = [...tasks].reverse()
+  }
+}
+
+/**
+ * Seeded random walk: keeps following a random child of the last task taken,
+ * and jumps to a random pending task when the walk reaches a dead end.
+ * The same seed always produces the same walk.
+ */
+export class RandomWalkStrategy implements ExplorationStrategy {
+  readonly name: string = 'random'
+  private seed: number
+  private pending: ExplorationTask[] = []
+  private lastOrder: number[] | null = null
+
+  constructor(seed = 0) {
+    this.seed = seed
+  }
+
+  get size(): number {
+    return this.pending.length
+  }
+
+  add(task: ExplorationTask): void {
+    this.pending.push(task)
+  }
+
+  next(): ExplorationTask | undefined {
+    if (this.pending.length === 0) return undefined
+
+    // Continue the walk from the last task if it produced children
+    const parent = this.lastOrder
+    const children = parent
+      ? this.pending.filter((task) => {
+          const order = task.order || []
+          return order.length === parent.length + 1 && parent.every((n, i) => order[i] === n)
+        })
+      : []
+
+    const candidates = children.length > 0 ? children : this.pending
+    let chosen = candidates[0]
+    let best = seededRank(this.seed, chosen)
+    for (const task of candidates.slice(1)) {
+      const rank = seededRank(this.seed, task)
+      if (rank < best) {
+        best = rank
+        chosen = task
+      }
+    }
+
+    this.pending.splice(this.pending.indexOf(chosen), 1)
+    this.lastOrder = chosen.order || []
+    return chosen
+  }
+
+  toArray(): ExplorationTask[] {
+    return [...this.pending]
+  }
+
+  load(tasks: ExplorationTask[]): void {
+    this.pending = [...tasks]
+    this.lastOrder = null
+  }
+
+  getState(): { lastOrder: number[] | null } {
+    return { lastOrder: this.lastOrder }
+  }
+
+  restoreState(state: { lastOrder?: number[] | null }): void {
+    this.lastOrder = state.lastOrder ?? null
+  }
+}
+
+/**
+ * Novelty-first: scores each pending task by whether it reaches a pathname
+ * or uses an action label that hasn't been explored yet. Ties fall back to
+ * breadth-first order.
+ */
+export class NoveltyFirstStrategy implements ExplorationStrategy {
+  readonly name: string = 'novelty'
+  private pending: ExplorationTask[] = []
+  private seenPathnames: Set<string> = new Set()
+  private triedLabels: Set<string> = new Set()
+
+  get size(): number {
+    return this.pending.length
+  }
+
+  add(task: ExplorationTask): void {
+    this.pending.push(task)
+  }
+
+  next(): ExplorationTask | undefined {
+    if (this.pending.length === 0) return undefined
+
+    let bestIndex = 0
+    let bestScore = this.score(this.pending[0])
+    for (let i = 1; i < this.pending.length; i++) {
+      const score = this.score(this.pending[i])
+      if (score > bestScore || (score === bestScore && this.pending[i].depth < this.pending[bestIndex].depth)) {
+        bestScore = score
+        bestIndex = i
+      }
+    }
+
+    const [task] = this.pending.splice(bestIndex, 1)
+    this.seenPathnames.add(taskPathname(task))
+    const label = this.lastLabel(task)
+    if (label) this.triedLabels.add(label)
+
+    return task
+  }
+
+  toArray(): ExplorationTask[] {
+    return [...this.pending]
+  }
+
+  load(tasks: ExplorationTask[]): void {
+    this.pending = [...tasks]
+  }
+
+  getState(): { seenPathnames: string[]; triedLabels: string[] } {
+    return { seenPathnames: [...this.seenPathnames], triedLabels: [...this.triedLabels] }
+  }
+
+  restoreState(state: { seenPathnames?: string[]; triedLabels?: string[] }): void {
+    this.seenPathnames = new Set(state.seenPathnames)
+    this.triedLabels = new Set(state.triedLabels)
+  }
+
+  /**
+   * Novelty score: unseen pathnames count double, untried labels once
+   */
+  private score(task: ExplorationTask): number {
+    let score = 0
+    if (!this.seenPathnames.has(taskPathname(task))) score += 2
+    const label = this.lastLabel(task)
+    if (label && !this.triedLabels.has(label)) score += 1
+    return score
+  }
+
+  private lastLabel(task: ExplorationTask): string | undefined {
+    const action = task.path[task.path.length - 1]
+    return action ? `${action.type}:${action.label.toLowerCase()}` : undefined
+  }
+}
+
+/**
+ * Check whether a name is a built-in strategy
+ */
+export function isStrategyName(name: string): name is StrategyName {
+  return (STRATEGY_NAMES as string[]).includes(name)
+}
+
+/**
+ * Create a built-in strategy by name
+ */
+export function createStrategy(name: StrategyName | string = 'bfs', seed = 0): ExplorationStrategy {
+  switch (name) {
+    case 'bfs':
+      return new BreadthFirstStrategy()
+    case 'dfs':
+      return new DepthFirstStrategy()
+    case 'random':
+      return new RandomWalkStrategy(seed)
+    case 'novelty':
+      return new NoveltyFirstStrategy()
+    default:
+      throw new Error(`Unknown exploration strategy "${name}". Use one of: ${STRATEGY_NAMES.join(', ')}`)
+  }
+}
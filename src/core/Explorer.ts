@@ -1,19 +1,44 @@
 /**
  * Explorer - Main crawl loop for exhaustive UI exploration
  *
- * Uses BFS to systematically explore all states and actions in a web application,
- * running validators and verifying expectations at each step.
+ * Systematically explores all states and actions in a web application (BFS by
+ * default, see ExplorationStrategy), running validators and verifying
+ * expectations at each step. Tasks are pulled from a shared queue by a pool of
+ * workers, each with its own browser contexts (one per engine and device
+ * profile). Several engines can be explored in one run.
+ *
+ * Results don't depend on which worker finishes first: a state reached
+ * several ways belongs to the lowest-order path (see compareOrder), states
+ * are reported in that order, and with several workers `maxStates` keeps the
+ * states that come first in it.
  */
 
 import { chromium, firefox, webkit, type Browser, type BrowserContext, type Page } from 'playwright'
 import { StateManager } from './StateManager.js'
-import { ActionDiscovery } from './ActionDiscovery.js'
+import { ActionDiscovery, locateAction, resolveHoverConfig, resolveScrollConfig } from './ActionDiscovery.js'
+import { chooseUploadFile, uploadFileName, verifyUpload } from './Uploads.js'
+import { changedData, checkFormErrors, invalidInputIssues, invalidProbes, type InvalidProbe } from './InvalidInputs.js'
+import { KeyboardNavigator } from './KeyboardNavigator.js'
+import { DialogWatcher } from './Dialogs.js'
+import { LoginFlow } from './Login.js'
+import { SafetyPolicy } from './Safety.js'
+import { FormFiller } from './FormFiller.js'
+import { diffAccessibilityTrees, findAccessibilityDiffIssues } from './AccessibilityTree.js'
+import { WorkerPool } from './WorkerPool.js'
+import { createStrategy, isStrategyName, type ExplorationStrategy } from './ExplorationStrategy.js'
+import { CrawlScope } from './CrawlScope.js'
+import { RouteSampler, templateToRegExp } from './RouteTemplates.js'
+import { RouteSeeder, type SeedRoutes } from './RouteSeeds.js'
+import { resolveViewport, resolveViewports } from './DeviceProfiles.js'
+import { resolveEmulationProfiles, needsOwnContext } from './EmulationProfiles.js'
+import { CheckpointStore, CHECKPOINT_VERSION, type ExplorationCheckpoint } from './Checkpoint.js'
 import { AdapterRegistry } from '../adapters/BaseAdapter.js'
 import { SupabaseAdapter } from '../adapters/SupabaseAdapter.js'
 import { AccessibilityValidator } from '../validators/AccessibilityValidator.js'
 import { ResponsiveValidator } from '../validators/ResponsiveValidator.js'
 import { BrokenLinksValidator } from '../validators/BrokenLinksValidator.js'
 import { NetworkValidator } from '../validators/NetworkValidator.js'
+import { FocusValidator } from '../validators/FocusValidator.js'
 import type {
   ExplorerConfig,
   ExplorationResult,
@@ -29,18 +54,18 @@ import type {
   StateGraph,
   StateNode,
   StateTransition,
-  ViewportName,
+  AccessibilityTreeDiff,
+  NativeDialog,
+  Viewport,
+  BrowserName,
+  EmulationProfile,
   ExplorerEvent,
   ExplorerEventHandler,
   SetupStep,
+  SeedConfig,
+  StopReason,
 } from './types.js'
 
-const DEFAULT_VIEWPORTS: Record<ViewportName, { width: number; height: number }> = {
-  mobile: { width: 375, height: 667 },
-  tablet: { width: 768, height: 1024 },
-  desktop: { width: 1280, height: 720 },
-}
-
 const DEFAULT_CONFIG: Partial<ExplorerConfig> = {
   exploration: {
     maxDepth: 10,
@@ -50,6 +75,9 @@ const DEFAULT_CONFIG: Partial<ExplorerConfig> = {
     viewports: ['mobile', 'desktop'],
     waitForNetworkIdle: true,
     actionDelay: 100,
+    concurrency: 1,
+    strategy: 'bfs',
+    seed: 0,
   },
   validators: {
     accessibility: { enabled: true, rules: ['wcag21aa'] },
@@ -57,52 +85,198 @@ const DEFAULT_CONFIG: Partial<ExplorerConfig> = {
     console: { enabled: true, failOnError: false },
     network: { enabled: true, maxResponseTime: 3000, checkMixedContent: true },
     brokenLinks: { enabled: true, checkExternal: true, checkInternal: true, timeout: 5000 },
+    // Tabbing through every state is slow, so focus checks are opt-in
+    focus: { enabled: false },
   },
   output: {
     dir: './ui-explorer-reports',
     formats: ['html', 'json'],
     screenshots: true,
     screenshotFormat: 'png',
+    checkpointInterval: 25,
   },
   headless: true,
   browser: 'chromium',
   ignore: [],
 }
 
+/**
+ * Per-worker browser resources. Console errors and network requests are
+ * collected per worker so concurrent pages don't mix their reports.
+ * Device emulation is fixed when a context is created, so each worker keeps
+ * one context per device profile.
+ */
+interface ExplorationWorker {
+  id: number
+  contexts: Map<string, BrowserContext>
+  consoleErrors: Array<{ message: string; url: string }>
+  networkValidator: NetworkValidator
+}
+
+/**
+ * Compare two task orders: shallower first, then by branch indices.
+ * Matches the order a single-worker BFS visits states in.
+ */
+function compareOrder(a: number[] = [], b: number[] = []): number {
+  if (a.length !== b.length) return a.length - b.length
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i]
+  }
+  return 0
+}
+
+/**
+ * Check if a task order starts with another
+ */
+function hasPrefix(order: number[] = [], prefix: number[]): boolean {
+  return order.length >= prefix.length && prefix.every((n, i) => order[i] === n)
+}
+
+/**
+ * A subtree of the exploration moved under a lower-order path to its root state
+ */
+interface Reroot {
+  from: number[]
+  to: number[]
+  /** Path of the lower-order task */
+  path: Action[]
+}
+
+/**
+ * Move a task in a rerooted subtree under its new root, or return null if
+ * the task isn't in the subtree
+ */
+function rerootTask(task: ExplorationTask, { from, to, path }: Reroot): ExplorationTask | null {
+  const order = task.order || []
+  if (!hasPrefix(order, from)) return null
+
+  return {
+    ...task,
+    order: [...to, ...order.slice(from.length)],
+    // Paths through a popup start at the popup's URL and don't change
+    path: task.path.length === order.length - 1 ? [...path, ...task.path.slice(from.length - 1)] : task.path,
+    depth: task.depth - from.length + to.length,
+  }
+}
+
+/**
+ * Check if a task order is a direct child of another
+ */
+function isChildOrder(child: number[] = [], parent: number[] = []): boolean {
+  return child.length === parent.length + 1 && parent.every((n, i) => child[i] === n)
+}
+
+/**
+ * Path and query of a URL, ignoring trailing slashes
+ */
+function routeKey(url: string): string {
+  try {
+    const parsed = new URL(url)
+    return (parsed.pathname.replace(/\/+$/, '') || '/') + parsed.search
+  } catch {
+    return url
+  }
+}
+
 export class Explorer {
   private config: ExplorerConfig
   private stateManager: StateManager
   private actionDiscovery: ActionDiscovery
+  private keyboard: KeyboardNavigator
+  private dialogWatcher: DialogWatcher
+  private loginFlow: LoginFlow | null
+  private safety: SafetyPolicy
+  private formFiller: FormFiller
   private adapters: AdapterRegistry
   private accessibilityValidator: AccessibilityValidator
   private responsiveValidator: ResponsiveValidator
   private brokenLinksValidator: BrokenLinksValidator
-  private networkValidator: NetworkValidator
+  private focusValidator: FocusValidator
 
-  private browser: Browser | null = null
-  private context: BrowserContext | null = null
+  /** Launched engines (launched on first use) */
+  private browsers: Map<BrowserName, Promise<Browser>> = new Map()
+  /** Engines to explore with */
+  private engines: BrowserName[]
+  private workers: ExplorationWorker[] = []
 
   private graph: StateGraph
   private visited: Set<string> = new Set()
-  private queue: ExplorationTask[] = []
+  private queue: ExplorationStrategy
+  private stateOrder: Map<string, number[]> = new Map()
+  /** Tasks being explored right now, with the state each one claimed */
+  private inFlight: Map<ExplorationTask, string | null> = new Map()
+  /** Subtrees moved under lower-order paths, applied to tasks their in-flight tasks queue */
+  private reroots: Reroot[] = []
+  /** Tasks set aside as too deep or past the state budget, until a shorter path turns up */
+  private parked: ExplorationTask[] = []
+  private checkpoints: CheckpointStore
+  private scope: CrawlScope
+  private routes: RouteSampler
+  /** Device profiles to explore, by name */
+  private viewports: Map<string, Viewport>
+  /** User-preference profiles each state is validated under */
+  private emulation: EmulationProfile[]
+  private seeds: SeedRoutes = { urls: [], patterns: [] }
+  /** Set once the run has been asked to stop early */
+  private stopRequest: { reason: StopReason; message: string } | null = null
+  /** When the time budget runs out (null = no budget) */
+  private deadline: number | null = null
+  /** Dialogs whose focus handling was checked, by dialog, trigger, viewport and engine */
+  private focusChecked: Set<string> = new Set()
+  /** Storage state saved after global setup (when `setupStorageState` is set) */
+  private setupState: Awaited<ReturnType<BrowserContext['storageState']>> | null = null
+  /** Out-of-scope navigation blocked on each page during the current action */
+  private blockedNavigations: WeakMap<Page, string> = new WeakMap()
+  /** Labels of actions the safety policy didn't perform, by URL */
+  private skippedBySafety: Map<string, Set<string>> = new Map()
 
   private eventHandlers: ExplorerEventHandler[] = []
-  private consoleErrors: Array<{ message: string; url: string }> = []
-  private networkErrors: Array<{ url: string; status: number; method: string }> = []
 
   constructor(config: ExplorerConfig) {
     this.config = this.mergeConfig(config)
+    if (this.config.testDataSeed === undefined) {
+      // A fresh seed each run; kept in the config so checkpoints resume with the same data
+      this.config.testDataSeed = Math.floor(Math.random() * 0x7fffffff)
+    }
+
+    this.routes = new RouteSampler(this.config.exploration?.routeTemplates)
+
+    this.viewports = resolveViewports(this.config.exploration?.viewports || ['desktop'])
+    this.emulation = resolveEmulationProfiles(this.config.emulation || [])
+
+    this.engines = this.config.browsers?.length
+      ? [...new Set(this.config.browsers)]
+      : [this.config.browser || 'chromium']
 
     this.stateManager = new StateManager({
       includeQueryParams: true,
       sensitivity: 'medium',
+      routeTemplate: (url) => this.routes.templateFor(url),
+      accessibilityTree: this.config.exploration?.accessibilityTree,
     })
 
+    this.safety = new SafetyPolicy(this.config.safety)
+
     this.actionDiscovery = new ActionDiscovery({
       ignoreSelectors: this.config.ignore,
       maxActions: this.config.exploration?.maxActionsPerState || 50,
+      scroll: resolveScrollConfig(this.config.exploration?.scroll),
+      hover: resolveHoverConfig(this.config.exploration?.hover),
+      destructivePatterns: this.safety.destructivePatterns,
     })
 
+    this.keyboard = new KeyboardNavigator()
+
+    this.dialogWatcher = new DialogWatcher(this.config.dialogs)
+
+    this.formFiller = new FormFiller({
+      testData: this.config.testData,
+      seed: this.config.exploration?.seed,
+      dataSeed: this.config.testDataSeed,
+    })
+
+    this.loginFlow = this.config.login ? new LoginFlow(this.config.login, this.config.baseUrl) : null
+
     this.adapters = new AdapterRegistry()
 
     this.accessibilityValidator = new AccessibilityValidator(
@@ -117,9 +291,20 @@ export class Explorer {
       this.config.validators?.brokenLinks
     )
 
-    this.networkValidator = new NetworkValidator(
-      this.config.validators?.network
-    )
+    this.focusValidator = new FocusValidator(this.config.validators?.focus)
+
+    this.checkpoints = new CheckpointStore(this.config.output?.dir || '.')
+
+    this.scope = new CrawlScope(this.config.exploration?.scope, [
+      this.config.baseUrl,
+      ...(this.config.startUrls || []),
+    ])
+
+    const strategy = this.config.exploration?.strategy
+    this.queue =
+      typeof strategy === 'object'
+        ? strategy
+        : createStrategy(strategy, this.config.exploration?.seed)
 
     this.graph = {
       states: new Map(),
@@ -188,41 +373,207 @@ export class Explorer {
    * Start the exploration
    */
   async explore(): Promise<ExplorationResult> {
+    // Add start URLs to queue
+    const startUrls = this.config.startUrls || [this.config.baseUrl]
+    // Start URLs are always explored, and count towards their template's samples
+    this.routes.restore(startUrls)
+    let startIndex = 0
+    for (const url of startUrls) {
+      if (!this.scope.isInScope(url)) {
+        this.emit({ type: 'warning', message: `Start URL is outside the crawl scope, skipping: ${url}` })
+        continue
+      }
+      for (const task of this.startTasks(url)) {
+        this.queue.add({ ...task, order: [startIndex++] })
+      }
+    }
+
+    // Routes from sitemaps and manifests are explored after the start URLs
+    if (this.config.exploration?.seeds) {
+      this.seeds = await this.discoverSeeds(this.config.exploration.seeds)
+
+      const startKeys = new Set(startUrls.map(routeKey))
+      for (const url of this.seeds.urls) {
+        if (startKeys.has(routeKey(url))) continue
+        if (!this.scope.isInScope(url) || !this.routes.admit(url)) continue
+        for (const task of this.startTasks(url)) {
+          this.queue.add({ ...task, order: [startIndex++] })
+        }
+      }
+    }
+
+    return this.run()
+  }
+
+  /**
+   * Start tasks for a URL: one per engine and viewport
+   */
+  private startTasks(url: string): ExplorationTask[] {
+    return this.engines.flatMap((browser) =>
+      Array.from(this.viewports.keys(), (viewport) => ({ url, path: [], depth: 0, viewport, browser }))
+    )
+  }
+
+  /**
+   * Collect seed routes, reporting problems as warnings
+   */
+  private async discoverSeeds(config: SeedConfig): Promise<SeedRoutes> {
+    const seeder = new RouteSeeder(config, this.config.baseUrl)
+    const seeds = await seeder.discover()
+
+    for (const message of seeder.getWarnings()) {
+      this.emit({ type: 'warning', message })
+    }
+
+    return seeds
+  }
+
+  /**
+   * Continue an interrupted exploration from a checkpoint.
+   * The explorer should be constructed with the checkpoint's config (and the
+   * same custom strategy, if the run used one).
+   */
+  async resume(checkpoint: ExplorationCheckpoint): Promise<ExplorationResult> {
+    this.graph.metadata.startTime = checkpoint.startTime
+    this.graph.startStates = [...checkpoint.startStates]
+
+    for (const { order, ...node } of checkpoint.states) {
+      this.graph.states.set(node.state.id, node)
+      this.visited.add(node.state.id)
+      this.stateOrder.set(node.state.id, order)
+    }
+
+    this.queue.load(checkpoint.queue)
+    this.parked = [...(checkpoint.parked || [])]
+    if (checkpoint.strategy && checkpoint.strategy.name !== this.queue.name) {
+      this.emit({
+        type: 'warning',
+        message: `Checkpoint was saved with the "${checkpoint.strategy.name}" strategy, resuming with "${this.queue.name}"`,
+      })
+    } else if (checkpoint.strategy?.state !== undefined) {
+      this.queue.restoreState?.(checkpoint.strategy.state)
+    }
+
+    this.focusChecked = new Set(checkpoint.focusChecked)
+    if (checkpoint.generated) {
+      this.formFiller.restoreState(checkpoint.generated)
+    }
+
+    const missingGenerators = (checkpoint.testDataGenerators || []).filter(
+      (key) => typeof this.config.testData?.[key] !== 'function'
+    )
+    if (missingGenerators.length) {
+      this.emit({
+        type: 'warning',
+        message: `testData functions aren't saved in checkpoints; resuming without ${missingGenerators.join(', ')}`,
+      })
+    }
+
+    this.routes.restore(
+      [
+        ...checkpoint.states.map((node) => node.state.url),
+        ...[...checkpoint.queue, ...this.parked].map((task) => task.url),
+      ],
+      checkpoint.skippedByTemplate
+    )
+
+    for (const [url, labels] of Object.entries(checkpoint.skippedBySafety || {})) {
+      this.skippedBySafety.set(url, new Set(labels))
+    }
+
+    if (checkpoint.seeds) {
+      this.seeds = checkpoint.seeds
+    }
+
+    return this.run()
+  }
+
+  /**
+   * Stop the exploration early. Workers stop taking new tasks, abandon the
+   * current one at the next action, and the result is built from what was
+   * explored so far (marked as partial).
+   */
+  stop(reason: StopReason = 'stopped', message = 'Exploration was stopped'): void {
+    if (this.stopRequest) return
+
+    this.stopRequest = { reason, message }
+    this.emit({ type: 'stopping', reason, message })
+  }
+
+  /**
+   * Check whether the run should wind down (stop requested or time budget used up)
+   */
+  private isStopping(): boolean {
+    if (!this.stopRequest && this.deadline !== null && Date.now() >= this.deadline) {
+      const seconds = Math.round((this.config.exploration?.maxDuration || 0) / 1000)
+      this.stop('max-duration', `Time budget of ${seconds}s used up`)
+    }
+    return this.stopRequest !== null
+  }
+
+  /**
+   * Run the main exploration loop until the queue is drained
+   */
+  private async run(): Promise<ExplorationResult> {
     this.emit({ type: 'start', config: this.config })
 
+    const maxDuration = this.config.exploration?.maxDuration
+    this.deadline = maxDuration ? Date.now() + maxDuration : null
+
     try {
       await this.initialize()
 
-      // Add start URLs to queue
-      const startUrls = this.config.startUrls || [this.config.baseUrl]
-      for (const url of startUrls) {
-        for (const viewport of this.config.exploration?.viewports || ['desktop']) {
-          this.queue.push({ url, path: [], depth: 0, viewport })
-        }
-      }
+      // Main exploration loop - workers share the queue and visited set. With
+      // several workers, lower-order tasks still run once the state budget is
+      // full (nextTask sets the rest aside)
+      const pool = new WorkerPool<ExplorationTask>({
+        concurrency: this.workers.length,
+        next: () => this.nextTask(),
+        shouldStop: () =>
+          this.isStopping() ||
+          (this.workers.length === 1 && this.visited.size >= (this.config.exploration?.maxStates || 500)),
+      })
 
-      // Main exploration loop
-      while (this.queue.length > 0) {
-        const task = this.queue.shift()!
+      const checkpointInterval = this.config.output?.checkpointInterval || 0
+      let completedTasks = 0
 
-        // Check limits
-        if (task.depth > (this.config.exploration?.maxDepth || 10)) continue
-        if (this.visited.size >= (this.config.exploration?.maxStates || 500)) break
+      await pool.run(async (task, workerId) => {
+        this.inFlight.set(task, null)
+        let abandoned = false
+        try {
+          abandoned = !(await this.exploreTask(this.workers[workerId], task))
+        } finally {
+          // Abandoned tasks stay in flight so a checkpoint re-runs them on resume
+          if (!abandoned) this.inFlight.delete(task)
+        }
 
-        await this.exploreTask(task)
+        // Periodic checkpoint
+        completedTasks++
+        if (checkpointInterval > 0 && completedTasks % checkpointInterval === 0) {
+          this.saveCheckpoint()
+        }
 
         // Progress update
         this.emit({
           type: 'progress',
           visited: this.visited.size,
-          queued: this.queue.length,
+          queued: this.queue.size,
           issues: this.getAllIssues().length,
         })
-      }
+      })
 
       this.graph.metadata.endTime = Date.now()
 
       const result = this.buildResult()
+
+      if (!this.stopRequest) {
+        // Run finished - nothing left to resume
+        this.checkpoints.clear()
+      } else if (checkpointInterval > 0) {
+        // Stopped early - leave a checkpoint so the rest can be explored later
+        this.saveCheckpoint()
+      }
+
       this.emit({ type: 'complete', result })
 
       return result
@@ -235,25 +586,182 @@ export class Explorer {
   }
 
   /**
-   * Initialize browser and adapters
+   * Take the next task from the strategy. Tasks beyond max depth, or after
+   * the last state that fits in a full state budget, are set aside (a shorter
+   * path to a state found later brings them back).
+   */
+  private nextTask(): ExplorationTask | undefined {
+    const maxDepth = this.config.exploration?.maxDepth || 10
+    const cutoff = this.budgetCutoff()
+
+    let task = this.queue.next()
+    while (task && (task.depth > maxDepth || (cutoff && compareOrder(task.order, cutoff) > 0))) {
+      this.parked.push(task)
+      task = this.queue.next()
+    }
+
+    return task
+  }
+
+  /**
+   * Order of the last state that fits in the state budget, once it is full
+   */
+  private budgetCutoff(): number[] | null {
+    const maxStates = this.config.exploration?.maxStates || 500
+    if (this.visited.size < maxStates) return null
+
+    return Array.from(this.stateOrder.values()).sort(compareOrder)[maxStates - 1]
+  }
+
+  /**
+   * Apply the subtrees moved so far to a task queued by an in-flight task
+   * (which still has its old order)
+   */
+  private rerooted(task: ExplorationTask): ExplorationTask {
+    let result = task
+    for (let i = 0; i < this.reroots.length; i++) {
+      const moved = rerootTask(result, this.reroots[i])
+      if (moved) {
+        result = moved
+        // Earlier subtrees may now contain it
+        i = -1
+      }
+    }
+    return result
+  }
+
+  /**
+   * Move a claimed state under a task that reached it too, if the task comes
+   * first in task order
+   */
+  private keepLowestOrder(stateId: string, task: ExplorationTask): void {
+    const order = this.stateOrder.get(stateId) || []
+    if (compareOrder(task.order, order) < 0) {
+      this.reroot(order, task)
+    }
+  }
+
+  /**
+   * A lower-order path reached a state another task claimed: move the state,
+   * and everything explored or queued below it, under the lower-order task.
+   * This is the path a single worker would have claimed the state by.
+   */
+  private reroot(from: number[], task: ExplorationTask): void {
+    const reroot: Reroot = { from, to: task.order || [], path: task.path }
+    this.reroots.push(reroot)
+
+    for (const [id, order] of this.stateOrder) {
+      if (hasPrefix(order, from)) {
+        this.stateOrder.set(id, [...reroot.to, ...order.slice(from.length)])
+      }
+    }
+
+    // Loading tasks resets some strategies' state, which the new orders don't change
+    const strategyState = this.queue.getState?.()
+    this.queue.load(this.queue.toArray().map((queued) => rerootTask(queued, reroot) || queued))
+    if (strategyState !== undefined) {
+      this.queue.restoreState?.(strategyState)
+    }
+
+    // Moved tasks go back in the queue; nextTask sets them aside again if still needed
+    const parked = this.parked
+    this.parked = []
+    for (const aside of parked) {
+      const moved = rerootTask(aside, reroot)
+      if (moved) {
+        this.queue.add(moved)
+      } else {
+        this.parked.push(aside)
+      }
+    }
+  }
+
+  /**
+   * Initialize browsers and adapters
    */
   private async initialize(): Promise<void> {
-    // Launch browser
-    const browserType =
-      this.config.browser === 'firefox'
-        ? firefox
-        : this.config.browser === 'webkit'
-          ? webkit
-          : chromium
-
-    this.browser = await browserType.launch({
-      headless: this.config.headless ?? true,
-    })
+    // Launch browsers up front so a missing engine fails the run early
+    for (const engine of this.engines) {
+      await this.browserFor(engine)
+    }
 
-    // Create context with auth if provided
-    const contextOptions: Parameters<Browser['newContext']>[0] = {}
+    // Workers share the browsers, each with its own contexts
+    const concurrency = Math.max(1, this.config.exploration?.concurrency || 1)
+    for (let id = 0; id < concurrency; id++) {
+      this.workers.push(this.createWorker(id))
+    }
 
-    if (this.config.auth) {
+    // Initialize adapters
+    if (this.config.adapters?.supabase) {
+      const supabaseAdapter = new SupabaseAdapter()
+      await supabaseAdapter.connect(this.config.adapters.supabase)
+      this.adapters.register(supabaseAdapter)
+    }
+
+    // Add more adapters here as implemented
+  }
+
+  /**
+   * Get a launched browser for an engine, launching it on first use
+   */
+  private browserFor(engine: BrowserName): Promise<Browser> {
+    let browser = this.browsers.get(engine)
+    if (!browser) {
+      const browserType = engine === 'firefox' ? firefox : engine === 'webkit' ? webkit : chromium
+      browser = browserType.launch({ headless: this.config.headless ?? true })
+      this.browsers.set(engine, browser)
+    }
+    return browser
+  }
+
+  /**
+   * Create a worker (browser contexts are created per engine and device profile on first use)
+   */
+  private createWorker(id: number): ExplorationWorker {
+    return {
+      id,
+      contexts: new Map(),
+      consoleErrors: [],
+      networkValidator: new NetworkValidator(this.config.validators?.network),
+    }
+  }
+
+  /**
+   * Get the worker's browser context for an engine and device profile (and
+   * emulation profile, for locale/timezone passes), creating it if needed
+   */
+  private async contextFor(
+    worker: ExplorationWorker,
+    engine: BrowserName,
+    viewport: Viewport,
+    emulation?: EmulationProfile
+  ): Promise<BrowserContext> {
+    const key = emulation ? `${engine}:${viewport.name}:${emulation.name}` : `${engine}:${viewport.name}`
+    const existing = worker.contexts.get(key)
+    if (existing) return existing
+
+    // Emulate the device, with auth if provided
+    const contextOptions: Parameters<Browser['newContext']>[0] = {
+      viewport: { width: viewport.width, height: viewport.height },
+      deviceScaleFactor: viewport.deviceScaleFactor,
+      hasTouch: viewport.hasTouch,
+      userAgent: viewport.userAgent,
+      // Firefox doesn't support mobile emulation
+      isMobile: engine === 'firefox' ? undefined : viewport.isMobile,
+    }
+
+    if (emulation) {
+      contextOptions.colorScheme = emulation.colorScheme
+      contextOptions.reducedMotion = emulation.reducedMotion
+      contextOptions.forcedColors = emulation.forcedColors
+      contextOptions.locale = emulation.locale
+      contextOptions.timezoneId = emulation.timezoneId
+    }
+
+    // The state saved after global setup already includes any auth
+    if (this.setupState) {
+      contextOptions.storageState = this.setupState
+    } else if (this.config.auth) {
       contextOptions.storageState = this.config.auth
     }
 
@@ -262,50 +770,154 @@ export class Explorer {
       contextOptions.extraHTTPHeaders = this.config.extraHTTPHeaders
     }
 
-    this.context = await this.browser.newContext(contextOptions)
+    const browser = await this.browserFor(engine)
+    const context = await browser.newContext(contextOptions)
 
     // Add cookies if provided (for --cookie flag)
     if (this.config.cookies && this.config.cookies.length > 0) {
-      await this.context.addCookies(this.config.cookies)
+      await context.addCookies(this.config.cookies)
     }
 
-    // Set up console and network error tracking
-    this.context.on('console', (msg) => {
+    // Log in and run global setup, unless the context starts from the state they saved
+    if ((this.loginFlow || this.config.setup?.length) && !this.setupState) {
+      await this.prepareContext(context)
+    }
+    // Dry runs stub writes from here on; login and setup had to reach the server
+    await this.safety.blockWrites(context)
+    worker.contexts.set(key, context)
+
+    // Set up console error tracking
+    context.on('console', (msg) => {
       if (msg.type() === 'error') {
-        this.consoleErrors.push({
+        worker.consoleErrors.push({
           message: msg.text(),
           url: msg.location().url,
         })
       }
     })
 
-    // Initialize adapters
-    if (this.config.adapters?.supabase) {
-      const supabaseAdapter = new SupabaseAdapter()
-      await supabaseAdapter.connect(this.config.adapters.supabase)
-      this.adapters.register(supabaseAdapter)
+    return context
+  }
+
+  /**
+   * Log in and run the global setup steps in a new context, starting from
+   * baseUrl, and save the resulting storage state if configured. A context
+   * whose login or setup failed is closed, and the error ends the run once
+   * the other workers have finished their current tasks.
+   */
+  private async prepareContext(context: BrowserContext): Promise<void> {
+    const page = await context.newPage()
+    this.dialogWatcher.watch(page)
+
+    try {
+      await page.goto(this.config.baseUrl, {
+        timeout: this.config.exploration?.timeout || 10000,
+        waitUntil: 'load',
+      })
+      await this.waitForNetworkSettled(page)
+
+      if (this.loginFlow) {
+        await this.logIn(page)
+      }
+
+      try {
+        await this.executeSetup(page, this.config.setup || [])
+      } catch (error) {
+        throw new Error(`Global setup failed: ${(error as Error).message}`)
+      }
+
+      if (this.config.setupStorageState) {
+        this.setupState = await context.storageState({ path: this.config.setupStorageState })
+      }
+    } catch (error) {
+      await context.close()
+      throw error
+    } finally {
+      await this.dialogWatcher.closePopups(page)
+      await page.close().catch(() => {})
     }
+  }
 
-    // Add more adapters here as implemented
+  /**
+   * Log in through the login form, checking it worked
+   */
+  private async logIn(page: Page): Promise<void> {
+    const login = this.config.login!
+    await this.safety.withWrites(page, async () => {
+      await this.loginFlow!.submit(page, this.config.exploration?.timeout || 10000)
+      await this.waitForNetworkSettled(page)
+    })
+
+    const failure = login.success
+      ? (await this.verifyUiExpectations(page, login.success)).find((result) => !result.passed)?.message
+      : (await this.loginFlow!.isLoggedOut(page))
+        ? `still logged out at ${page.url()}`
+        : undefined
+    if (failure) {
+      throw new Error(`Login failed: ${failure}`)
+    }
   }
 
   /**
-   * Explore a single task (URL + viewport)
+   * If the page is logged out (the session expired, or an action logged out),
+   * log in again and return to the task's state. Returns false if the page is
+   * still logged out after the configured attempts.
    */
-  private async exploreTask(task: ExplorationTask): Promise<void> {
-    if (!this.context) return
+  private async restoreSession(page: Page, task: ExplorationTask): Promise<boolean> {
+    for (let attempt = 0; attempt < this.loginFlow!.maxAttempts; attempt++) {
+      if (!(await this.loginFlow!.isLoggedOut(page))) return true
 
-    const page = await this.context.newPage()
+      this.emit({ type: 'warning', message: `Logged out at ${page.url()}, logging in again` })
+      await this.logIn(page)
+      await page.goto(task.url, { timeout: this.config.exploration?.timeout || 10000, waitUntil: 'load' })
+      await this.waitForNetworkSettled(page)
+      await this.replayPath(page, task.path)
+    }
+    return !(await this.loginFlow!.isLoggedOut(page))
+  }
+
+  /**
+   * Close a worker's context and forget it, so the next task for its engine
+   * and profile gets a fresh one (which runs global setup again)
+   */
+  private async resetContext(worker: ExplorationWorker, context: BrowserContext): Promise<void> {
+    for (const [key, existing] of worker.contexts) {
+      if (existing === context) worker.contexts.delete(key)
+    }
+    await context.close().catch(() => {})
+  }
+
+  /**
+   * Explore a single task (URL + viewport).
+   * Returns false if the task was abandoned because the run is stopping.
+   */
+  private async exploreTask(worker: ExplorationWorker, task: ExplorationTask): Promise<boolean> {
+    // Tasks from a checkpoint may name a profile that is no longer configured
+    const viewport = this.viewports.get(task.viewport) || resolveViewport(task.viewport)
+    const engine = task.browser || this.engines[0]
+    const context = await this.contextFor(worker, engine, viewport)
+    const page = await context.newPage()
+    this.dialogWatcher.watch(page)
 
     // Attach network validator to track requests
     if (this.config.validators?.network?.enabled) {
-      this.networkValidator.attachToPage(page)
+      worker.networkValidator.attachToPage(page)
     }
 
     try {
-      // Set viewport
-      const viewportSize = DEFAULT_VIEWPORTS[task.viewport]
-      await page.setViewportSize(viewportSize)
+      // Block main-frame navigations that would leave the crawl scope
+      await page.route(
+        (url) => !this.scope.isInScope(url.href),
+        (route) => {
+          const request = route.request()
+          if (request.isNavigationRequest() && request.frame() === page.mainFrame()) {
+            this.blockedNavigations.set(page, request.url())
+            return route.abort('blockedbyclient')
+          }
+          // Let the context's routes (dry-run write stubbing) see the request
+          return route.fallback()
+        }
+      )
 
       // Navigate to URL (use 'load' and then smart network idle detection)
       await page.goto(task.url, {
@@ -325,19 +937,39 @@ export class Explorer {
       // Replay path to reach this state
       await this.replayPath(page, task.path)
 
+      // Logged-out pages are never recorded as states
+      if (this.loginFlow && !(await this.restoreSession(page, task))) {
+        this.emit({ type: 'warning', message: `Skipped ${task.url}: still logged out after logging in again` })
+        return true
+      }
+
       // Capture state
       const state = await this.stateManager.captureState(
         page,
         task.viewport,
-        this.adapters.getAll()
+        this.adapters.getAll(),
+        engine
       )
 
-      // Check if already visited
+      // Check if already visited, keeping the lowest-order path to the state
+      const claimant = this.rerooted(task)
       if (this.visited.has(state.id)) {
-        return
+        this.keepLowestOrder(state.id, claimant)
+        if (task.depth === 0 && !this.graph.startStates.includes(state.id)) {
+          this.graph.startStates.push(state.id)
+        }
+        return true
+      }
+
+      // Another worker filled the state budget with lower-order states
+      const cutoff = this.budgetCutoff()
+      if (cutoff && compareOrder(claimant.order, cutoff) > 0) {
+        return true
       }
 
       this.visited.add(state.id)
+      this.stateOrder.set(state.id, claimant.order || [])
+      this.inFlight.set(task, state.id)
       this.emit({ type: 'state:discovered', state })
 
       // Take screenshot if enabled
@@ -352,42 +984,147 @@ export class Explorer {
       }
 
       // Run validators
-      const issues = await this.runValidators(page, task.viewport)
+      const issues = await this.runValidators(page, viewport, worker)
+      issues.push(...(await this.runEmulationPasses(page, task, viewport, engine, worker, issues)))
+      for (const issue of issues) {
+        issue.stateId = state.id
+        issue.browser = engine
+      }
+
+      // Alerts shown while loading or reaching the state
+      issues.push(...this.dialogWatcher.alertIssues(this.dialogWatcher.take(page), task.viewport))
 
       // Add state to graph
-      this.addStateToGraph(state, issues)
+      this.addStateToGraph(state, issues, task.depth === 0)
 
       this.emit({ type: 'state:visited', state, issues })
 
-      // Discover actions
-      const actions = await this.actionDiscovery.discoverActions(page, this.config.ignore)
-      const prioritizedActions = this.actionDiscovery.prioritizeActions(actions)
+      // Discover actions and form submissions, with values for the fields they fill
+      const actions = this.formFiller.withValues([
+        ...(await this.actionDiscovery.discoverActions(page, this.config.ignore)),
+        ...(await this.actionDiscovery.getFormActions(page, this.config.ignore)),
+      ])
+      // Leave out actions the safety policy doesn't allow (schemas can mark actions destructive)
+      const allowedActions = actions.filter((action) => {
+        const destructive = action.destructive || !!this.findMatchingSchema(action, page)?.destructive
+        if (this.safety.allows({ ...action, destructive })) return true
+        this.skipUnsafe(state.url, action)
+        return false
+      })
+      const prioritizedActions = this.actionDiscovery.prioritizeActions(allowedActions)
 
       // Limit actions per state
       const maxActions = this.config.exploration?.maxActionsPerState || 50
-      const actionsToExplore = prioritizedActions.slice(0, maxActions)
+      let actionsToExplore = prioritizedActions.slice(0, maxActions)
+
+      // Keyboard mode: reach actions with key presses, reporting those the keyboard can't reach
+      if (this.config.exploration?.keyboard) {
+        const plan = await this.keyboard.plan(page, actionsToExplore)
+        for (const action of plan.unreachable) {
+          this.addIssue(state, this.keyboardIssue(action, task.viewport, 'keyboard-unreachable'))
+        }
+        actionsToExplore = plan.reachable
+
+        // Recording the tab order moved focus; start the actions from the initial focus
+        await page.goto(task.url, { waitUntil: 'load' })
+        await this.replayPath(page, task.path)
+      }
 
       // Explore each action
-      for (const action of actionsToExplore) {
-        await this.exploreAction(page, state, action, task)
+      for (const [index, action] of actionsToExplore.entries()) {
+        if (this.isStopping()) return false
+        const dialogs = await this.exploreAction(page, state, action, task, index)
+
+        // Explore declining the confirmation too
+        if (this.dialogWatcher.exploresBoth && dialogs.some((d) => d.type === 'confirm' || d.type === 'prompt')) {
+          if (this.isStopping()) return false
+          await this.exploreAction(page, state, { ...action, dialog: 'dismiss' }, task, index)
+        }
+      }
+
+      // Submit each form with invalid values and check how the errors are presented
+      if (this.config.exploration?.invalidInputs) {
+        for (const probe of actionsToExplore.flatMap((action) => invalidProbes(action))) {
+          if (this.isStopping()) return false
+          await this.probeInvalidInput(page, state, probe, task)
+        }
+      }
+
+      // Keyboard traps (dialogs are checked when an action opens them). Each
+      // action backtracked, so focus is back where the state starts.
+      if (this.config.validators?.focus?.enabled && !state.modalOpen) {
+        const result = await this.focusValidator.checkKeyboardTrap(page, task.viewport)
+        for (const issue of result.issues) {
+          this.addIssue(state, issue)
+        }
+        this.emit({ type: 'validation:complete', results: [result] })
       }
     } catch (error) {
       // Log exploration error but continue
       console.error(`Error exploring ${task.url}:`, error)
+
+      // The page or its context crashed - start the next task in a fresh context
+      if (page.isClosed()) {
+        await this.resetContext(worker, context)
+      }
+    } finally {
+      await this.dialogWatcher.closePopups(page)
+      await page.close().catch(() => {})
+    }
+
+    return true
+  }
+
+  /**
+   * Submit a form with an invalid value, report how the error was presented
+   * and whether anything was saved, then return to the state
+   */
+  private async probeInvalidInput(
+    page: Page,
+    state: AppState,
+    probe: InvalidProbe,
+    task: ExplorationTask
+  ): Promise<void> {
+    try {
+      const before = await this.adapters.captureAllStates()
+
+      this.blockedNavigations.delete(page)
+      await this.executeAction(page, probe.action)
+      await this.waitForNetworkSettled(page)
+      if (this.config.exploration?.actionDelay) {
+        await page.waitForTimeout(this.config.exploration.actionDelay)
+      }
+
+      const report = await checkFormErrors(page, probe)
+      const changed = changedData(before, await this.adapters.captureAllStates())
+      for (const issue of invalidInputIssues(probe, report, changed, task.viewport)) {
+        this.addIssue(state, issue)
+      }
+    } catch (error) {
+      this.emit({
+        type: 'warning',
+        message: `Could not submit "${probe.action.label}": ${(error as Error).message}`,
+      })
     } finally {
-      await page.close()
+      this.blockedNavigations.delete(page)
+      this.dialogWatcher.take(page)
+      this.safety.take(page)
+      await this.dialogWatcher.closePopups(page)
+      await page.goto(task.url, { waitUntil: 'load' })
+      await this.replayPath(page, task.path)
     }
   }
 
   /**
-   * Explore a single action
+   * Explore a single action. Returns the native dialogs it opened.
    */
   private async exploreAction(
     page: Page,
     fromState: AppState,
     action: DiscoveredAction,
-    task: ExplorationTask
-  ): Promise<void> {
+    task: ExplorationTask,
+    actionIndex: number
+  ): Promise<NativeDialog[]> {
     this.emit({ type: 'action:start', action, fromState: fromState.id })
 
     const startTime = Date.now()
@@ -404,8 +1141,31 @@ export class Explorer {
         await this.executeSetup(page, schema.setup)
       }
 
+      // Watch what the action changes, to rescan it afterwards
+      const rescan = !!(
+        this.config.validators?.accessibility?.enabled && this.config.validators.accessibility.afterActions
+      )
+      if (rescan) {
+        await this.accessibilityValidator.watchChanges(page)
+      }
+
       // Perform the action
-      await this.executeAction(page, action)
+      this.blockedNavigations.delete(page)
+      this.dialogWatcher.take(page)
+      this.safety.take(page)
+      await this.dialogWatcher.closePopups(page)
+      this.dialogWatcher.respondWith(page, action.dialog)
+      if (action.keys) {
+        if (!(await this.keyboard.perform(page, action))) {
+          // The key presses didn't focus the element (e.g. arrows in a widget that ignores them)
+          this.addIssue(fromState, this.keyboardIssue(action, task.viewport, 'keyboard-unreachable'))
+          await page.goto(task.url, { waitUntil: 'load' })
+          await this.replayPath(page, task.path)
+          return []
+        }
+      } else {
+        await this.executeAction(page, action)
+      }
 
       // Wait for network to settle (with graceful timeout for SPAs with polling)
       await this.waitForNetworkSettled(page)
@@ -415,11 +1175,58 @@ export class Explorer {
         await page.waitForTimeout(this.config.exploration.actionDelay)
       }
 
+      // Dialogs the action opened; unexpected alerts are reported against it
+      const dialogs = this.dialogWatcher.take(page)
+      const stubbedRequests = this.safety.take(page)
+      const transition = (toStateId: string) => ({ fromState: fromState.id, toState: toStateId, action: action.label })
+
+      // Windows and tabs the action opened become states of their own
+      for (const popup of this.dialogWatcher.takePopups(page)) {
+        await this.followPopup(popup, fromState, action, task, actionIndex)
+      }
+
+      // Action leads out of scope - record the boundary instead of exploring it
+      const boundary = this.takeScopeBoundary(page)
+      if (boundary) {
+        this.addTransitionToGraph(fromState.id, fromState.id, action, task.viewport, [], {
+          boundary,
+          dialogs,
+          stubbedRequests,
+        })
+        for (const issue of this.dialogWatcher.alertIssues(dialogs, task.viewport, action)) {
+          this.addIssue(fromState, { ...issue, transition: transition(fromState.id) })
+        }
+
+        this.emit({
+          type: 'action:complete',
+          result: {
+            action,
+            fromState: fromState.id,
+            toState: fromState.id,
+            success: true,
+            verifications: [],
+            duration: Date.now() - startTime,
+          },
+        })
+
+        await page.goto(task.url, { waitUntil: 'load' })
+        await this.replayPath(page, task.path)
+        return dialogs
+      }
+
+      // The action logged out (or the session expired) - log in again and
+      // return to the state instead of recording the login page
+      if (this.loginFlow && (await this.loginFlow.isLoggedOut(page))) {
+        await this.restoreSession(page, task)
+        return dialogs
+      }
+
       // Capture post-action state
       const toState = await this.stateManager.captureState(
         page,
         task.viewport,
-        this.adapters.getAll()
+        this.adapters.getAll(),
+        task.browser || this.engines[0]
       )
 
       // Verify expectations
@@ -430,8 +1237,40 @@ export class Explorer {
         verifications.push(...results)
       }
 
+      // Check the app reacted to the uploaded file
+      if (action.type === 'upload' && this.config.uploads?.verify !== false) {
+        const fileName = uploadFileName(chooseUploadFile(action.accept, this.config.uploads?.fixtures))
+        verifications.push(await verifyUpload(page, action, fileName, toState.id !== fromState.id))
+      }
+
+      // What changed for a screen reader
+      let accessibilityDiff: AccessibilityTreeDiff | undefined
+      if (fromState.accessibilityTree && toState.accessibilityTree) {
+        accessibilityDiff = diffAccessibilityTrees(fromState.accessibilityTree, toState.accessibilityTree)
+        const issues = findAccessibilityDiffIssues(accessibilityDiff, action, {
+          viewport: task.viewport,
+          navigated: toState.pathname !== fromState.pathname,
+        })
+        for (const issue of issues) {
+          this.addIssue(fromState, issue)
+        }
+      }
+
+      // Rescan what changed, unless the action led to a new state (which gets a full scan)
+      if (rescan && (toState.id === fromState.id || this.visited.has(toState.id))) {
+        await this.rescanAfterAction(page, fromState, toState, action, task.viewport)
+      }
+
+      for (const issue of this.dialogWatcher.alertIssues(dialogs, task.viewport, action)) {
+        this.addIssue(fromState, { ...issue, transition: transition(toState.id) })
+      }
+
       // Record transition
-      this.addTransitionToGraph(fromState.id, toState.id, action, task.viewport, verifications)
+      this.addTransitionToGraph(fromState.id, toState.id, action, task.viewport, verifications, {
+        accessibilityDiff,
+        dialogs,
+        stubbedRequests,
+      })
 
       this.emit({
         type: 'action:complete',
@@ -445,19 +1284,50 @@ export class Explorer {
         },
       })
 
-      // Queue new state for exploration if not visited
-      if (!this.visited.has(toState.id)) {
-        this.queue.push({
-          url: page.url(),
-          path: [...task.path, action],
-          depth: task.depth + 1,
-          viewport: task.viewport,
-        })
+      // Queue new state for exploration if not visited (and its route template
+      // hasn't used up its samples)
+      const next = this.rerooted({
+        url: page.url(),
+        path: [...task.path, action],
+        depth: task.depth + 1,
+        viewport: task.viewport,
+        browser: task.browser,
+        order: [...(task.order || []), actionIndex],
+      })
+      if (this.visited.has(toState.id)) {
+        this.keepLowestOrder(toState.id, next)
+      } else if (this.routes.admit(page.url())) {
+        this.queue.add(next)
+      }
+
+      // A dialog opened - check its focus handling once per dialog and trigger
+      if (this.config.validators?.focus?.enabled && toState.modalOpen && !fromState.modalOpen) {
+        const key = [toState.modalOpen, action.selector, task.viewport, toState.browser].join('|')
+        if (!this.focusChecked.has(key)) {
+          this.focusChecked.add(key)
+          const result = await this.focusValidator.validateModal(page, action, task.viewport)
+          for (const issue of result.issues) {
+            this.addIssue(fromState, issue)
+          }
+          this.emit({ type: 'validation:complete', results: [result] })
+        }
+      }
+
+      // The key press did nothing - report it if a click does something
+      if (
+        action.keys &&
+        action.type !== 'fill' &&
+        toState.id === fromState.id &&
+        (await this.clickChangesState(page, fromState, action, task))
+      ) {
+        this.addIssue(fromState, this.keyboardIssue(action, task.viewport, 'keyboard-activation'))
       }
 
       // Backtrack to original state
       await page.goto(task.url, { waitUntil: 'load' })
       await this.replayPath(page, task.path)
+
+      return dialogs
     } catch (error) {
       this.emit({ type: 'action:error', action, error: error as Error })
 
@@ -468,18 +1338,209 @@ export class Explorer {
       } catch {
         // Recovery failed
       }
+      return []
+    }
+  }
+
+  /**
+   * Record a window or tab an action opened as a transition to its state, and
+   * queue the state to be explored from its URL (a popup can't be reached by
+   * replaying the path in the original page)
+   */
+  private async followPopup(
+    popup: Page,
+    fromState: AppState,
+    action: Action,
+    task: ExplorationTask,
+    actionIndex: number
+  ): Promise<void> {
+    try {
+      await popup.waitForLoadState('load', { timeout: this.config.exploration?.timeout || 10000 })
+
+      const url = popup.url()
+      const decision = this.scope.check(url)
+      if (!decision.inScope) {
+        this.addTransitionToGraph(fromState.id, fromState.id, action, task.viewport, [], {
+          boundary: { url, reason: decision.reason || 'origin' },
+          popup: true,
+        })
+        return
+      }
+
+      const popupState = await this.stateManager.captureState(
+        popup,
+        task.viewport,
+        this.adapters.getAll(),
+        fromState.browser
+      )
+      this.addTransitionToGraph(fromState.id, popupState.id, action, task.viewport, [], { popup: true })
+
+      const next = this.rerooted({
+        url,
+        path: [],
+        depth: task.depth + 1,
+        viewport: task.viewport,
+        browser: task.browser,
+        order: [...(task.order || []), actionIndex],
+      })
+      if (this.visited.has(popupState.id)) {
+        this.keepLowestOrder(popupState.id, next)
+      } else if (this.routes.admit(url)) {
+        this.queue.add(next)
+      }
+    } catch {
+      // The popup closed itself or never loaded
+    } finally {
+      await popup.close().catch(() => {})
+    }
+  }
+
+  /**
+   * Whether clicking an action's element, on a fresh copy of its state,
+   * changes the state (used when its keyboard activation did nothing)
+   */
+  private async clickChangesState(
+    page: Page,
+    fromState: AppState,
+    action: Action,
+    task: ExplorationTask
+  ): Promise<boolean> {
+    try {
+      await page.goto(task.url, { waitUntil: 'load' })
+      await this.replayPath(page, task.path)
+
+      this.blockedNavigations.delete(page)
+      const fields = action.fields?.map((field) => ({ ...field, keys: undefined }))
+      await this.executeAction(page, { ...action, keys: undefined, ...(fields && { fields }) })
+      await this.waitForNetworkSettled(page)
+      if (this.takeScopeBoundary(page)) return true
+
+      const state = await this.stateManager.captureState(
+        page,
+        task.viewport,
+        this.adapters.getAll(),
+        fromState.browser
+      )
+      return state.id !== fromState.id
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Scan the regions an action changed and record violations its state didn't
+   * already have, attributed to the transition
+   */
+  private async rescanAfterAction(
+    page: Page,
+    fromState: AppState,
+    toState: AppState,
+    action: Action,
+    viewport: string
+  ): Promise<void> {
+    const result = await this.accessibilityValidator.validateChanges(page, viewport)
+    this.emit({ type: 'validation:complete', results: [result] })
+
+    // Elements the state's own scan already reported, by rule
+    const known = new Set(
+      (this.graph.states.get(fromState.id)?.issues || []).flatMap((issue) =>
+        (issue.elements || []).map((element) => `${issue.rule}|${element}`)
+      )
+    )
+
+    for (const issue of result.issues) {
+      const elements = (issue.elements || []).filter((element) => !known.has(`${issue.rule}|${element}`))
+      if (issue.elements?.length && elements.length === 0) continue
+
+      this.addIssue(fromState, {
+        ...issue,
+        elements,
+        transition: { fromState: fromState.id, toState: toState.id, action: action.label },
+      })
+    }
+  }
+
+  /**
+   * Build an issue for an action keyboard users can't reach or activate
+   */
+  private keyboardIssue(
+    action: Action,
+    viewport: string,
+    rule: 'keyboard-unreachable' | 'keyboard-activation'
+  ): Issue {
+    return {
+      type: 'accessibility',
+      severity: 'serious',
+      rule,
+      description:
+        rule === 'keyboard-unreachable'
+          ? `"${action.label}" can't be reached with Tab, Shift+Tab or arrow keys`
+          : `"${action.label}" responds to a click but not to ${action.keys?.[action.keys.length - 1]}`,
+      elements: [action.selector],
+      helpUrl: 'https://www.w3.org/WAI/WCAG21/Understanding/keyboard.html',
+      viewport,
+      details: { keys: action.keys, frame: action.frame },
     }
   }
 
+  /**
+   * Remember an action the safety policy didn't perform, for the summary
+   */
+  private skipUnsafe(url: string, action: Action): void {
+    const labels = this.skippedBySafety.get(url) || new Set<string>()
+    labels.add(action.label)
+    this.skippedBySafety.set(url, labels)
+  }
+
+  /**
+   * Record an issue found on a state after its validators ran
+   */
+  private addIssue(state: AppState, issue: Issue): void {
+    issue.stateId = state.id
+    issue.browser = state.browser
+    this.graph.states.get(state.id)?.issues.push(issue)
+  }
+
+  /**
+   * Check whether the last action tried to leave the crawl scope, either by a
+   * blocked navigation or by client-side routing to an out-of-scope URL
+   */
+  private takeScopeBoundary(page: Page): StateTransition['boundary'] {
+    const url = this.blockedNavigations.get(page) || page.url()
+    this.blockedNavigations.delete(page)
+
+    const decision = this.scope.check(url)
+    if (decision.inScope) return undefined
+
+    return { url, reason: decision.reason || 'origin' }
+  }
+
   /**
    * Execute an action on the page
    */
   private async executeAction(page: Page, action: Action): Promise<void> {
+    this.dialogWatcher.respondWith(page, action.dialog)
+
+    // Keyboard mode actions are reached and triggered with key presses
+    if (action.keys) {
+      if (!(await this.keyboard.perform(page, action))) {
+        throw new Error(`Keyboard navigation did not reach "${action.label}"`)
+      }
+      return
+    }
+
+    // Elements found below the fold are acted on from where they were found
+    if (action.scroll) {
+      await this.actionDiscovery.restoreScroll(page, action.scroll)
+    }
+    if (action.type === 'scroll') return
+
     const timeout = this.config.exploration?.timeout || 10000
-    const locator = page.locator(action.selector).first()
+    const locator = locateAction(page, action)
 
-    // Wait for element to be visible and enabled
-    await locator.waitFor({ state: 'visible', timeout })
+    // Wait for element to be visible and enabled (file inputs are often hidden
+    // behind their label)
+    await locator.waitFor({ state: action.type === 'upload' ? 'attached' : 'visible', timeout })
 
     switch (action.type) {
       case 'click':
@@ -510,6 +1571,20 @@ export class Explorer {
         await locator.press(action.value || 'Enter', { timeout })
         break
 
+      case 'upload':
+        // Set the files directly; clicking would open the native file chooser
+        await locator.setInputFiles(chooseUploadFile(action.accept, this.config.uploads?.fixtures), { timeout })
+        break
+
+      case 'submit':
+        // Fill in the form, then submit it with its button
+        for (const field of action.fields || []) {
+          await this.executeAction(page, { ...field, frame: action.frame })
+        }
+        this.dialogWatcher.respondWith(page, action.dialog)
+        await locator.click({ timeout })
+        break
+
       default:
         await locator.click({ timeout })
     }
@@ -540,6 +1615,14 @@ export class Explorer {
           await page.waitForTimeout(step.delay)
         }
 
+        if (step.goto) {
+          await page.goto(new URL(step.goto, this.config.baseUrl).href, {
+            timeout: this.config.exploration?.timeout || 10000,
+            waitUntil: 'load',
+          })
+          await this.waitForNetworkSettled(page)
+        }
+
         if (step.waitFor) {
           await page.waitForSelector(step.waitFor, { timeout: 5000 })
         }
@@ -557,6 +1640,25 @@ export class Explorer {
           const value = this.resolveTestData(step.value || '')
           await page.selectOption(step.select, value, { timeout: 5000 })
         }
+
+        if (step.check) {
+          await page.check(step.check, { timeout: 5000 })
+        }
+
+        if (step.uncheck) {
+          await page.uncheck(step.uncheck, { timeout: 5000 })
+        }
+
+        if (step.press) {
+          await page.keyboard.press(step.press)
+        }
+
+        if (step.expect) {
+          const failed = (await this.verifyUiExpectations(page, step.expect)).find((result) => !result.passed)
+          if (failed) {
+            throw new Error(`Setup check failed: ${failed.message}`)
+          }
+        }
       } catch (error) {
         if (!step.optional) {
           throw error
@@ -574,8 +1676,10 @@ export class Explorer {
     for (const schema of this.config.actionSchemas) {
       const match = schema.match
 
-      // Check selector
-      if (match.selector && !action.selector.includes(match.selector)) continue
+      // Check selector (of the element, or the form a submission fills)
+      if (match.selector && !action.selector.includes(match.selector) && !action.form?.includes(match.selector)) {
+        continue
+      }
 
       // Check text
       if (match.text) {
@@ -714,6 +1818,29 @@ export class Explorer {
       }
     }
 
+    // Check element text
+    for (const [selector, expected] of Object.entries(ui.text || {})) {
+      try {
+        const text = (await page.locator(selector).first().innerText({ timeout: 5000 })).trim()
+        const matches = typeof expected === 'string' ? text.includes(expected) : expected.test(text)
+        results.push({
+          passed: matches,
+          message: matches
+            ? `Element ${selector} has text ${expected}`
+            : `Element ${selector} text "${text}" does not match ${expected}`,
+          type: 'ui',
+          expected: expected.toString(),
+          actual: text,
+        })
+      } catch {
+        results.push({
+          passed: false,
+          message: `Element ${selector} not found`,
+          type: 'ui',
+        })
+      }
+    }
+
     // Check URL
     if (ui.url) {
       const currentUrl = page.url()
@@ -728,14 +1855,35 @@ export class Explorer {
       })
     }
 
+    // Check title
+    if (ui.title) {
+      const title = await page.title()
+      const pattern = typeof ui.title === 'string' ? new RegExp(ui.title) : ui.title
+      const matches = pattern.test(title)
+      results.push({
+        passed: matches,
+        message: matches ? `Title matches ${ui.title}` : `Title "${title}" does not match ${ui.title}`,
+        type: 'ui',
+        expected: ui.title.toString(),
+        actual: title,
+      })
+    }
+
     return results
   }
 
   /**
-   * Run all validators on the current page
+   * Run all validators on the current page (network validation reports the
+   * requests of the validator attached to the page, the worker's by default)
    */
-  private async runValidators(page: Page, viewport: ViewportName): Promise<Issue[]> {
+  private async runValidators(
+    page: Page,
+    device: Viewport,
+    worker: ExplorationWorker,
+    networkValidator: NetworkValidator = worker.networkValidator
+  ): Promise<Issue[]> {
     const issues: Issue[] = []
+    const viewport = device.name
 
     // Accessibility
     if (this.config.validators?.accessibility?.enabled) {
@@ -746,7 +1894,7 @@ export class Explorer {
 
     // Responsive
     if (this.config.validators?.responsive?.enabled) {
-      const result = await this.responsiveValidator.validate(page, viewport)
+      const result = await this.responsiveValidator.validate(page, device)
       issues.push(...result.issues)
       this.emit({ type: 'validation:complete', results: [result] })
     }
@@ -760,15 +1908,15 @@ export class Explorer {
 
     // Network (uses collected requests from page listener)
     if (this.config.validators?.network?.enabled) {
-      const result = await this.networkValidator.validate(page, viewport)
+      const result = await networkValidator.validate(page, viewport)
       issues.push(...result.issues)
       this.emit({ type: 'validation:complete', results: [result] })
-      this.networkValidator.clearRequests() // Clear after reporting
+      networkValidator.clearRequests() // Clear after reporting
     }
 
     // Console errors
-    if (this.config.validators?.console?.enabled && this.consoleErrors.length > 0) {
-      for (const error of this.consoleErrors) {
+    if (this.config.validators?.console?.enabled && worker.consoleErrors.length > 0) {
+      for (const error of worker.consoleErrors) {
         // Check ignore patterns
         const ignorePatterns = this.config.validators.console.ignorePatterns || []
         const shouldIgnore = ignorePatterns.some((pattern) => {
@@ -787,16 +1935,118 @@ export class Explorer {
           })
         }
       }
-      this.consoleErrors = [] // Clear after reporting
+      worker.consoleErrors = [] // Clear after reporting
     }
 
     return issues
   }
 
+  /**
+   * Rerun the validators under each emulation profile. Only issues the
+   * default rendering doesn't have are returned, tagged with the profile.
+   */
+  private async runEmulationPasses(
+    page: Page,
+    task: ExplorationTask,
+    device: Viewport,
+    engine: BrowserName,
+    worker: ExplorationWorker,
+    defaultIssues: Issue[]
+  ): Promise<Issue[]> {
+    const signature = (issue: Issue) =>
+      [issue.type, issue.rule, issue.description, [...(issue.elements || [])].sort().join(',')].join('|')
+    const known = new Set(defaultIssues.map(signature))
+    const found: Issue[] = []
+
+    for (const profile of this.emulation) {
+      if (this.isStopping()) break
+
+      let issues: Issue[]
+      try {
+        issues = needsOwnContext(profile)
+          ? await this.validateInContext(task, device, engine, worker, profile)
+          : await this.validateWithMedia(page, device, worker, profile)
+      } catch (error) {
+        this.emit({
+          type: 'warning',
+          message: `Emulation pass "${profile.name}" failed on ${task.url}: ${(error as Error).message}`,
+        })
+        continue
+      }
+
+      for (const issue of issues) {
+        if (known.has(signature(issue))) continue
+        issue.emulation = profile.name
+        found.push(issue)
+      }
+    }
+
+    return found
+  }
+
+  /**
+   * Validate the open page with media features emulated, then restore the defaults
+   */
+  private async validateWithMedia(
+    page: Page,
+    device: Viewport,
+    worker: ExplorationWorker,
+    profile: EmulationProfile
+  ): Promise<Issue[]> {
+    await page.emulateMedia({
+      colorScheme: profile.colorScheme ?? null,
+      reducedMotion: profile.reducedMotion ?? null,
+      forcedColors: profile.forcedColors ?? null,
+    })
+
+    try {
+      // Let style transitions finish
+      if (this.config.exploration?.actionDelay) {
+        await page.waitForTimeout(this.config.exploration.actionDelay)
+      }
+      return await this.runValidators(page, device, worker)
+    } finally {
+      await page.emulateMedia({ colorScheme: null, reducedMotion: null, forcedColors: null })
+    }
+  }
+
+  /**
+   * Reach the task's state again in a context with the profile's locale or
+   * timezone, and validate it there
+   */
+  private async validateInContext(
+    task: ExplorationTask,
+    device: Viewport,
+    engine: BrowserName,
+    worker: ExplorationWorker,
+    profile: EmulationProfile
+  ): Promise<Issue[]> {
+    const context = await this.contextFor(worker, engine, device, profile)
+    const page = await context.newPage()
+
+    // The worker's network validator only sees the requests of its default pages
+    const networkValidator = new NetworkValidator(this.config.validators?.network)
+    if (this.config.validators?.network?.enabled) {
+      networkValidator.attachToPage(page)
+    }
+
+    try {
+      await page.goto(task.url, {
+        timeout: this.config.exploration?.timeout || 10000,
+        waitUntil: 'load',
+      })
+      await this.waitForNetworkSettled(page)
+      await this.replayPath(page, task.path)
+      return await this.runValidators(page, device, worker, networkValidator)
+    } finally {
+      await page.close()
+    }
+  }
+
   /**
    * Add a state to the graph
    */
-  private addStateToGraph(state: AppState, issues: Issue[]): void {
+  private addStateToGraph(state: AppState, issues: Issue[], isStart: boolean): void {
     const node: StateNode = {
       state,
       issues,
@@ -805,8 +2055,8 @@ export class Explorer {
 
     this.graph.states.set(state.id, node)
 
-    // Track start states
-    if (this.graph.states.size === 1) {
+    // Track start states (a lower-order start task may have added it already)
+    if (isStart && !this.graph.startStates.includes(state.id)) {
       this.graph.startStates.push(state.id)
     }
   }
@@ -818,8 +2068,9 @@ export class Explorer {
     fromState: string,
     toState: string,
     action: Action,
-    viewport: ViewportName,
-    verifications: VerificationResult[]
+    viewport: string,
+    verifications: VerificationResult[],
+    extras: Pick<StateTransition, 'boundary' | 'accessibilityDiff' | 'dialogs' | 'popup' | 'stubbedRequests'> = {}
   ): void {
     const transition: StateTransition = {
       fromState,
@@ -828,6 +2079,11 @@ export class Explorer {
       viewport,
       verifications,
       timestamp: Date.now(),
+      ...(extras.boundary && { boundary: extras.boundary }),
+      ...(extras.accessibilityDiff && { accessibilityDiff: extras.accessibilityDiff }),
+      ...(extras.dialogs?.length && { dialogs: extras.dialogs }),
+      ...(extras.popup && { popup: true }),
+      ...(extras.stubbedRequests?.length && { stubbedRequests: extras.stubbedRequests }),
     }
 
     const node = this.graph.states.get(fromState)
@@ -864,13 +2120,113 @@ export class Explorer {
     return verifications
   }
 
+  /**
+   * Snapshot progress as of the last completed tasks.
+   *
+   * In-flight tasks are put back at the front of the queue and anything they
+   * produced so far (their state and the child tasks they queued) is left
+   * out, so resuming re-runs them from scratch.
+   */
+  private createCheckpoint(): ExplorationCheckpoint {
+    const inFlightTasks = Array.from(this.inFlight.keys(), (task) => this.rerooted(task))
+    const partialStates = new Set(
+      Array.from(this.inFlight.values()).filter((id): id is string => id !== null)
+    )
+
+    const isPartial = (task: ExplorationTask) =>
+      inFlightTasks.some((parent) => parent !== task && isChildOrder(task.order, parent.order))
+
+    const queue = [
+      ...inFlightTasks.filter((task) => !isPartial(task)).sort((a, b) => compareOrder(a.order, b.order)),
+      ...this.queue.toArray().filter((task) => !isPartial(task)),
+    ]
+    const parked = this.parked.filter((task) => !isPartial(task))
+
+    const states = Array.from(this.graph.states.values())
+      .filter((node) => !partialStates.has(node.state.id))
+      .map((node) => ({ ...node, order: this.stateOrder.get(node.state.id) || [] }))
+
+    return {
+      version: CHECKPOINT_VERSION,
+      savedAt: Date.now(),
+      startTime: this.graph.metadata.startTime,
+      // Credentials are never written to disk - they must be supplied again on resume
+      config: {
+        ...this.config,
+        adapters: undefined,
+        cookies: undefined,
+        extraHTTPHeaders: undefined,
+        // Custom strategies can't be saved; they're passed in again on resume
+        exploration: {
+          ...this.config.exploration,
+          strategy: isStrategyName(this.queue.name) ? this.queue.name : undefined,
+        },
+      },
+      queue,
+      parked,
+      states,
+      startStates: this.graph.startStates.filter((id) => !partialStates.has(id)),
+      skippedByTemplate: this.routes.getSkipped(),
+      skippedBySafety: Object.fromEntries([...this.skippedBySafety].map(([url, labels]) => [url, [...labels]])),
+      seeds: this.seeds,
+      strategy: { name: this.queue.name, state: this.queue.getState?.() },
+      focusChecked: [...this.focusChecked],
+      generated: this.formFiller.getState(),
+      // Functions are left out of the saved config; they're passed in again on resume
+      testDataGenerators: Object.keys(this.config.testData || {}).filter(
+        (key) => typeof this.config.testData![key] === 'function'
+      ),
+    }
+  }
+
+  /**
+   * Write a checkpoint to the output directory
+   */
+  private saveCheckpoint(): void {
+    try {
+      this.checkpoints.save(this.createCheckpoint())
+    } catch (error) {
+      this.emit({
+        type: 'warning',
+        message: `Could not write checkpoint: ${(error as Error).message}`,
+      })
+    }
+  }
+
+  /**
+   * Reorder the graph by task order so results don't depend on which
+   * worker finished first, leaving out states past the state budget (other
+   * workers may have explored them before lower-order states filled it)
+   */
+  private normalizeGraph(): void {
+    const byOrder = (a: string, b: string) =>
+      compareOrder(this.stateOrder.get(a), this.stateOrder.get(b))
+
+    const ids = Array.from(this.graph.states.keys())
+      .sort(byOrder)
+      .slice(0, this.config.exploration?.maxStates || 500)
+    this.graph.states = new Map(ids.map((id) => [id, this.graph.states.get(id)!]))
+    this.graph.startStates = this.graph.startStates.filter((id) => this.graph.states.has(id)).sort(byOrder)
+  }
+
   /**
    * Build the final result
    */
   private buildResult(): ExplorationResult {
+    this.normalizeGraph()
+
     const issues = this.getAllIssues()
     const verifications = this.getAllVerifications()
 
+    const outOfScopeUrls = new Set<string>()
+    for (const node of this.graph.states.values()) {
+      for (const transition of node.transitions) {
+        if (transition.boundary) outOfScopeUrls.add(transition.boundary.url)
+      }
+    }
+
+    const skippedByTemplate = this.routes.getSkipped()
+
     const summary: ExplorationSummary = {
       statesExplored: this.graph.states.size,
       actionsPerformed: Array.from(this.graph.states.values()).reduce(
@@ -881,6 +2237,10 @@ export class Explorer {
       verificationsPassed: verifications.filter((v) => v.passed).length,
       verificationsFailed: verifications.filter((v) => !v.passed).length,
       duration: (this.graph.metadata.endTime || Date.now()) - this.graph.metadata.startTime,
+      browsers: [...this.engines],
+      emulation: this.emulation.length > 0 ? this.emulation.map((profile) => profile.name) : undefined,
+      testDataSeed: this.config.testDataSeed,
+      partial: this.stopRequest || undefined,
       coverage: {
         urlsCovered: [...new Set(Array.from(this.graph.states.values()).map((n) => n.state.url))],
         actionsDiscovered: 0, // Would need to track this
@@ -889,6 +2249,12 @@ export class Explorer {
           0
         ),
         schemasMatched: 0, // Would need to track this
+        outOfScopeUrls: [...outOfScopeUrls],
+        skippedByTemplate,
+        unreachedRoutes: this.findUnreachedRoutes(skippedByTemplate),
+        skippedBySafety: this.skippedBySafety.size
+          ? Object.fromEntries([...this.skippedBySafety].map(([url, labels]) => [url, [...labels]]))
+          : undefined,
       },
     }
 
@@ -900,22 +2266,29 @@ export class Explorer {
     }
   }
 
+  /**
+   * Seeded routes that no explored state reached. URLs deliberately skipped
+   * by route-template sampling are already reported and left out here.
+   */
+  private findUnreachedRoutes(skippedByTemplate: Record<string, string[]>): string[] {
+    const reached = new Set(Array.from(this.graph.states.values()).map((node) => routeKey(node.state.url)))
+    const reachedPathnames = [...reached].map((key) => key.split('?')[0])
+    const skipped = new Set(Object.values(skippedByTemplate).flat().map((path) => routeKey(new URL(path, this.config.baseUrl).href)))
+
+    return [
+      ...this.seeds.urls.filter((url) => !reached.has(routeKey(url)) && !skipped.has(routeKey(url))),
+      ...this.seeds.patterns.filter((pattern) => {
+        const regex = templateToRegExp(pattern)
+        return !reachedPathnames.some((pathname) => regex.test(pathname))
+      }),
+    ]
+  }
+
   /**
    * Resolve test data placeholders
    */
   private resolveTestData(value: string): string {
-    if (!this.config.testData) return value
-
-    return value.replace(/\{\{testData\.(\w+)\}\}/g, (match, key) => {
-      const generator = this.config.testData?.[key]
-      if (typeof generator === 'function') {
-        return String(generator())
-      }
-      if (generator !== undefined) {
-        return String(generator)
-      }
-      return match
-    })
+    return this.formFiller.resolve(value)
   }
 
   /**
@@ -946,14 +2319,20 @@ export class Explorer {
   private async cleanup(): Promise<void> {
     await this.adapters.disconnectAll()
 
-    if (this.context) {
-      await this.context.close()
-      this.context = null
+    for (const worker of this.workers) {
+      for (const context of worker.contexts.values()) {
+        await context.close()
+      }
     }
+    this.workers = []
 
-    if (this.browser) {
-      await this.browser.close()
-      this.browser = null
+    for (const browser of this.browsers.values()) {
+      try {
+        await (await browser).close()
+      } catch {
+        // Engine failed to launch - nothing to close
+      }
     }
+    this.browsers.clear()
   }
 }
@@ -0,0 +1,549 @@
+/**
+ * FormFiller - Picks values for the fields fill actions type into
+ *
+ * A field's kind (email, phone, date, postal code...) is read from its input
+ * type, then its autocomplete token, then its name, id and placeholder. Values
+ * respect the field's pattern, min/max and length limits, so forms pass their
+ * own validation and can be submitted.
+ *
+ * Values come from `testData` first (keyed by field name, id, autocomplete
+ * token or kind), and are otherwise generated from the seed and the field's
+ * identity, so the same seed fills the same field the same way.
+ *
+ * Placeholders let JSON configs use generated data: `{{gen.email}}`,
+ * `{{gen.uuid}}`, `{{gen.name}}`, `{{gen.seq:order}}`, `{{gen.date:+7d}}` and
+ * `{{env.VAR}}`. Generated values come from the test data seed, so each run
+ * creates fresh records and a run can be repeated by reusing its seed.
+ */
+
+import { createHash } from 'crypto'
+import type { Action, FieldInfo, TestDataConfig } from './types.js'
+
+export type FieldKind =
+  | 'email'
+  | 'tel'
+  | 'url'
+  | 'number'
+  | 'date'
+  | 'datetime-local'
+  | 'month'
+  | 'week'
+  | 'time'
+  | 'color'
+  | 'password'
+  | 'search'
+  | 'given-name'
+  | 'family-name'
+  | 'name'
+  | 'username'
+  | 'organization'
+  | 'street-address'
+  | 'postal-code'
+  | 'city'
+  | 'country'
+  | 'one-time-code'
+  | 'text'
+
+/** Input types that decide the kind on their own */
+const TYPE_KINDS: Record<string, FieldKind> = {
+  email: 'email',
+  tel: 'tel',
+  url: 'url',
+  number: 'number',
+  range: 'number',
+  date: 'date',
+  'datetime-local': 'datetime-local',
+  month: 'month',
+  week: 'week',
+  time: 'time',
+  color: 'color',
+  password: 'password',
+  search: 'search',
+}
+
+/** Autocomplete tokens (the last token of the attribute) */
+const AUTOCOMPLETE_KINDS: Record<string, FieldKind> = {
+  email: 'email',
+  tel: 'tel',
+  'tel-national': 'tel',
+  url: 'url',
+  bday: 'date',
+  'given-name': 'given-name',
+  'family-name': 'family-name',
+  name: 'name',
+  username: 'username',
+  organization: 'organization',
+  'street-address': 'street-address',
+  'address-line1': 'street-address',
+  'postal-code': 'postal-code',
+  'address-level2': 'city',
+  country: 'country',
+  'country-name': 'country',
+  'new-password': 'password',
+  'current-password': 'password',
+  'one-time-code': 'one-time-code',
+}
+
+/** Name, id and placeholder hints, checked in order */
+const NAME_KINDS: Array<[RegExp, FieldKind]> = [
+  [/e-?mail/i, 'email'],
+  [/phone|mobile|\btel/i, 'tel'],
+  [/zip|postal|postcode/i, 'postal-code'],
+  [/first.?name|given.?name|forename/i, 'given-name'],
+  [/last.?name|surname|family.?name/i, 'family-name'],
+  [/user.?name|login|handle/i, 'username'],
+  [/full.?name|^name$|your.?name/i, 'name'],
+  [/company|organi[sz]ation|business/i, 'organization'],
+  [/street|address/i, 'street-address'],
+  [/city|town/i, 'city'],
+  [/country/i, 'country'],
+  [/website|homepage|\burl\b/i, 'url'],
+  [/birth|date/i, 'date'],
+  [/\b(age|qty|quantity|amount|count)\b/i, 'number'],
+  [/otp|verification.?code|one.?time/i, 'one-time-code'],
+]
+
+const GIVEN_NAMES = ['Ada', 'Alan', 'Grace', 'Linus', 'Margaret', 'Edsger', 'Barbara', 'Donald']
+const FAMILY_NAMES = ['Lovelace', 'Turing', 'Hopper', 'Torvalds', 'Hamilton', 'Dijkstra', 'Liskov', 'Knuth']
+const CITIES = ['Springfield', 'Riverside', 'Fairview', 'Greenville']
+
+/** Placeholders: `{{testData.key}}`, `{{gen.name}}` or `{{gen.name:arg}}`, `{{env.VAR}}` */
+const PLACEHOLDER = /\{\{(testData|gen|env)\.(\w+)(?::([^}]*))?\}\}/g
+
+/** Date offsets such as `+7d`, `-2w`, `+1m` or `+1y` */
+const DATE_OFFSET = /^([+-]?\d+)([dwmy])$/
+
+/** How deep testData entries may refer to each other */
+const MAX_DEPTH = 5
+
+/** Dates are generated around a fixed day so runs don't depend on today */
+const BASE_DATE = Date.UTC(2024, 5, 15)
+const DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Deterministic random numbers in [0, 1) from the run seed and a key
+ */
+export function seededRandom(seed: number, key: string): () => number {
+  let state = parseInt(createHash('sha256').update(`${seed}:${key}`).digest('hex').slice(0, 8), 16)
+  // mulberry32
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000
+  }
+}
+
+/**
+ * A version 4 UUID from a seeded random source
+ */
+function uuid(random: () => number): string {
+  const bytes = Array.from({ length: 16 }, () => Math.floor(random() * 256))
+  bytes[6] = (bytes[6] & 0x0f) | 0x40
+  bytes[8] = (bytes[8] & 0x3f) | 0x80
+  const hex = bytes.map((byte) => byte.toString(16).padStart(2, '0')).join('')
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`
+}
+
+/**
+ * What a field asks for
+ */
+export function fieldKind(field: FieldInfo): FieldKind {
+  const byType = TYPE_KINDS[field.type]
+  if (byType) return byType
+
+  const token = (field.autocomplete || '').trim().split(/\s+/).pop() || ''
+  if (AUTOCOMPLETE_KINDS[token]) return AUTOCOMPLETE_KINDS[token]
+
+  const hints = [field.name, field.id, field.placeholder].filter(Boolean).join(' ')
+  for (const [pattern, kind] of NAME_KINDS) {
+    if (pattern.test(hints)) return kind
+  }
+  return 'text'
+}
+
+/**
+ * Generate a string matching a simple regex pattern: literals, escapes
+ * (\d, \w), character classes, groups of alternatives and quantifiers.
+ * Returns undefined for anything more involved.
+ */
+export function sampleFromPattern(pattern: string, random: () => number): string | undefined {
+  let pos = 0
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)]
+  const range = (from: string, to: string): string[] =>
+    Array.from({ length: to.charCodeAt(0) - from.charCodeAt(0) + 1 }, (_, i) =>
+      String.fromCharCode(from.charCodeAt(0) + i)
+    )
+  const DIGITS = range('0', '9')
+  const WORD = [...range('a', 'z'), ...range('A', 'Z'), ...DIGITS]
+
+  const escape = (char: string): string[] | undefined => {
+    if (char === 'd') return DIGITS
+    if (char === 'w') return WORD
+    if (char === 's') return [' ']
+    if (/[a-zA-Z]/.test(char)) return undefined
+    return [char]
+  }
+
+  const charClass = (): string[] | undefined => {
+    const chars: string[] = []
+    if (pattern[pos] === '^') return undefined
+    while (pos < pattern.length && pattern[pos] !== ']') {
+      let char = pattern[pos++]
+      if (char === '\\') {
+        const escaped = escape(pattern[pos++])
+        if (!escaped) return undefined
+        chars.push(...escaped)
+        continue
+      }
+      if (pattern[pos] === '-' && pattern[pos + 1] && pattern[pos + 1] !== ']') {
+        const to = pattern[pos + 1]
+        pos += 2
+        chars.push(...range(char, to))
+        char = ''
+      }
+      if (char) chars.push(char)
+    }
+    pos++ // ]
+    return chars.length ? chars : undefined
+  }
+
+  const sequence = (): string | undefined => {
+    const alternatives: string[][] = [[]]
+    while (pos < pattern.length && pattern[pos] !== ')') {
+      const char = pattern[pos++]
+      let atom: (() => string) | undefined
+
+      if (char === '|') {
+        alternatives.push([])
+        continue
+      } else if (char === '(') {
+        if (pattern.startsWith('?:', pos)) pos += 2
+        const start = pos
+        if (sequence() === undefined) return undefined
+        pos++ // )
+        // Generate the group afresh for each repetition
+        atom = () => {
+          const saved = pos
+          pos = start
+          const value = sequence() || ''
+          pos = saved
+          return value
+        }
+      } else if (char === '[') {
+        const chars = charClass()
+        if (!chars) return undefined
+        atom = () => pick(chars)
+      } else if (char === '\\') {
+        const chars = escape(pattern[pos++])
+        if (!chars) return undefined
+        atom = () => pick(chars)
+      } else if (char === '.') {
+        atom = () => pick(WORD)
+      } else if (char === '^' || char === '$') {
+        continue
+      } else if ('*+?{'.includes(char)) {
+        return undefined
+      } else {
+        atom = () => char
+      }
+
+      // Quantifier
+      let min = 1
+      let max = 1
+      const quantifier = pattern[pos]
+      if (quantifier === '?') [min, max, pos] = [0, 1, pos + 1]
+      else if (quantifier === '*') [min, max, pos] = [0, 3, pos + 1]
+      else if (quantifier === '+') [min, max, pos] = [1, 3, pos + 1]
+      else if (quantifier === '{') {
+        const match = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(pos))
+        if (!match) return undefined
+        min = parseInt(match[1], 10)
+        max = match[2] ? (match[3] ? parseInt(match[3], 10) : min + 3) : min
+        pos += match[0].length
+      }
+
+      const count = min + Math.floor(random() * (max - min + 1))
+      alternatives[alternatives.length - 1].push(Array.from({ length: count }, () => atom!()).join(''))
+    }
+    return pick(alternatives).join('')
+  }
+
+  try {
+    const value = sequence()
+    return pos >= pattern.length ? value : undefined
+  } catch {
+    return undefined
+  }
+}
+
+export interface FormFillerOptions {
+  /** Values by field name, id, autocomplete token or kind */
+  testData?: TestDataConfig
+  /** Seed for the values generated for fields (default: 0) */
+  seed?: number
+  /** Seed for `{{gen.*}}` placeholders (default: 0) */
+  dataSeed?: number
+  /** Variables for `{{env.*}}` placeholders (default: process.env) */
+  env?: NodeJS.ProcessEnv
+  /** Day `{{gen.date}}` offsets count from (default: now) */
+  now?: number
+}
+
+/**
+ * Picks values for fill actions
+ */
+export class FormFiller {
+  private testData: TestDataConfig
+  private seed: number
+  private dataSeed: number
+  private env: NodeJS.ProcessEnv
+  private now: number
+  /** Values generated so far, by generator and argument */
+  private generated: Map<string, number> = new Map()
+
+  constructor(options: FormFillerOptions = {}) {
+    this.testData = options.testData || {}
+    this.seed = options.seed || 0
+    this.dataSeed = options.dataSeed || 0
+    this.env = options.env || process.env
+    this.now = options.now ?? Date.now()
+  }
+
+  /**
+   * How many values each `{{gen.*}}` placeholder has generated, for checkpoints
+   */
+  getState(): Record<string, number> {
+    return Object.fromEntries(this.generated)
+  }
+
+  /**
+   * Carry on from a saved state, so a resumed run doesn't repeat values
+   */
+  restoreState(state: Record<string, number>): void {
+    this.generated = new Map(Object.entries(state))
+  }
+
+  /**
+   * Replace `{{testData.key}}`, `{{gen.*}}` and `{{env.VAR}}` placeholders.
+   * Unknown placeholders are left as they are.
+   */
+  resolve(value: string, depth = 0): string {
+    return value.replace(PLACEHOLDER, (match, source: string, name: string, arg?: string) => {
+      if (source === 'env') {
+        return this.env[name] ?? match
+      }
+      if (source === 'gen') {
+        return this.generateData(name, arg || '') ?? match
+      }
+
+      const generator = this.testData[name]
+      if (generator === undefined || depth >= MAX_DEPTH) {
+        return match
+      }
+      return this.resolve(String(typeof generator === 'function' ? generator() : generator), depth + 1)
+    })
+  }
+
+  /**
+   * Give fill actions without a value one for their field, including the
+   * fields of form submissions
+   */
+  withValues<T extends Action>(actions: T[]): T[] {
+    return actions.map((action) => {
+      if (action.type === 'fill' && action.value === undefined) {
+        return { ...action, value: this.valueFor(action.field || { type: 'text' }) }
+      }
+      if (action.type === 'submit' && action.fields) {
+        return { ...action, fields: this.withValues(action.fields) }
+      }
+      return action
+    })
+  }
+
+  /**
+   * Value for a field: a testData override, or one generated for its kind
+   */
+  valueFor(field: FieldInfo): string {
+    const kind = fieldKind(field)
+
+    for (const key of [field.name, field.id, (field.autocomplete || '').split(/\s+/).pop(), kind]) {
+      if (key && this.testData[key] !== undefined) {
+        const override = this.testData[key]
+        return this.resolve(String(typeof override === 'function' ? override() : override))
+      }
+    }
+
+    const random = seededRandom(this.seed, [field.name, field.id, field.type].join('|'))
+    let value = this.generate(kind, field, random)
+
+    if (field.pattern && !this.matches(field.pattern, value)) {
+      const sample = sampleFromPattern(field.pattern, random)
+      if (sample !== undefined && this.matches(field.pattern, sample)) value = sample
+    }
+
+    if (field.minLength && value.length < field.minLength) {
+      value = value.padEnd(field.minLength, 'x')
+    }
+    if (field.maxLength && value.length > field.maxLength) {
+      value = value.slice(0, field.maxLength)
+    }
+    return value
+  }
+
+  /**
+   * Value of a `{{gen.*}}` placeholder. Each use gives the next value, so
+   * records created in one run don't collide; the data seed makes the values
+   * unique to the run.
+   */
+  private generateData(name: string, arg: string): string | undefined {
+    const key = `${name}:${arg}`
+    const count = (this.generated.get(key) || 0) + 1
+    const random = seededRandom(this.dataSeed, `gen.${key}#${count}`)
+    const run = (this.dataSeed >>> 0).toString(36)
+
+    let value: string | undefined
+    switch (name) {
+      case 'email':
+        value = `eva.${run}.${count}@example.com`
+        break
+      case 'uuid':
+        value = uuid(random)
+        break
+      case 'name':
+        value = `${GIVEN_NAMES[Math.floor(random() * GIVEN_NAMES.length)]} ${
+          FAMILY_NAMES[Math.floor(random() * FAMILY_NAMES.length)]
+        }`
+        break
+      case 'seq':
+        value = String(count)
+        break
+      case 'date':
+        value = this.offsetDate(arg)
+        break
+    }
+
+    if (value !== undefined) {
+      this.generated.set(key, count)
+    }
+    return value
+  }
+
+  /**
+   * Today (in UTC) moved by an offset such as `+7d`, as YYYY-MM-DD
+   */
+  private offsetDate(offset: string): string | undefined {
+    const date = new Date(this.now)
+    if (offset) {
+      const match = DATE_OFFSET.exec(offset)
+      if (!match) return undefined
+      const amount = parseInt(match[1], 10)
+      if (match[2] === 'd') date.setUTCDate(date.getUTCDate() + amount)
+      else if (match[2] === 'w') date.setUTCDate(date.getUTCDate() + amount * 7)
+      else if (match[2] === 'm') date.setUTCMonth(date.getUTCMonth() + amount)
+      else date.setUTCFullYear(date.getUTCFullYear() + amount)
+    }
+    return date.toISOString().slice(0, 10)
+  }
+
+  /**
+   * Whether a value satisfies an input's pattern attribute (the whole value must match)
+   */
+  private matches(pattern: string, value: string): boolean {
+    try {
+      return new RegExp(`^(?:${pattern})$`, 'v').test(value)
+    } catch {
+      try {
+        return new RegExp(`^(?:${pattern})$`).test(value)
+      } catch {
+        return true // Invalid patterns are ignored by browsers too
+      }
+    }
+  }
+
+  /**
+   * Generate a value of a kind, within the field's min and max
+   */
+  private generate(kind: FieldKind, field: FieldInfo, random: () => number): string {
+    const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)]
+    const digits = (count: number) => Array.from({ length: count }, () => Math.floor(random() * 10)).join('')
+    const given = pick(GIVEN_NAMES)
+    const family = pick(FAMILY_NAMES)
+
+    switch (kind) {
+      case 'email':
+        return `${given}.${family}${digits(2)}@example.com`.toLowerCase()
+      case 'tel':
+        return `555-01${digits(2)}`
+      case 'url':
+        return 'https://example.com'
+      case 'number':
+        return this.number(field, random)
+      case 'date':
+        return this.date(field, random).slice(0, 10)
+      case 'datetime-local':
+        return `${this.date(field, random).slice(0, 10)}T10:30`
+      case 'month':
+        return this.date(field, random).slice(0, 7)
+      case 'week':
+        return `2024-W${String(1 + Math.floor(random() * 52)).padStart(2, '0')}`
+      case 'time':
+        return `${String(9 + Math.floor(random() * 8)).padStart(2, '0')}:30`
+      case 'color':
+        return '#3366cc'
+      case 'password':
+        return `Eva-Test-${digits(4)}!`
+      case 'search':
+        return 'test'
+      case 'given-name':
+        return given
+      case 'family-name':
+        return family
+      case 'name':
+        return `${given} ${family}`
+      case 'username':
+        return `${given.toLowerCase()}${digits(3)}`
+      case 'organization':
+        return 'Example Corp'
+      case 'street-address':
+        return `${1 + Math.floor(random() * 200)} Main Street`
+      case 'postal-code':
+        return digits(5)
+      case 'city':
+        return pick(CITIES)
+      case 'country':
+        return 'United States'
+      case 'one-time-code':
+        return digits(6)
+      default:
+        return field.type === 'textarea' ? 'Test input from EVA' : 'Test input'
+    }
+  }
+
+  /**
+   * A number on the field's step, between its min and max
+   */
+  private number(field: FieldInfo, random: () => number): string {
+    const step = field.step && field.step !== 'any' ? Number(field.step) || 1 : 1
+    const min = field.min !== undefined && field.min !== '' ? Number(field.min) : undefined
+    const max = field.max !== undefined && field.max !== '' ? Number(field.max) : undefined
+    const low = min ?? (max !== undefined ? Math.max(0, max - 99 * step) : 1)
+    const high = max ?? low + 99 * step
+    const steps = Math.max(0, Math.floor((high - low) / step))
+    const value = low + Math.floor(random() * (steps + 1)) * step
+    const decimals = (String(step).split('.')[1] || '').length
+    return value.toFixed(decimals)
+  }
+
+  /**
+   * An ISO date-time within a year of the base date, clamped to min and max
+   */
+  private date(field: FieldInfo, random: () => number): string {
+    let time = BASE_DATE + Math.floor(random() * 365) * DAY
+    const min = field.min ? Date.parse(field.min.length === 7 ? `${field.min}-01` : field.min.slice(0, 10)) : NaN
+    const max = field.max ? Date.parse(field.max.length === 7 ? `${field.max}-01` : field.max.slice(0, 10)) : NaN
+    if (!isNaN(min) && time < min) time = min
+    if (!isNaN(max) && time > max) time = max
+    return new Date(time).toISOString()
+  }
+}
@@ -0,0 +1,248 @@
+/**
+ * InvalidInputs - Submits forms with invalid values and checks the errors
+ *
+ * Each field with a constraint to break (required, email, length, range) gets
+ * its own probe: the form is submitted with that field invalid and the rest
+ * valid. The app should show an error, tie it to the field (`aria-invalid`
+ * with `aria-describedby` or `aria-errormessage`, or the browser's own
+ * validation), move focus to it, and save nothing.
+ */
+
+import type { Page } from 'playwright'
+import { locateAction } from './ActionDiscovery.js'
+import type { Action, FieldInfo, Issue } from './types.js'
+
+export interface InvalidProbe {
+  /** The form submission, with one field invalid */
+  action: Action
+  /** The field made invalid */
+  field: Action
+  /** What's wrong with its value (e.g. "left empty") */
+  reason: string
+  /** The invalid value (undefined when a required checkbox is left unchecked) */
+  value?: string
+}
+
+/** How the page reacted to an invalid submission */
+export interface FormErrorReport {
+  /** The field still holds the invalid value (the browser didn't refuse or trim it) */
+  valueKept: boolean
+  /** An error is shown: the field is marked invalid, or an alert or error message appeared */
+  errorShown: boolean
+  /** The error is tied to the field programmatically */
+  tied: boolean
+  /** Focus is on the field (or an error summary) */
+  focused: boolean
+  /** The browser's constraint validation stopped the submission */
+  native: boolean
+}
+
+/**
+ * Invalid values for a field, one per constraint it has
+ */
+export function invalidValues(field: FieldInfo): Array<{ value: string; reason: string }> {
+  const values: Array<{ value: string; reason: string }> = []
+  const step = field.step && field.step !== 'any' ? Number(field.step) || 1 : 1
+
+  if (field.required) {
+    values.push({ value: '', reason: 'left empty' })
+  }
+  if (field.type === 'email') {
+    values.push({ value: 'not-an-email', reason: 'not an email address' })
+  }
+  if (field.maxLength) {
+    values.push({ value: 'x'.repeat(field.maxLength + 1), reason: `longer than ${field.maxLength} characters` })
+  }
+  if (field.type === 'number' || field.type === 'range') {
+    if (field.min !== undefined && field.min !== '' && !isNaN(Number(field.min))) {
+      values.push({ value: String(Number(field.min) - step), reason: `below the minimum of ${field.min}` })
+    }
+    if (field.max !== undefined && field.max !== '' && !isNaN(Number(field.max))) {
+      values.push({ value: String(Number(field.max) + step), reason: `above the maximum of ${field.max}` })
+    }
+  }
+  return values
+}
+
+/**
+ * Probes for a form submission: each field's invalid values, and each
+ * required checkbox or radio group left unchecked
+ */
+export function invalidProbes(action: Action): InvalidProbe[] {
+  if (action.type !== 'submit' || !action.fields) return []
+
+  const probes: InvalidProbe[] = []
+  const probe = (field: Action, submit: Partial<Action>, reason: string, value?: string): InvalidProbe => ({
+    action: { ...action, ...submit, label: `${action.label} (${field.label} ${reason})` },
+    field,
+    reason,
+    ...(value !== undefined && { value }),
+  })
+
+  for (const field of action.fields) {
+    if (field.type === 'check') {
+      // Submissions only check required boxes, so leaving one out is invalid
+      probes.push(probe(field, leaveOut(action, field), 'left unchecked'))
+    } else if (field.type === 'fill' && field.field) {
+      for (const { value, reason } of invalidValues(field.field)) {
+        const fields = action.fields.map((other) => (other === field ? { ...other, value } : other))
+        probes.push(probe(field, { fields }, reason, value))
+      }
+    }
+  }
+  return probes
+}
+
+/**
+ * A submission's fields without one of them. In keyboard mode each field's
+ * keys start from the field before it, so the left-out field's navigation
+ * keys move on to the next field (or the submit button).
+ */
+function leaveOut(action: Action, field: Action): Pick<Action, 'fields' | 'keys'> {
+  const fields = action.fields || []
+  const index = fields.indexOf(field)
+  const navigation = field.keys?.slice(0, -1)
+  if (!navigation) return { fields: fields.filter((other) => other !== field) }
+
+  const next = fields[index + 1]
+  return {
+    fields: fields
+      .filter((other) => other !== field)
+      .map((other) => (other === next ? { ...other, keys: [...navigation, ...(other.keys || [])] } : other)),
+    ...(action.keys && { keys: next ? action.keys : [...navigation, ...action.keys] }),
+  }
+}
+
+/**
+ * Check how the page presents the error for a probe's field
+ */
+export async function checkFormErrors(page: Page, probe: InvalidProbe): Promise<FormErrorReport> {
+  try {
+    return await locateAction(page, probe.field).evaluate(
+      (el, expected) => {
+        const input = el as HTMLInputElement
+        const root = el.getRootNode() as Document | ShadowRoot
+
+        const isVisible = (node: Element): boolean => {
+          const style = getComputedStyle(node)
+          const rect = node.getBoundingClientRect()
+          return style.display !== 'none' && style.visibility !== 'hidden' && rect.width > 0 && rect.height > 0
+        }
+        const hasText = (node: Element | null): boolean => !!node && !!node.textContent?.trim() && isVisible(node)
+
+        const references = [el.getAttribute('aria-describedby'), el.getAttribute('aria-errormessage')]
+          .join(' ')
+          .split(/\s+/)
+          .filter(Boolean)
+        const described = references.some((id) => hasText(root.getElementById(id)))
+        const ariaInvalid = el.getAttribute('aria-invalid') === 'true'
+        const native = !!input.form && !input.form.noValidate && input.validity?.valid === false
+
+        const messages = Array.from(
+          document.querySelectorAll(
+            '[role="alert"], [aria-live="assertive"], [aria-live="polite"], .invalid-feedback, [class*="error" i]'
+          )
+        )
+        const active = document.activeElement
+
+        return {
+          valueKept: expected === null || input.value === expected,
+          errorShown: native || ariaInvalid || described || messages.some(hasText),
+          tied: native || (ariaInvalid && described),
+          focused: active === el || !!active?.closest('[role="alert"]'),
+          native,
+        }
+      },
+      probe.value ?? null
+    )
+  } catch {
+    // The field is gone: the submission went through to another page
+    return { valueKept: true, errorShown: false, tied: false, focused: false, native: false }
+  }
+}
+
+/**
+ * Names of the data that changed between two adapter snapshots: tables of
+ * database snapshots, or the adapter itself for other state
+ */
+export function changedData(before: Record<string, unknown>, after: Record<string, unknown>): string[] {
+  const changed: string[] = []
+
+  for (const [adapter, state] of Object.entries(after)) {
+    if (!(adapter in before)) continue
+    const tablesBefore = (before[adapter] as { database?: { tables?: Record<string, unknown> } })?.database?.tables
+    const tablesAfter = (state as { database?: { tables?: Record<string, unknown> } })?.database?.tables
+
+    if (tablesBefore && tablesAfter) {
+      for (const [table, snapshot] of Object.entries(tablesAfter)) {
+        if (JSON.stringify(snapshot) !== JSON.stringify(tablesBefore[table])) changed.push(table)
+      }
+    } else if (JSON.stringify(state) !== JSON.stringify(before[adapter])) {
+      changed.push(adapter)
+    }
+  }
+  return changed
+}
+
+/**
+ * Issues for a probe: no error shown, an error not tied to its field, focus
+ * left behind, or data saved despite the invalid value
+ */
+export function invalidInputIssues(
+  probe: InvalidProbe,
+  report: FormErrorReport,
+  changed: string[],
+  viewport: string
+): Issue[] {
+  const issues: Issue[] = []
+  const input = `${probe.field.label} ${probe.reason}`
+  const base = { elements: [probe.field.selector], viewport, details: { form: probe.action.form, reason: probe.reason } }
+
+  if (changed.length > 0) {
+    issues.push({
+      ...base,
+      type: 'functional',
+      severity: 'critical',
+      rule: 'invalid-input-persisted',
+      description: `"${probe.action.label}" saved data with ${input}: ${changed.join(', ')} changed`,
+      details: { ...base.details, changed },
+    })
+  }
+
+  // The browser refused the value (e.g. maxlength), so there's nothing to report
+  if (!report.valueKept) return issues
+
+  if (!report.errorShown) {
+    issues.push({
+      ...base,
+      type: 'functional',
+      severity: 'serious',
+      rule: 'invalid-input-no-error',
+      description: `Submitting with ${input} showed no error`,
+      helpUrl: 'https://www.w3.org/WAI/WCAG21/Understanding/error-identification.html',
+    })
+    return issues
+  }
+
+  if (!report.tied) {
+    issues.push({
+      ...base,
+      type: 'accessibility',
+      severity: 'serious',
+      rule: 'form-error-not-associated',
+      description: `The error for ${input} isn't tied to the field: set aria-invalid and point aria-describedby at the message`,
+      helpUrl: 'https://www.w3.org/WAI/WCAG21/Understanding/error-identification.html',
+    })
+  }
+  if (!report.focused) {
+    issues.push({
+      ...base,
+      type: 'accessibility',
+      severity: 'moderate',
+      rule: 'form-error-focus',
+      description: `Focus didn't move to ${probe.field.label} after the form was rejected`,
+      helpUrl: 'https://www.w3.org/WAI/WCAG21/Understanding/focus-order.html',
+    })
+  }
+  return issues
+}
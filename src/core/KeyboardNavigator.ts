@@ -0,0 +1,327 @@
+/**
+ * KeyboardNavigator - Reaches and triggers actions with the keyboard only
+ *
+ * In keyboard mode each state's tab order is recorded once by pressing Tab
+ * until focus comes back around. Every discovered action is then given the
+ * key presses that reach it from the state's initial focus:
+ * - Tab (or Shift+Tab, when the element is closer to the end of the tab order)
+ * - arrow keys inside roving-tabindex widgets (tabs, radio groups, menus, listboxes)
+ * - an activation key: Enter, Space, or ArrowDown for selects
+ *
+ * Form submissions are planned field by field: each field's keys start from
+ * the field before it, and the submit button's from the last field.
+ *
+ * Actions the keyboard can't reach are returned separately so they can be
+ * reported as accessibility issues.
+ */
+
+import type { Page } from 'playwright'
+import { locateAction } from './ActionDiscovery.js'
+import type { Action, DiscoveredAction } from './types.js'
+
+export interface KeyboardNavigatorOptions {
+  /** Stop recording the tab order after this many focus stops */
+  maxTabStops?: number
+  /** Timeout for locating an action's element (ms) */
+  timeout?: number
+}
+
+export interface KeyboardPlan {
+  /** Actions with the key presses that reach and activate them */
+  reachable: DiscoveredAction[]
+  /** Actions no key sequence reaches */
+  unreachable: DiscoveredAction[]
+}
+
+/** The tab order of a state, as recorded from its initial focus */
+export interface TabOrder {
+  /** Tab presses in one full cycle */
+  length: number
+  /** Whether focus leaves the page at the end of the cycle (so Shift+Tab reaches the last stop) */
+  wraps: boolean
+}
+
+/** Where an element sits in the recorded tab order, or how to reach it with arrow keys */
+export interface FocusPosition {
+  /** Tab presses (minus one) to the tab stop to start from */
+  tabStop: number
+  /** Arrow presses from that tab stop (negative = backwards) */
+  arrows: number
+  vertical: boolean
+}
+
+/** Window property holding the elements focused while recording the tab order */
+const FOCUS_ORDER_KEY = '__evaFocusOrder'
+
+/**
+ * Key that activates an element once it has focus
+ */
+export function activationKey(action: Action): string {
+  switch (action.type) {
+    case 'check':
+    case 'uncheck':
+    case 'upload':
+      return 'Space'
+    case 'select':
+      return 'ArrowDown'
+    case 'keypress':
+      return action.value || 'Enter'
+    default:
+      return ['checkbox', 'radio', 'switch'].includes(action.role || '') ? 'Space' : 'Enter'
+  }
+}
+
+/**
+ * Key presses that reach a position from the state's initial focus: Tab or
+ * Shift+Tab (whichever is shorter) to the tab stop, then arrows inside a widget
+ */
+export function keysFor(position: FocusPosition, tabOrder: TabOrder): string[] {
+  const forward = position.tabStop + 1
+  // Shift+Tab from outside the page goes to the last stop before focus leaves
+  const backward = tabOrder.wraps ? tabOrder.length - 1 - position.tabStop : Infinity
+  const keys = forward <= backward ? Array(forward).fill('Tab') : Array(backward).fill('Shift+Tab')
+
+  const [next, previous] = position.vertical ? ['ArrowDown', 'ArrowUp'] : ['ArrowRight', 'ArrowLeft']
+  keys.push(...Array(Math.abs(position.arrows)).fill(position.arrows > 0 ? next : previous))
+
+  return keys
+}
+
+/**
+ * Key presses that move focus from one position to the next (from one form
+ * field to another)
+ */
+export function keysBetween(from: FocusPosition, to: FocusPosition): string[] {
+  const tabs = to.tabStop - from.tabStop
+  const keys: string[] = Array(Math.abs(tabs)).fill(tabs > 0 ? 'Tab' : 'Shift+Tab')
+
+  // Arrows count from the widget's entry item, unless focus is already inside the widget
+  const arrows = tabs === 0 ? to.arrows - from.arrows : to.arrows
+  const [next, previous] = to.vertical ? ['ArrowDown', 'ArrowUp'] : ['ArrowRight', 'ArrowLeft']
+  keys.push(...Array(Math.abs(arrows)).fill(arrows > 0 ? next : previous))
+
+  return keys
+}
+
+export class KeyboardNavigator {
+  private maxTabStops: number
+  private timeout: number
+
+  constructor(options: KeyboardNavigatorOptions = {}) {
+    this.maxTabStops = options.maxTabStops ?? 200
+    this.timeout = options.timeout ?? 2000
+  }
+
+  /**
+   * Work out key presses for each action. Moves focus around, so the page
+   * should be reloaded before the actions are performed.
+   */
+  async plan(page: Page, actions: DiscoveredAction[]): Promise<KeyboardPlan> {
+    const plan: KeyboardPlan = { reachable: [], unreachable: [] }
+
+    try {
+      const tabOrder = await this.recordTabOrder(page)
+
+      for (const action of actions) {
+        // Hovering has no keyboard equivalent
+        if (action.type === 'hover') continue
+        // Scrolling isn't a control to reach
+        if (action.type === 'scroll') {
+          plan.reachable.push(action)
+          continue
+        }
+        if (action.type === 'submit') {
+          const submit = tabOrder.length > 0 ? await this.planSubmit(page, action, tabOrder) : null
+          if (submit) {
+            plan.reachable.push(submit)
+          } else {
+            plan.unreachable.push(action)
+          }
+          continue
+        }
+
+        const position = tabOrder.length > 0 ? await this.findPosition(page, action) : null
+        if (!position) {
+          plan.unreachable.push(action)
+          continue
+        }
+
+        const keys = keysFor(position, tabOrder)
+        // Fill actions type their value instead of pressing an activation key
+        if (action.type !== 'fill') {
+          keys.push(activationKey(action))
+        }
+        plan.reachable.push({ ...action, keys })
+      }
+    } finally {
+      await page.evaluate((key) => {
+        delete (window as unknown as Record<string, unknown>)[key]
+      }, FOCUS_ORDER_KEY)
+    }
+
+    return plan
+  }
+
+  /**
+   * Press an action's keys. Returns false if its element didn't get focus.
+   */
+  async perform(page: Page, action: Action): Promise<boolean> {
+    // Form submissions reach and fill each field before the submit button
+    if (action.type === 'submit') {
+      for (const field of action.fields || []) {
+        if (!(await this.perform(page, { ...field, frame: action.frame }))) return false
+      }
+    }
+
+    const keys = action.keys || []
+    const navigation = action.type === 'fill' ? keys : keys.slice(0, -1)
+
+    for (const key of navigation) {
+      await page.keyboard.press(key)
+    }
+
+    const focused = await locateAction(page, action)
+      .evaluate((el) => (el.getRootNode() as Document | ShadowRoot).activeElement === el, undefined, {
+        timeout: this.timeout,
+      })
+      .catch(() => false)
+    if (!focused) return false
+
+    if (action.type === 'fill') {
+      await page.keyboard.press('ControlOrMeta+A')
+      if (action.value) {
+        await page.keyboard.type(action.value)
+      } else {
+        await page.keyboard.press('Delete')
+      }
+    } else {
+      await page.keyboard.press(keys[keys.length - 1])
+    }
+    return true
+  }
+
+  /**
+   * Give a form submission's fields and submit button their key presses, or
+   * return null if the keyboard can't reach one of them
+   */
+  private async planSubmit(page: Page, action: DiscoveredAction, tabOrder: TabOrder): Promise<DiscoveredAction | null> {
+    const fields: Action[] = []
+    let previous: FocusPosition | null = null
+
+    for (const field of action.fields || []) {
+      const position = await this.findPosition(page, { ...field, frame: action.frame })
+      if (!position) return null
+
+      const keys = previous ? keysBetween(previous, position) : keysFor(position, tabOrder)
+      if (field.type !== 'fill') {
+        keys.push(activationKey(field))
+      }
+      fields.push({ ...field, keys })
+      previous = position
+    }
+
+    const position = await this.findPosition(page, action)
+    if (!position) return null
+
+    const keys = previous ? keysBetween(previous, position) : keysFor(position, tabOrder)
+    keys.push(activationKey(action))
+    return { ...action, fields, keys }
+  }
+
+  /**
+   * Press Tab until focus comes back around, recording on the top window the
+   * element focused after each press (null while focus is outside the page)
+   */
+  private async recordTabOrder(page: Page): Promise<TabOrder> {
+    await page.evaluate((key) => {
+      ;(window as unknown as Record<string, unknown>)[key] = []
+    }, FOCUS_ORDER_KEY)
+
+    let length = 0
+    let wraps = false
+    let previous = ''
+
+    for (let i = 0; i < this.maxTabStops; i++) {
+      await page.keyboard.press('Tab')
+
+      const result = await page.evaluate((key) => {
+        // Follow focus into shadow roots and same-origin iframes
+        let active: Element | null = document.activeElement
+        for (;;) {
+          if (active?.shadowRoot?.activeElement) {
+            active = active.shadowRoot.activeElement
+            continue
+          }
+          const frameDoc = active?.tagName === 'IFRAME' ? (active as HTMLIFrameElement).contentDocument : null
+          if (frameDoc?.activeElement && frameDoc.activeElement !== frameDoc.body) {
+            active = frameDoc.activeElement
+            continue
+          }
+          break
+        }
+        if (active === document.body) active = null
+
+        const order = (window as unknown as Record<string, Array<Element | null>>)[key]
+        if (active && active === order[0]) return 'cycle'
+        order.push(active)
+        return active ? 'focus' : 'none'
+      }, FOCUS_ORDER_KEY)
+
+      if (result === 'cycle') {
+        wraps = previous === 'none'
+        break
+      }
+      // Nothing on the page takes focus
+      if (result === 'none' && previous === 'none') {
+        return { length: 0, wraps: false }
+      }
+      previous = result
+      length++
+    }
+
+    return { length, wraps }
+  }
+
+  /**
+   * Find an action's element in the recorded tab order, or the widget tab
+   * stop it can be reached from with arrow keys
+   */
+  private async findPosition(page: Page, action: Action): Promise<FocusPosition | null> {
+    return locateAction(page, action)
+      .evaluate(
+        (el, key) => {
+          const order = (window.top as unknown as Record<string, Array<Element | null>>)[key] || []
+          const index = order.indexOf(el)
+          if (index !== -1) return { tabStop: index, arrows: 0, vertical: false }
+
+          // Roving tabindex: only one item of the widget is a tab stop
+          let items: Element[] = []
+          let vertical = false
+          if (el instanceof HTMLInputElement && el.type === 'radio' && el.name) {
+            items = Array.from(
+              (el.form || el.ownerDocument).querySelectorAll(`input[type="radio"][name="${CSS.escape(el.name)}"]`)
+            )
+          } else {
+            const role = el.getAttribute('role')
+            const widget = el.closest(
+              '[role="tablist"], [role="radiogroup"], [role="menu"], [role="menubar"], [role="listbox"], [role="toolbar"], [role="tree"]'
+            )
+            if (!role || !widget) return null
+            items = Array.from(widget.querySelectorAll(`[role="${role}"]`))
+            const orientation = widget.getAttribute('aria-orientation')
+            vertical =
+              orientation === 'vertical' ||
+              (orientation !== 'horizontal' && ['menu', 'listbox', 'tree', 'radiogroup'].includes(widget.getAttribute('role') || ''))
+          }
+
+          const entry = items.findIndex((item) => order.includes(item))
+          if (entry === -1) return null
+
+          return { tabStop: order.indexOf(items[entry]), arrows: items.indexOf(el) - entry, vertical }
+        },
+        FOCUS_ORDER_KEY,
+        { timeout: this.timeout }
+      )
+      .catch(() => null)
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Login - Scripted form login and logged-out detection
+ *
+ * Credentials come from environment variables, never from the config file.
+ * A page counts as logged out when it's on the login page's path (or the
+ * configured logged-out URL) or shows the logged-out element, so an expired
+ * session can be noticed and the login run again. Without a configured
+ * element, the page has to show the whole login form: a password input alone
+ * is also found on signup and change-password pages.
+ */
+
+import type { Page } from 'playwright'
+import type { LoginConfig } from './types.js'
+
+/**
+ * Logs in through a form and recognises logged-out pages
+ */
+export class LoginFlow {
+  private config: LoginConfig
+  private loginUrl: URL
+  private env: NodeJS.ProcessEnv
+
+  constructor(config: LoginConfig, baseUrl: string, env: NodeJS.ProcessEnv = process.env) {
+    this.config = config
+    this.loginUrl = new URL(config.url, baseUrl)
+    this.env = env
+  }
+
+  /** Times to log in again before giving up on a task */
+  get maxAttempts(): number {
+    return this.config.maxAttempts ?? 2
+  }
+
+  /**
+   * Read the credentials from the environment
+   */
+  credentials(): { username: string; password: string } {
+    const usernameEnv = this.config.usernameEnv || 'EVA_USERNAME'
+    const passwordEnv = this.config.passwordEnv || 'EVA_PASSWORD'
+    const username = this.env[usernameEnv]
+    const password = this.env[passwordEnv]
+    if (!username || !password) {
+      throw new Error(`Login needs credentials: set ${usernameEnv} and ${passwordEnv}`)
+    }
+    return { username, password }
+  }
+
+  /**
+   * Open the login page, fill in the credentials and submit
+   */
+  async submit(page: Page, timeout = 10000): Promise<void> {
+    const { username, password } = this.credentials()
+
+    await page.goto(this.loginUrl.href, { timeout, waitUntil: 'load' })
+    await page.fill(this.config.usernameSelector, username, { timeout })
+    await page.fill(this.config.passwordSelector, password, { timeout })
+
+    if (this.config.submitSelector) {
+      await page.click(this.config.submitSelector, { timeout })
+    } else {
+      await page.press(this.config.passwordSelector, 'Enter', { timeout })
+    }
+    await page.waitForLoadState('load', { timeout })
+  }
+
+  /**
+   * Whether the page looks logged out
+   */
+  async isLoggedOut(page: Page): Promise<boolean> {
+    const { url, visible } = this.config.loggedOut || {}
+
+    if (this.matchesUrl(page.url(), url)) return true
+
+    const selectors = visible ? [visible] : url ? [] : this.formSelectors()
+    if (selectors.length === 0) return false
+    try {
+      for (const selector of selectors) {
+        if (!(await page.locator(selector).first().isVisible())) return false
+      }
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Selectors of the login form's username, password and submit button
+   */
+  private formSelectors(): string[] {
+    const { usernameSelector, passwordSelector, submitSelector } = this.config
+    return [usernameSelector, passwordSelector, ...(submitSelector ? [submitSelector] : [])]
+  }
+
+  /**
+   * Check a URL against the logged-out URL (a regex or substring), or the
+   * login page's path when none is configured
+   */
+  private matchesUrl(current: string, pattern?: string | RegExp): boolean {
+    if (pattern instanceof RegExp) return pattern.test(current)
+    if (pattern) return current.includes(pattern)
+
+    try {
+      const parsed = new URL(current)
+      return parsed.origin === this.loginUrl.origin && parsed.pathname === this.loginUrl.pathname
+    } catch {
+      return false
+    }
+  }
+}
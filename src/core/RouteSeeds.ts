@@ -0,0 +1,381 @@
+/**
+ * RouteSeeds - Finds routes to start exploring from besides `startUrls`
+ *
+ * Pages with no inbound links are never reached by clicking around, so
+ * routes can also be seeded from:
+ * - sitemap.xml (including sitemap indexes and sitemaps listed in robots.txt)
+ * - a route manifest: a JSON list of paths or URLs
+ * - a scan of a Next.js project's `pages/` and `app/` directories
+ *
+ * Seeded URLs disallowed by robots.txt are dropped. Parameterised routes
+ * (`/songs/:id`, `/songs/[id]`) can't be visited directly; they are kept as
+ * patterns so the report can tell whether the crawl ever reached them.
+ */
+
+import { existsSync, readFileSync, readdirSync, statSync } from 'fs'
+import { extname, join } from 'path'
+import { gunzipSync } from 'zlib'
+import type { SeedConfig } from './types.js'
+
+export interface RobotsRules {
+  allow: string[]
+  disallow: string[]
+  sitemaps: string[]
+}
+
+export interface SeedRoutes {
+  /** Concrete URLs to explore */
+  urls: string[]
+  /** Parameterised routes (`/songs/:id`) only checked for coverage */
+  patterns: string[]
+}
+
+/** Fetch a text resource, resolving to null if it doesn't exist */
+export type TextFetcher = (url: string) => Promise<string | null>
+
+const MAX_SITEMAPS = 50
+const PAGE_EXTENSIONS = ['.js', '.jsx', '.ts', '.tsx', '.md', '.mdx']
+
+/**
+ * Parse robots.txt, keeping the rules for the given user agent
+ * (falling back to the `*` group)
+ */
+export function parseRobotsTxt(text: string, userAgent = '*'): RobotsRules {
+  const groups: Array<{ agents: string[]; allow: string[]; disallow: string[] }> = []
+  const sitemaps: string[] = []
+  let current: (typeof groups)[number] | null = null
+  let lastWasAgent = false
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim()
+    const separator = line.indexOf(':')
+    if (separator === -1) continue
+
+    const field = line.slice(0, separator).trim().toLowerCase()
+    const value = line.slice(separator + 1).trim()
+
+    if (field === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], allow: [], disallow: [] }
+        groups.push(current)
+      }
+      current.agents.push(value.toLowerCase())
+      lastWasAgent = true
+      continue
+    }
+
+    lastWasAgent = false
+    if (field === 'sitemap') {
+      sitemaps.push(value)
+    } else if (field === 'allow' && current && value) {
+      current.allow.push(value)
+    } else if (field === 'disallow' && current && value) {
+      current.disallow.push(value)
+    }
+  }
+
+  const agent = userAgent.toLowerCase()
+  const group =
+    groups.find((g) => agent !== '*' && g.agents.includes(agent)) ||
+    groups.find((g) => g.agents.includes('*'))
+
+  return { allow: group?.allow || [], disallow: group?.disallow || [], sitemaps }
+}
+
+/**
+ * Convert a robots.txt path rule (`*` wildcards, `$` end anchor) to a RegExp
+ */
+function robotsRuleToRegExp(rule: string): RegExp {
+  const anchored = rule.endsWith('$')
+  const body = (anchored ? rule.slice(0, -1) : rule)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+  return new RegExp(`^${body}${anchored ? '$' : ''}`)
+}
+
+/**
+ * Check a path (with query string) against robots.txt rules.
+ * The longest matching rule wins; Allow wins ties.
+ */
+export function isAllowedByRobots(rules: RobotsRules, path: string): boolean {
+  const longestMatch = (patterns: string[]) =>
+    patterns.reduce(
+      (longest, pattern) =>
+        pattern.length > longest && robotsRuleToRegExp(pattern).test(path) ? pattern.length : longest,
+      -1
+    )
+
+  return longestMatch(rules.allow) >= longestMatch(rules.disallow)
+}
+
+/**
+ * Extract page URLs and nested sitemap URLs from sitemap XML
+ */
+export function parseSitemap(xml: string): { urls: string[]; sitemaps: string[] } {
+  const locs = Array.from(xml.matchAll(/<loc>\s*(?:<!\[CDATA\[)?\s*(.*?)\s*(?:\]\]>)?\s*<\/loc>/gs)).map(
+    (match) => decodeXmlEntities(match[1])
+  )
+
+  return /<sitemapindex[\s>]/.test(xml) ? { urls: [], sitemaps: locs } : { urls: locs, sitemaps: [] }
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+/**
+ * Load a JSON route manifest: a list of paths or URLs
+ */
+export function loadRouteManifest(path: string): string[] {
+  const routes: unknown = JSON.parse(readFileSync(path, 'utf-8'))
+  if (!Array.isArray(routes) || !routes.every((route) => typeof route === 'string')) {
+    throw new Error(`Route manifest ${path} must be a JSON list of paths or URLs`)
+  }
+  return routes
+}
+
+/**
+ * Convert a Next.js dynamic segment to a route template segment
+ * (`[id]` -> `:id`, `[...slug]` / `[[...slug]]` -> `:slug*`)
+ */
+function nextSegment(segment: string): string {
+  const catchAll = segment.match(/^\[{1,2}\.\.\.(\w+)\]{1,2}$/)
+  if (catchAll) return `:${catchAll[1]}*`
+  const dynamic = segment.match(/^\[(\w+)\]$/)
+  if (dynamic) return `:${dynamic[1]}`
+  return segment
+}
+
+function toRoute(segments: string[]): string {
+  return '/' + segments.filter(Boolean).map(nextSegment).join('/')
+}
+
+/**
+ * Routes of a Next.js `pages/` directory
+ */
+function scanPagesDir(dir: string, segments: string[] = []): string[] {
+  const routes: string[] = []
+
+  for (const entry of readdirSync(dir).sort()) {
+    const fullPath = join(dir, entry)
+
+    if (statSync(fullPath).isDirectory()) {
+      // API routes aren't pages
+      if (segments.length === 0 && entry === 'api') continue
+      routes.push(...scanPagesDir(fullPath, [...segments, entry]))
+      continue
+    }
+
+    const ext = extname(entry)
+    if (!PAGE_EXTENSIONS.includes(ext)) continue
+    const name = entry.slice(0, -ext.length)
+    // _app, _document, _error and friends
+    if (name.startsWith('_')) continue
+
+    routes.push(toRoute(name === 'index' ? segments : [...segments, name]))
+  }
+
+  return routes
+}
+
+/**
+ * Routes of a Next.js `app/` directory
+ */
+function scanAppDir(dir: string, segments: string[] = []): string[] {
+  const routes: string[] = []
+
+  for (const entry of readdirSync(dir).sort()) {
+    const fullPath = join(dir, entry)
+
+    if (statSync(fullPath).isDirectory()) {
+      // Private folders, parallel route slots and intercepting routes aren't URLs
+      if (entry.startsWith('_') || entry.startsWith('@') || entry.startsWith('(.')) continue
+      // Route groups don't add a path segment
+      const segment = /^\(.+\)$/.test(entry) ? '' : entry
+      routes.push(...scanAppDir(fullPath, [...segments, segment]))
+      continue
+    }
+
+    const ext = extname(entry)
+    if (PAGE_EXTENSIONS.includes(ext) && entry.slice(0, -ext.length) === 'page') {
+      routes.push(toRoute(segments))
+    }
+  }
+
+  return routes
+}
+
+/**
+ * Scan a Next.js project for page routes
+ */
+export function scanNextRoutes(projectDir: string): string[] {
+  if (!existsSync(projectDir)) {
+    throw new Error(`${projectDir} does not exist`)
+  }
+
+  const routes = new Set<string>()
+
+  for (const base of [projectDir, join(projectDir, 'src')]) {
+    const pagesDir = join(base, 'pages')
+    const appDir = join(base, 'app')
+    if (existsSync(pagesDir)) scanPagesDir(pagesDir).forEach((route) => routes.add(route))
+    if (existsSync(appDir)) scanAppDir(appDir).forEach((route) => routes.add(route))
+  }
+
+  return [...routes].sort()
+}
+
+/**
+ * Default fetcher: GET with a timeout, gunzipping `.gz` sitemaps
+ */
+export const fetchText: TextFetcher = async (url) => {
+  const response = await fetch(url, { signal: AbortSignal.timeout(10000) })
+  if (!response.ok) return null
+
+  if (new URL(url).pathname.endsWith('.gz')) {
+    return gunzipSync(Buffer.from(await response.arrayBuffer())).toString('utf-8')
+  }
+  return response.text()
+}
+
+/**
+ * Collects seed routes from the configured sources
+ */
+export class RouteSeeder {
+  private config: SeedConfig
+  private baseUrl: string
+  private fetcher: TextFetcher
+  private warnings: string[] = []
+
+  constructor(config: SeedConfig, baseUrl: string, fetcher: TextFetcher = fetchText) {
+    this.config = config
+    this.baseUrl = baseUrl
+    this.fetcher = fetcher
+  }
+
+  /**
+   * Problems encountered while discovering routes (unreachable sitemaps, etc.)
+   */
+  getWarnings(): string[] {
+    return [...this.warnings]
+  }
+
+  /**
+   * Discover seed routes from all configured sources
+   */
+  async discover(): Promise<SeedRoutes> {
+    const routes: string[] = []
+
+    const robots = await this.loadRobots()
+
+    if (this.config.sitemap) {
+      routes.push(...(await this.readSitemaps(robots?.sitemaps || [])))
+    }
+
+    if (this.config.manifest) {
+      try {
+        routes.push(...loadRouteManifest(this.config.manifest))
+      } catch (error) {
+        this.warnings.push(`Could not read route manifest: ${(error as Error).message}`)
+      }
+    }
+
+    if (this.config.nextjs) {
+      try {
+        routes.push(...scanNextRoutes(this.config.nextjs))
+      } catch (error) {
+        this.warnings.push(`Could not scan Next.js routes: ${(error as Error).message}`)
+      }
+    }
+
+    const urls = new Set<string>()
+    const patterns = new Set<string>()
+    const maxUrls = this.config.maxUrls ?? 200
+
+    for (const route of routes) {
+      let url: URL
+      try {
+        // Manifests may use Next.js-style dynamic segments
+        url = new URL(route.split('/').map(nextSegment).join('/'), this.baseUrl)
+      } catch {
+        this.warnings.push(`Ignoring invalid route: ${route}`)
+        continue
+      }
+
+      if (/\/:/.test(url.pathname)) {
+        patterns.add(url.pathname)
+        continue
+      }
+
+      if (robots && !isAllowedByRobots(robots, url.pathname + url.search)) continue
+      if (urls.size < maxUrls) urls.add(url.href)
+    }
+
+    return { urls: [...urls], patterns: [...patterns] }
+  }
+
+  /**
+   * Load robots.txt (needed for its disallow rules and sitemap links)
+   */
+  private async loadRobots(): Promise<RobotsRules | null> {
+    if (this.config.respectRobots === false && this.config.sitemap !== true) return null
+
+    try {
+      const text = await this.fetcher(new URL('/robots.txt', this.baseUrl).href)
+      if (text === null) return null
+
+      const rules = parseRobotsTxt(text)
+      return this.config.respectRobots === false ? { allow: [], disallow: [], sitemaps: rules.sitemaps } : rules
+    } catch (error) {
+      this.warnings.push(`Could not read robots.txt: ${(error as Error).message}`)
+      return null
+    }
+  }
+
+  /**
+   * Read the configured sitemaps, following sitemap indexes
+   */
+  private async readSitemaps(robotsSitemaps: string[]): Promise<string[]> {
+    const configured = this.config.sitemap
+    const pending =
+      configured === true
+        ? robotsSitemaps.length > 0
+          ? [...robotsSitemaps]
+          : [new URL('/sitemap.xml', this.baseUrl).href]
+        : (Array.isArray(configured) ? configured : [configured as string]).map(
+            (sitemap) => new URL(sitemap, this.baseUrl).href
+          )
+
+    const seen = new Set<string>()
+    const urls: string[] = []
+
+    while (pending.length > 0 && seen.size < MAX_SITEMAPS) {
+      const sitemapUrl = pending.shift()!
+      if (seen.has(sitemapUrl)) continue
+      seen.add(sitemapUrl)
+
+      try {
+        const xml = await this.fetcher(sitemapUrl)
+        if (xml === null) {
+          this.warnings.push(`Sitemap not found: ${sitemapUrl}`)
+          continue
+        }
+
+        const parsed = parseSitemap(xml)
+        urls.push(...parsed.urls)
+        pending.push(...parsed.sitemaps)
+      } catch (error) {
+        this.warnings.push(`Could not read sitemap ${sitemapUrl}: ${(error as Error).message}`)
+      }
+    }
+
+    return urls
+  }
+}
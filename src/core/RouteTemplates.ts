@@ -0,0 +1,212 @@
+/**
+ * RouteTemplates - Groups parameterised URLs under a shared route template
+ *
+ * `/songs/1` ... `/songs/400` are usually the same screen with different
+ * data. Exploring every one of them burns through `maxStates`, so URLs are
+ * mapped to a template (`/songs/:id`) and only a few samples per template
+ * are explored. The rest are recorded as skipped.
+ *
+ * Templates come from:
+ * - user-declared patterns (`/songs/:id`, `/users/:userId/posts/:postId`)
+ * - automatic detection of ID-like path segments and query values
+ *   (numbers, UUIDs, slugs ending in a hash)
+ */
+
+import type { RouteTemplate, RouteTemplateConfig } from './types.js'
+
+const NUMERIC = /^\d+$/
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const HASH = /^(?=[0-9a-f]*\d)[0-9a-f]{10,}$/i
+const SLUG_WITH_HASH = /^[a-z0-9]+(?:-[a-z0-9]+)*-(?=[0-9a-z]*\d)[0-9a-z]{6,}$/i
+
+/**
+ * Placeholder for an ID-like value, or null if the value looks meaningful
+ */
+export function detectParam(value: string): string | null {
+  if (NUMERIC.test(value)) return ':id'
+  if (UUID.test(value)) return ':uuid'
+  if (HASH.test(value)) return ':hash'
+  if (SLUG_WITH_HASH.test(value)) return ':slug'
+  return null
+}
+
+interface CompiledTemplate {
+  template: string
+  regex: RegExp
+  samples?: number
+}
+
+/**
+ * Convert `/songs/:id` into a RegExp matching one path segment per parameter.
+ * A parameter ending in `*` (`/docs/:path*`) matches one or more segments.
+ */
+export function templateToRegExp(template: string): RegExp {
+  const pattern = template
+    .split('/')
+    .map((segment) => {
+      if (segment.startsWith(':')) return segment.endsWith('*') ? '.+' : '[^/]+'
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    })
+    .join('/')
+  return new RegExp(`^${pattern}/?$`)
+}
+
+/**
+ * Compile a declared template
+ */
+function compileTemplate(route: RouteTemplate): CompiledTemplate {
+  const { template, samples } = typeof route === 'string' ? { template: route, samples: undefined } : route
+  return { template, regex: templateToRegExp(template), samples }
+}
+
+export class RouteTemplateMatcher {
+  private templates: CompiledTemplate[]
+  private autoDetect: boolean
+
+  constructor(config: RouteTemplateConfig = {}) {
+    this.templates = (config.templates || []).map(compileTemplate)
+    this.autoDetect = config.autoDetect ?? true
+  }
+
+  /**
+   * Map a URL to its route template (pathname plus templated query).
+   * URLs without parameters map to themselves.
+   */
+  toTemplate(url: string): string {
+    let parsed: URL
+    try {
+      parsed = new URL(url)
+    } catch {
+      return url
+    }
+
+    const pathname = this.templatePathname(parsed.pathname)
+
+    const params = Array.from(parsed.searchParams.entries())
+      .map(([key, value]) => {
+        const param = this.autoDetect ? detectParam(value) : null
+        return `${key}=${param ?? value}`
+      })
+      .sort()
+
+    return params.length > 0 ? `${pathname}?${params.join('&')}` : pathname
+  }
+
+  /**
+   * Sample size declared for a template, if any
+   */
+  samplesFor(template: string): number | undefined {
+    const pathname = template.split('?')[0]
+    return this.templates.find((compiled) => compiled.template === pathname)?.samples
+  }
+
+  /**
+   * Check if a template contains parameters (i.e. groups several URLs)
+   */
+  isParameterised(template: string): boolean {
+    return /(^|[/=]):[A-Za-z]/.test(template)
+  }
+
+  /**
+   * Template a pathname using declared templates first, then auto-detection
+   */
+  private templatePathname(pathname: string): string {
+    for (const { template, regex } of this.templates) {
+      if (regex.test(pathname)) return template
+    }
+
+    if (!this.autoDetect) return pathname
+
+    return pathname
+      .split('/')
+      .map((segment) => (segment ? detectParam(decodeURIComponent(segment)) ?? segment : segment))
+      .join('/')
+  }
+}
+
+/**
+ * Tracks which concrete URLs have been sampled for each template
+ */
+export class RouteSampler {
+  private matcher: RouteTemplateMatcher
+  private samplesPerTemplate: number
+  private samples: Map<string, Set<string>> = new Map()
+  private skipped: Map<string, Set<string>> = new Map()
+
+  constructor(config: RouteTemplateConfig = {}) {
+    this.matcher = new RouteTemplateMatcher(config)
+    this.samplesPerTemplate = config.samplesPerTemplate ?? 3
+  }
+
+  /**
+   * Decide whether a URL should be explored. Returns false (and records the
+   * URL as skipped) once its template has used up its samples.
+   */
+  admit(url: string): boolean {
+    const template = this.matcher.toTemplate(url)
+    if (!this.matcher.isParameterised(template)) return true
+
+    const concrete = this.concreteKey(url)
+    const sampled = this.samples.get(template) || new Set<string>()
+    this.samples.set(template, sampled)
+
+    if (sampled.has(concrete)) return true
+    if (sampled.size < (this.matcher.samplesFor(template) ?? this.samplesPerTemplate)) {
+      sampled.add(concrete)
+      return true
+    }
+
+    const skipped = this.skipped.get(template) || new Set<string>()
+    skipped.add(concrete)
+    this.skipped.set(template, skipped)
+    return false
+  }
+
+  /**
+   * Template for a URL
+   */
+  templateFor(url: string): string {
+    return this.matcher.toTemplate(url)
+  }
+
+  /**
+   * Concrete URLs skipped under each template
+   */
+  getSkipped(): Record<string, string[]> {
+    const result: Record<string, string[]> = {}
+    for (const template of [...this.skipped.keys()].sort()) {
+      result[template] = [...this.skipped.get(template)!].sort()
+    }
+    return result
+  }
+
+  /**
+   * Restore sampling progress from a checkpoint: URLs already explored or
+   * queued count as samples, and previously skipped URLs stay skipped
+   */
+  restore(sampledUrls: string[], skipped: Record<string, string[]> = {}): void {
+    for (const url of sampledUrls) {
+      const template = this.matcher.toTemplate(url)
+      if (!this.matcher.isParameterised(template)) continue
+
+      const sampled = this.samples.get(template) || new Set<string>()
+      sampled.add(this.concreteKey(url))
+      this.samples.set(template, sampled)
+    }
+
+    for (const [template, urls] of Object.entries(skipped)) {
+      const existing = this.skipped.get(template) || new Set<string>()
+      for (const url of urls) existing.add(url)
+      this.skipped.set(template, existing)
+    }
+  }
+
+  private concreteKey(url: string): string {
+    try {
+      const parsed = new URL(url)
+      return parsed.pathname + parsed.search
+    } catch {
+      return url
+    }
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Safety - Decides which actions may run, and stubs writes in dry-run mode
+ *
+ * Modes:
+ * - `all`: perform every action (destructive ones are only explored last)
+ * - `skip-destructive`: never perform actions that look destructive
+ * - `allowlist`: perform only actions matching the `allow` patterns
+ * - `dry-run`: perform every action, but answer POST, PUT, PATCH and DELETE
+ *   requests with an empty success response instead of sending them, and
+ *   record what would have been sent
+ */
+
+import type { BrowserContext, Page, Request, Route } from 'playwright'
+import type { Action, SafetyConfig, StubbedRequest } from './types.js'
+
+/** Labels (or class names) of actions that likely destroy data or end the session */
+export const DEFAULT_DESTRUCTIVE_PATTERNS = [
+  'delete',
+  'remove',
+  'destroy',
+  'logout',
+  'sign.?out',
+  'cancel',
+  'close',
+  'discard',
+  'clear',
+]
+
+/** Request methods that change data on the server */
+const WRITE_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE']
+
+/** Longest request body kept in a record */
+const MAX_BODY_LENGTH = 2000
+
+/**
+ * Applies the safety policy to actions and, in dry-run mode, to requests
+ */
+export class SafetyPolicy {
+  private config: SafetyConfig
+  private allow: RegExp[]
+  private stubbed: WeakMap<Page, StubbedRequest[]> = new WeakMap()
+  /** Pages whose writes go through (logging in again during a dry run) */
+  private writable: WeakSet<Page> = new WeakSet()
+
+  constructor(config: SafetyConfig = {}) {
+    this.config = config
+    this.allow = (config.allow || []).map((pattern) => new RegExp(pattern, 'i'))
+  }
+
+  get mode(): NonNullable<SafetyConfig['mode']> {
+    return this.config.mode || 'all'
+  }
+
+  /** Patterns (case-insensitive regexes) for labels of destructive actions */
+  get destructivePatterns(): string[] {
+    return this.config.destructivePatterns || DEFAULT_DESTRUCTIVE_PATTERNS
+  }
+
+  /**
+   * Whether the policy lets an action run
+   */
+  allows(action: Action): boolean {
+    if (this.mode === 'skip-destructive') return !action.destructive
+    if (this.mode === 'allowlist') {
+      return this.allow.some((pattern) => pattern.test(action.label) || pattern.test(action.selector))
+    }
+    return true
+  }
+
+  /**
+   * In dry-run mode, stub the context's write requests. Call after login and
+   * global setup, which have to reach the server.
+   */
+  async blockWrites(context: BrowserContext): Promise<void> {
+    if (this.mode !== 'dry-run') return
+    await context.route('**/*', (route) => this.handle(route))
+  }
+
+  /**
+   * Let a page's writes through while running a step (logging in again)
+   */
+  async withWrites<T>(page: Page, run: () => Promise<T>): Promise<T> {
+    this.writable.add(page)
+    try {
+      return await run()
+    } finally {
+      this.writable.delete(page)
+    }
+  }
+
+  /**
+   * Requests stubbed on a page since the last call
+   */
+  take(page: Page): StubbedRequest[] {
+    const requests = this.stubbed.get(page) || []
+    this.stubbed.set(page, [])
+    return requests
+  }
+
+  /**
+   * Stub a write request, or pass the request on to the other routes
+   */
+  private async handle(route: Route): Promise<void> {
+    const request = route.request()
+    const page = pageOf(request)
+
+    if (!WRITE_METHODS.includes(request.method()) || (page && this.writable.has(page))) {
+      return route.fallback()
+    }
+
+    if (page) {
+      const body = request.postData()
+      const requests = this.stubbed.get(page) || []
+      requests.push({
+        method: request.method(),
+        url: request.url(),
+        ...(body && { body: body.slice(0, MAX_BODY_LENGTH) }),
+      })
+      this.stubbed.set(page, requests)
+    }
+
+    await route.fulfill({ status: 200, contentType: 'application/json', body: '{}' })
+  }
+}
+
+/**
+ * The page a request was made from (none for service worker requests)
+ */
+function pageOf(request: Request): Page | null {
+  try {
+    return request.frame().page()
+  } catch {
+    return null
+  }
+}
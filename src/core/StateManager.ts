@@ -2,20 +2,23 @@
  * StateManager - Captures and identifies unique application states
  *
  * A "state" combines:
- * - URL (pathname + search params)
- * - DOM fingerprint (hash of interactive elements)
+ * - URL (pathname + search params, or its route template when configured)
+ * - DOM fingerprint (hash of interactive elements, including open shadow roots
+ *   and same-origin iframes)
  * - Modal/dialog state
  * - Viewport size
+ * - Browser engine (when known)
  */
 
 import { createHash } from 'crypto'
 import type { Page } from 'playwright'
+import { captureAccessibilityTree } from './AccessibilityTree.js'
 import type {
   AppState,
-  ViewportName,
   DatabaseSnapshot,
   AuthState,
   BaseAdapterInterface,
+  BrowserName,
 } from './types.js'
 
 export interface StateManagerOptions {
@@ -27,6 +30,10 @@ export interface StateManagerOptions {
   sensitivity?: 'low' | 'medium' | 'high'
   /** Custom state identity function */
   customIdentity?: (state: Partial<AppState>) => string
+  /** Map a URL to its route template (`/songs/1` -> `/songs/:id`) */
+  routeTemplate?: (url: string) => string
+  /** Capture the accessibility tree with each state */
+  accessibilityTree?: boolean
 }
 
 const DEFAULT_OPTIONS: StateManagerOptions = {
@@ -35,6 +42,17 @@ const DEFAULT_OPTIONS: StateManagerOptions = {
   sensitivity: 'medium',
 }
 
+/** Common modal patterns, in the order they're checked */
+export const MODAL_SELECTORS = [
+  '[role="dialog"]',
+  '[role="alertdialog"]',
+  '[aria-modal="true"]',
+  '.modal.show',
+  '.modal.open',
+  '[data-state="open"]',
+  '.ReactModal__Content',
+]
+
 /**
  * Manages state capture, identification, and storage
  */
@@ -51,15 +69,17 @@ export class StateManager {
    */
   async captureState(
     page: Page,
-    viewport: ViewportName,
-    adapters?: Map<string, BaseAdapterInterface>
+    viewport: string,
+    adapters?: Map<string, BaseAdapterInterface>,
+    browser?: BrowserName
   ): Promise<AppState> {
-    const [url, title, domFingerprint, modalOpen, formState] = await Promise.all([
+    const [url, title, domFingerprint, modalOpen, formState, accessibilityTree] = await Promise.all([
       page.url(),
       page.title(),
       this.captureDomFingerprint(page),
       this.detectModal(page),
       this.captureFormState(page),
+      this.options.accessibilityTree ? captureAccessibilityTree(page) : null,
     ])
 
     const parsedUrl = new URL(url)
@@ -72,6 +92,11 @@ export class StateManager {
       pathname += parsedUrl.hash
     }
 
+    let routeTemplate = this.options.routeTemplate?.(url)
+    if (routeTemplate && !this.options.includeQueryParams) {
+      routeTemplate = routeTemplate.split('?')[0]
+    }
+
     // Capture backend state via adapters
     let dbSnapshot: DatabaseSnapshot | undefined
     let authState: AuthState | undefined
@@ -100,10 +125,13 @@ export class StateManager {
       domFingerprint,
       modalOpen,
       formState: formState || undefined,
+      routeTemplate,
       dbSnapshot,
       authState,
       viewport,
+      browser,
       timestamp: Date.now(),
+      ...(accessibilityTree && { accessibilityTree }),
     }
 
     // Compute state ID
@@ -123,11 +151,15 @@ export class StateManager {
       return this.options.customIdentity(state)
     }
 
+    // Parameterised URLs share an identity, so /songs/1 and /songs/2 only
+    // differ if their interactive elements do
     const components = [
-      state.pathname || '',
+      state.routeTemplate || state.pathname || '',
       state.domFingerprint || '',
       state.modalOpen || '',
       state.viewport || '',
+      // The same page can differ between engines
+      ...(state.browser ? [state.browser] : []),
     ]
 
     const hash = createHash('sha256')
@@ -159,20 +191,41 @@ export class StateManager {
           '[tabindex]:not([tabindex="-1"])',
         ]
 
-        return document.querySelectorAll(selectors.join(','))
+        // Open shadow roots and same-origin iframes are included; elements in
+        // iframes are prefixed so moving a control into a frame changes the state
+        const found: Array<{ el: Element; prefix: string }> = []
+        const collect = (root: Document | ShadowRoot, prefix: string) => {
+          root.querySelectorAll(selectors.join(',')).forEach((el) => found.push({ el, prefix }))
+          root.querySelectorAll('*').forEach((el) => {
+            if (el.shadowRoot) {
+              collect(el.shadowRoot, prefix)
+            }
+            if (el.tagName === 'IFRAME' || el.tagName === 'FRAME') {
+              try {
+                const doc = (el as HTMLIFrameElement).contentDocument
+                if (doc) collect(doc, `${prefix}frame>`)
+              } catch {
+                // Cross-origin frame
+              }
+            }
+          })
+        }
+
+        collect(document, '')
+        return found
       }
 
       const elements = getInteractiveElements()
       const signatures: string[] = []
 
-      elements.forEach((el) => {
+      elements.forEach(({ el, prefix }) => {
         const htmlEl = el as HTMLElement
         if (!htmlEl.offsetParent && htmlEl.style.display !== 'none') {
           return // Skip hidden elements
         }
 
         // Build element signature based on sensitivity
-        let signature = ''
+        let signature = prefix
 
         // Always include tag and role
         signature += el.tagName.toLowerCase()
@@ -216,18 +269,7 @@ export class StateManager {
    * Detect if a modal/dialog is currently open
    */
   private async detectModal(page: Page): Promise<string | null> {
-    const modal = await page.evaluate(() => {
-      // Check for common modal patterns
-      const modalSelectors = [
-        '[role="dialog"]',
-        '[role="alertdialog"]',
-        '[aria-modal="true"]',
-        '.modal.show',
-        '.modal.open',
-        '[data-state="open"]',
-        '.ReactModal__Content',
-      ]
-
+    const modal = await page.evaluate((modalSelectors) => {
       for (const selector of modalSelectors) {
         const el = document.querySelector(selector)
         if (el && (el as HTMLElement).offsetParent !== null) {
@@ -243,7 +285,7 @@ export class StateManager {
       }
 
       return null
-    })
+    }, MODAL_SELECTORS)
 
     return modal
   }
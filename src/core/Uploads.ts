@@ -0,0 +1,146 @@
+/**
+ * Uploads - Fixture files for upload actions, and checking the app reacted
+ *
+ * The file for an input is chosen by its `accept` attribute: a configured
+ * fixture for a matching MIME type (`image/png`), wildcard (`image/*`) or
+ * extension (`.csv`) first, then a built-in file (PNG, PDF, CSV, or plain text).
+ */
+
+import { basename } from 'path'
+import type { Page } from 'playwright'
+import type { Action, VerificationResult } from './types.js'
+
+/** An in-memory file, as accepted by Playwright's setInputFiles */
+export interface UploadFile {
+  name: string
+  mimeType: string
+  buffer: Buffer
+}
+
+/** MIME types of the extensions fixtures are usually given as */
+const EXTENSION_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.pdf': 'application/pdf',
+  '.csv': 'text/csv',
+  '.txt': 'text/plain',
+  '.json': 'application/json',
+}
+
+/** 1x1 transparent PNG */
+const PNG_BYTES = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+  'base64'
+)
+
+/** Single blank page */
+const PDF_BYTES = Buffer.from(
+  '%PDF-1.4\n1 0 obj<</Type/Catalog/Pages 2 0 R>>endobj\n' +
+    '2 0 obj<</Type/Pages/Kids[3 0 R]/Count 1>>endobj\n' +
+    '3 0 obj<</Type/Page/Parent 2 0 R/MediaBox[0 0 612 792]>>endobj\n' +
+    'trailer<</Root 1 0 R>>\n%%EOF\n'
+)
+
+export const DEFAULT_UPLOAD_FILES: Record<'image' | 'pdf' | 'csv' | 'text', UploadFile> = {
+  image: { name: 'eva-upload.png', mimeType: 'image/png', buffer: PNG_BYTES },
+  pdf: { name: 'eva-upload.pdf', mimeType: 'application/pdf', buffer: PDF_BYTES },
+  csv: {
+    name: 'eva-upload.csv',
+    mimeType: 'text/csv',
+    buffer: Buffer.from('name,email\nAda Lovelace,ada@example.com\nAlan Turing,alan@example.com\n'),
+  },
+  text: { name: 'eva-upload.txt', mimeType: 'text/plain', buffer: Buffer.from('EVA upload test file\n') },
+}
+
+/**
+ * MIME type of an accept token (extensions are mapped, types pass through)
+ */
+function typeOf(token: string): string {
+  return token.startsWith('.') ? EXTENSION_TYPES[token] || token : token
+}
+
+/**
+ * Whether two accept tokens describe overlapping files (`image/*` and `.png` do)
+ */
+function tokensMatch(a: string, b: string): boolean {
+  if (a === b) return true
+  const [typeA, typeB] = [typeOf(a), typeOf(b)]
+  if (typeA === typeB) return true
+  if (typeA.endsWith('/*')) return typeB.startsWith(typeA.slice(0, -1))
+  if (typeB.endsWith('/*')) return typeA.startsWith(typeB.slice(0, -1))
+  return false
+}
+
+/**
+ * Choose the file to upload to an input: a fixture path, or a built-in file
+ */
+export function chooseUploadFile(accept?: string, fixtures: Record<string, string> = {}): string | UploadFile {
+  const tokens = (accept || '')
+    .split(',')
+    .map((token) => token.trim().toLowerCase())
+    .filter(Boolean)
+
+  for (const token of tokens) {
+    const key = Object.keys(fixtures).find((fixture) => tokensMatch(fixture.toLowerCase(), token))
+    if (key) return fixtures[key]
+  }
+  if (fixtures['*']) return fixtures['*']
+
+  for (const token of tokens) {
+    const type = typeOf(token)
+    if (type.startsWith('image/')) return DEFAULT_UPLOAD_FILES.image
+    if (type === 'application/pdf') return DEFAULT_UPLOAD_FILES.pdf
+    if (type === 'text/csv' || type === 'application/vnd.ms-excel') return DEFAULT_UPLOAD_FILES.csv
+  }
+
+  // No accept attribute (or nothing we have a file for)
+  return tokens.length === 0 ? DEFAULT_UPLOAD_FILES.image : DEFAULT_UPLOAD_FILES.text
+}
+
+/**
+ * Name the app will see for an upload file
+ */
+export function uploadFileName(file: string | UploadFile): string {
+  return typeof file === 'string' ? basename(file) : file.name
+}
+
+/**
+ * Check the app reacted to an upload: it shows the file's name or a preview,
+ * or the state changed in some other way (progress, a new list entry)
+ */
+export async function verifyUpload(
+  page: Page,
+  action: Action,
+  fileName: string,
+  stateChanged: boolean
+): Promise<VerificationResult> {
+  const startTime = Date.now()
+
+  const reaction = await page
+    .evaluate((name) => {
+      const media = Array.from(document.querySelectorAll('img, video, embed, object, iframe'))
+      return {
+        nameShown: document.body.innerText.includes(name),
+        preview: media.some((el) => /^(blob|data):/.test(el.getAttribute('src') || el.getAttribute('data') || '')),
+      }
+    }, fileName)
+    .catch(() => ({ nameShown: false, preview: false }))
+
+  const passed = reaction.nameShown || reaction.preview || stateChanged
+
+  return {
+    passed,
+    message: passed
+      ? `Upload of "${fileName}" to "${action.label}" showed up in the page`
+      : `Uploading "${fileName}" to "${action.label}" had no visible effect`,
+    type: 'ui',
+    expected: 'file name, preview or state change',
+    actual: reaction.nameShown ? 'file name shown' : reaction.preview ? 'preview shown' : stateChanged ? 'state changed' : 'no change',
+    details: { file: fileName, selector: action.selector, ...reaction, stateChanged },
+    duration: Date.now() - startTime,
+  }
+}
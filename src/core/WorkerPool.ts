@@ -0,0 +1,123 @@
+/**
+ * WorkerPool - Runs exploration tasks concurrently from a shared source
+ *
+ * Each worker is an async loop that pulls the next task and processes it.
+ * Workers that find the source empty wait while other workers are still
+ * busy, since a running task may enqueue new ones. The pool finishes once
+ * the source is empty and every worker is idle, or when stop is requested.
+ * If a task fails, the other workers stop taking tasks and the pool waits
+ * for their current ones before rethrowing the error.
+ */
+
+export interface WorkerPoolOptions<T> {
+  /** Number of concurrent workers */
+  concurrency: number
+  /** Pull the next task (undefined when nothing is queued) */
+  next: () => T | undefined
+  /** Checked before each pull - return true to stop taking new tasks */
+  shouldStop?: () => boolean
+}
+
+export type WorkerHandler<T> = (task: T, workerId: number) => Promise<void>
+
+/**
+ * Pool of async workers sharing a single task source
+ */
+export class WorkerPool<T> {
+  private options: WorkerPoolOptions<T>
+  private active = 0
+  private waiters: Array<() => void> = []
+  private failed = false
+
+  constructor(options: WorkerPoolOptions<T>) {
+    this.options = {
+      ...options,
+      concurrency: Math.max(1, Math.floor(options.concurrency) || 1),
+    }
+  }
+
+  /**
+   * Number of workers in the pool
+   */
+  get size(): number {
+    return this.options.concurrency
+  }
+
+  /**
+   * Number of workers currently processing a task
+   */
+  get busy(): number {
+    return this.active
+  }
+
+  /**
+   * Run all workers until the task source is drained. Rejects with the first
+   * task error, once no worker is still running a task.
+   */
+  async run(handler: WorkerHandler<T>): Promise<void> {
+    this.failed = false
+    const workers: Promise<void>[] = []
+    for (let id = 0; id < this.options.concurrency; id++) {
+      workers.push(this.work(id, handler))
+    }
+
+    const results = await Promise.allSettled(workers)
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected')
+    if (failure) {
+      throw failure.reason
+    }
+  }
+
+  /**
+   * Single worker loop
+   */
+  private async work(workerId: number, handler: WorkerHandler<T>): Promise<void> {
+    while (!this.failed && !this.options.shouldStop?.()) {
+      const task = this.options.next()
+
+      if (task === undefined) {
+        // Nothing queued and nobody can add more - we're done
+        if (this.active === 0) break
+
+        // Another worker may still enqueue tasks
+        await this.waitForChange()
+        continue
+      }
+
+      this.active++
+      try {
+        await handler(task, workerId)
+      } catch (error) {
+        // Stop the other workers after their current tasks
+        this.failed = true
+        throw error
+      } finally {
+        this.active--
+        this.notify()
+      }
+    }
+
+    // Wake idle workers so they can re-check the exit condition
+    this.notify()
+  }
+
+  /**
+   * Wait until a worker finishes a task
+   */
+  private waitForChange(): Promise<void> {
+    return new Promise((resolve) => {
+      this.waiters.push(resolve)
+    })
+  }
+
+  /**
+   * Wake all waiting workers
+   */
+  private notify(): void {
+    const waiters = this.waiters
+    this.waiters = []
+    for (const wake of waiters) {
+      wake()
+    }
+  }
+}
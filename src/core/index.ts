@@ -4,5 +4,81 @@
 
 export { Explorer } from './Explorer.js'
 export { StateManager, type StateManagerOptions } from './StateManager.js'
-export { ActionDiscovery, type ActionDiscoveryOptions } from './ActionDiscovery.js'
+export {
+  ActionDiscovery,
+  locateAction,
+  resolveScrollConfig,
+  resolveHoverConfig,
+  type ActionDiscoveryOptions,
+} from './ActionDiscovery.js'
+export {
+  KeyboardNavigator,
+  activationKey,
+  keysFor,
+  type KeyboardNavigatorOptions,
+  type KeyboardPlan,
+  type TabOrder,
+  type FocusPosition,
+} from './KeyboardNavigator.js'
+export {
+  captureAccessibilityTree,
+  parseAriaSnapshot,
+  diffAccessibilityTrees,
+  findAccessibilityDiffIssues,
+  describeNode,
+  describeChange,
+} from './AccessibilityTree.js'
+export { DialogWatcher } from './Dialogs.js'
+export { LoginFlow } from './Login.js'
+export { SafetyPolicy, DEFAULT_DESTRUCTIVE_PATTERNS } from './Safety.js'
+export { FormFiller, fieldKind, sampleFromPattern, seededRandom, type FieldKind } from './FormFiller.js'
+export {
+  invalidValues,
+  invalidProbes,
+  checkFormErrors,
+  changedData,
+  invalidInputIssues,
+  type InvalidProbe,
+  type FormErrorReport,
+} from './InvalidInputs.js'
+export {
+  chooseUploadFile,
+  uploadFileName,
+  verifyUpload,
+  DEFAULT_UPLOAD_FILES,
+  type UploadFile,
+} from './Uploads.js'
+export { WorkerPool, type WorkerPoolOptions, type WorkerHandler } from './WorkerPool.js'
+export {
+  CheckpointStore,
+  CHECKPOINT_FILE,
+  type ExplorationCheckpoint,
+  type CheckpointState,
+} from './Checkpoint.js'
+export {
+  createStrategy,
+  BreadthFirstStrategy,
+  DepthFirstStrategy,
+  RandomWalkStrategy,
+  NoveltyFirstStrategy,
+  STRATEGY_NAMES,
+  type ExplorationStrategy,
+  type StrategyName,
+} from './ExplorationStrategy.js'
+export { CrawlScope, globToRegExp, toUrlPattern, type ScopeDecision } from './CrawlScope.js'
+export { RouteTemplateMatcher, RouteSampler, detectParam, templateToRegExp } from './RouteTemplates.js'
+export { resolveViewport, resolveViewports, isTouchProfile } from './DeviceProfiles.js'
+export { findEngineSpecificIssues, type EngineSpecificIssue } from './BrowserMatrix.js'
+export { resolveEmulationProfile, resolveEmulationProfiles, needsOwnContext } from './EmulationProfiles.js'
+export {
+  RouteSeeder,
+  parseRobotsTxt,
+  isAllowedByRobots,
+  parseSitemap,
+  loadRouteManifest,
+  scanNextRoutes,
+  type RobotsRules,
+  type SeedRoutes,
+  type TextFetcher,
+} from './RouteSeeds.js'
 export * from './types.js'
@@ -6,25 +6,75 @@
  */
 
 import type { Page } from 'playwright'
+import type { ExplorationStrategy, StrategyName } from './ExplorationStrategy.js'
 
 // ============================================================================
 // Viewport & Display
 // ============================================================================
 
+/** Browser engines Playwright can drive */
+export type BrowserName = 'chromium' | 'firefox' | 'webkit'
+
+export const BROWSER_NAMES: BrowserName[] = ['chromium', 'firefox', 'webkit']
+
+/** Built-in viewport names */
 export type ViewportName = 'mobile' | 'tablet' | 'desktop'
 
+/**
+ * A device profile: screen size plus how the browser emulates the device.
+ * Tasks, states and issues refer to profiles by name.
+ */
 export interface Viewport {
-  name: ViewportName
+  name: string
   width: number
   height: number
+  /** Device pixel ratio (default: 1) */
+  deviceScaleFactor?: number
+  /** Emulate a mobile browser (meta viewport, mobile UA behaviour) */
+  isMobile?: boolean
+  /** Emulate a touch screen (also enables touch-target checks) */
+  hasTouch?: boolean
+  /** User agent override */
+  userAgent?: string
 }
 
+/**
+ * Viewport as written in config: a built-in name, a Playwright `devices`
+ * name (e.g. "iPhone 13", "Galaxy Tab S4 landscape"), or a custom profile
+ */
+export type ViewportConfig = ViewportName | string | Viewport
+
 export const VIEWPORTS: Record<ViewportName, Viewport> = {
   mobile: { name: 'mobile', width: 375, height: 667 },
   tablet: { name: 'tablet', width: 768, height: 1024 },
   desktop: { name: 'desktop', width: 1280, height: 720 },
 }
 
+/** Built-in user-preference emulation profiles */
+export type EmulationName = 'dark' | 'reduced-motion' | 'forced-colors'
+
+/**
+ * User preferences to emulate in an extra validation pass over each state.
+ * Media features are switched on the open page; a locale or timezone needs
+ * its own browser context, so the state is reloaded for those profiles.
+ */
+export interface EmulationProfile {
+  name: string
+  /** `prefers-color-scheme` */
+  colorScheme?: 'light' | 'dark' | 'no-preference'
+  /** `prefers-reduced-motion` */
+  reducedMotion?: 'reduce' | 'no-preference'
+  /** `forced-colors` */
+  forcedColors?: 'active' | 'none'
+  /** Locale, e.g. `de-DE` (affects navigator.language and Accept-Language) */
+  locale?: string
+  /** Timezone, e.g. `Asia/Tokyo` */
+  timezoneId?: string
+}
+
+/** Emulation profile as written in config: a built-in name or a custom profile */
+export type EmulationConfig = EmulationName | string | EmulationProfile
+
 // ============================================================================
 // State Management
 // ============================================================================
@@ -44,15 +94,50 @@ export interface AppState {
   domFingerprint: string
   modalOpen: string | null
   formState?: FormState
+  /** Route template the URL belongs to (e.g. `/songs/:id`) */
+  routeTemplate?: string
 
   // Backend State (captured via adapters)
   dbSnapshot?: DatabaseSnapshot
   authState?: AuthState
 
   // Metadata
-  viewport: ViewportName
+  /** Viewport (device profile) name */
+  viewport: string
+  /** Browser engine the state was captured in */
+  browser?: BrowserName
   timestamp: number
   screenshot?: string
+  /** What a screen reader perceives (when `exploration.accessibilityTree` is on) */
+  accessibilityTree?: AccessibilityNode
+}
+
+/** A node of the normalised accessibility tree */
+export interface AccessibilityNode {
+  /** ARIA role (`text` for plain text) */
+  role: string
+  /** Accessible name (the text itself for `text` nodes) */
+  name?: string
+  /** States and properties, e.g. `level: '2'`, `checked: 'true'`, `url: '/songs'` */
+  attributes?: Record<string, string>
+  children?: AccessibilityNode[]
+}
+
+/** One node that appeared, disappeared or changed between two accessibility trees */
+export interface AccessibilityChange {
+  kind: 'added' | 'removed' | 'changed'
+  /** Ancestors, outermost first (e.g. `main > form "Login"`) */
+  path: string
+  /** The node before the action (removed and changed nodes) */
+  before?: Omit<AccessibilityNode, 'children'>
+  /** The node after the action (added and changed nodes) */
+  after?: Omit<AccessibilityNode, 'children'>
+}
+
+export interface AccessibilityTreeDiff {
+  changes: AccessibilityChange[]
+  /** Changes found, including those left out of `changes` to keep the diff small */
+  total: number
 }
 
 export interface FormState {
@@ -91,20 +176,55 @@ export type ActionType =
   | 'keypress'
   | 'upload'
   | 'hover'
+  | 'scroll'
+  | 'submit'
 
 export interface Action {
   /** Type of interaction */
   type: ActionType
 
-  /** CSS selector for the target element */
+  /**
+   * CSS selector for the target element. Elements in shadow roots are reached
+   * through their host: `my-form >> button`
+   */
   selector: string
 
+  /** Selectors of the iframes the element is in, outermost first */
+  frame?: string[]
+
+  /**
+   * Scroll position to restore before the action (elements found below the
+   * fold). For `scroll` actions, the position to scroll to.
+   */
+  scroll?: ScrollPosition
+
+  /**
+   * Keyboard mode: key presses that reach the element from the state's initial
+   * focus and activate it (fill actions type `value` instead of a final key)
+   */
+  keys?: string[]
+
   /** Human-readable label (button text, aria-label, etc.) */
   label: string
 
   /** Value for fill/select/keypress actions */
   value?: string
 
+  /** File types an upload input accepts (its `accept` attribute) */
+  accept?: string
+
+  /** The input a fill action types into, used to pick a valid value */
+  field?: FieldInfo
+
+  /** Selector of the form a submit action fills in */
+  form?: string
+
+  /** The fill, select and check steps a submit action performs before submitting, with their values */
+  fields?: Action[]
+
+  /** How a confirm() or prompt() the action opens is answered (default: the dialog policy) */
+  dialog?: DialogResponse
+
   /** Element tag name */
   tagName?: string
 
@@ -123,6 +243,29 @@ export interface Action {
   }
 }
 
+export interface FieldInfo {
+  /** Input type (`email`, `number`, ...), or `textarea` */
+  type: string
+  name?: string
+  id?: string
+  autocomplete?: string
+  pattern?: string
+  min?: string
+  max?: string
+  step?: string
+  minLength?: number
+  maxLength?: number
+  placeholder?: string
+  required?: boolean
+}
+
+export interface ScrollPosition {
+  x: number
+  y: number
+  /** Selector of the scrollable container (the page when omitted) */
+  container?: string
+}
+
 export interface DiscoveredAction extends Action {
   /** Whether the element is currently visible */
   visible: boolean
@@ -176,18 +319,28 @@ export interface ActionMatcher {
 }
 
 export interface SetupStep {
+  /** Navigate to a URL (paths are resolved against baseUrl) */
+  goto?: string
   /** Fill an input */
   fill?: string
   /** Click an element */
   click?: string
   /** Select an option */
   select?: string
+  /** Check a checkbox or radio button */
+  check?: string
+  /** Uncheck a checkbox */
+  uncheck?: string
   /** Value to fill/select */
   value?: string
+  /** Press a key or combination (`Enter`, `Control+A`) on the focused element */
+  press?: string
   /** Wait for element */
   waitFor?: string
   /** Wait milliseconds */
   delay?: number
+  /** Fail unless the page matches (checked after the step's other fields) */
+  expect?: UiExpectation
   /** Whether this step is optional (don't fail if element not found) */
   optional?: boolean
 }
@@ -332,9 +485,22 @@ export interface StateTransition {
   fromState: string
   toState: string
   action: Action
-  viewport: ViewportName
+  viewport: string
   verifications: VerificationResult[]
   timestamp: number
+  /** Set when the action leads out of the crawl scope (not explored; toState = fromState) */
+  boundary?: {
+    url: string
+    reason: string
+  }
+  /** What changed for a screen reader (when `exploration.accessibilityTree` is on) */
+  accessibilityDiff?: AccessibilityTreeDiff
+  /** Native dialogs the action opened, and how they were answered */
+  dialogs?: NativeDialog[]
+  /** The action opened toState in a new window or tab */
+  popup?: boolean
+  /** Write requests the action would have sent (safety mode `dry-run`) */
+  stubbedRequests?: StubbedRequest[]
 }
 
 export interface StateNode {
@@ -390,8 +556,22 @@ export interface Issue {
   /** State where issue was found */
   stateId?: string
 
-  /** Viewport where issue was found */
-  viewport?: ViewportName
+  /** Viewport (device profile) where issue was found */
+  viewport?: string
+
+  /** Browser engine where issue was found */
+  browser?: BrowserName
+
+  /** Emulation profile the issue only shows under (e.g. `dark`) */
+  emulation?: string
+
+  /** Transition the issue only shows after (stateId is its fromState) */
+  transition?: {
+    fromState: string
+    toState: string
+    /** Label of the action */
+    action: string
+  }
 
   /** Additional details */
   details?: Record<string, unknown>
@@ -437,6 +617,8 @@ export interface ValidatorConfig {
     exclude?: string[]
     /** Axe rules to ignore (e.g., 'color-contrast', 'link-name') */
     ignoredRules?: string[]
+    /** Rescan the regions each action changes, reporting new violations on the transition */
+    afterActions?: boolean
   }
   responsive?: {
     enabled: boolean
@@ -473,6 +655,17 @@ export interface ValidatorConfig {
     /** Follow redirects and report chains */
     followRedirects?: boolean
   }
+  focus?: {
+    enabled: boolean
+    /** Check that Escape closes dialogs */
+    checkEscape?: boolean
+    /** Check that focus returns to a dialog's trigger once it closes */
+    checkFocusReturn?: boolean
+    /** Check non-dialog content for keyboard traps */
+    checkTraps?: boolean
+    /** Most Tab presses per check */
+    maxTabStops?: number
+  }
 }
 
 export interface ValidatorResult {
@@ -515,6 +708,12 @@ export interface ExplorerConfig {
   /** Test data generators */
   testData?: TestDataConfig
 
+  /**
+   * Seed for `{{gen.*}}` test data placeholders. Defaults to a new seed each
+   * run (reported in the summary), so reuse it to repeat a run's data.
+   */
+  testDataSeed?: number
+
   /** Validator configuration */
   validators?: ValidatorConfig
 
@@ -522,26 +721,77 @@ export interface ExplorerConfig {
   exploration?: {
     /** Maximum depth (actions from start) */
     maxDepth?: number
-    /** Maximum unique states */
+    /** Maximum unique states (with several workers, the first ones in breadth-first order) */
     maxStates?: number
     /** Maximum actions per state */
     maxActionsPerState?: number
     /** Action timeout (ms) */
     timeout?: number
-    /** Viewports to test */
-    viewports?: ViewportName[]
+    /** Viewports to test: built-in names, Playwright device names, or custom profiles */
+    viewports?: ViewportConfig[]
     /** Wait for network idle after actions */
     waitForNetworkIdle?: boolean
     /** Delay between actions (ms) */
     actionDelay?: number
+    /** Number of browser contexts exploring in parallel */
+    concurrency?: number
+    /** Order in which queued tasks are explored (name or custom strategy) */
+    strategy?: StrategyName | ExplorationStrategy
+    /** Seed for randomized strategies and generated form values (same seed = same run) */
+    seed?: number
+    /** Which URLs may be explored (defaults to the base URL's origin) */
+    scope?: ScopeConfig
+    /** Group parameterised URLs (`/songs/1`, `/songs/2`) and explore only a sample of each */
+    routeTemplates?: RouteTemplateConfig
+    /** Extra start routes from sitemap.xml or a route manifest */
+    seeds?: SeedConfig
+    /** Time budget (ms) - stop taking new tasks and report what was found so far */
+    maxDuration?: number
+    /** Reach and trigger actions with the keyboard only, reporting those it can't reach or activate */
+    keyboard?: boolean
+    /** Store each state's accessibility tree and diff it on every transition */
+    accessibilityTree?: boolean
+    /** Scroll the page and scrollable containers while discovering actions */
+    scroll?: boolean | ScrollConfig
+    /** Hover elements to find menus and tooltips that open on mouseover */
+    hover?: boolean | HoverConfig
+    /**
+     * Submit each form with invalid values (empty required fields, bad emails,
+     * over-length text, out-of-range numbers) and check the errors are shown,
+     * tied to their field and focused, and that nothing was saved
+     */
+    invalidInputs?: boolean
   }
 
+  /** Files used by upload actions */
+  uploads?: UploadConfig
+
+  /** Native dialogs (alert, confirm, prompt) and popup windows */
+  dialogs?: DialogConfig
+
+  /** Which actions may run, and whether writes reach the server */
+  safety?: SafetyConfig
+
   /** Selectors to ignore */
   ignore?: string[]
 
-  /** Setup actions (run before exploration) */
+  /**
+   * Setup steps run in each new browser context before any page is explored
+   * (accept a cookie banner, pick a workspace). Contexts are recreated after a
+   * crash, and run setup again.
+   */
   setup?: SetupStep[]
 
+  /** Log in with a form before exploring, and again whenever the session expires */
+  login?: LoginConfig
+
+  /**
+   * Save the browser storage state after setup to this file. Later contexts
+   * start from it instead of repeating setup, and it can be passed as `auth`
+   * to later runs.
+   */
+  setupStorageState?: string
+
   /** Output configuration */
   output?: {
     /** Output directory */
@@ -554,13 +804,21 @@ export interface ExplorerConfig {
     screenshots?: boolean
     /** Screenshot format */
     screenshotFormat?: 'png' | 'jpeg'
+    /** Write a resumable checkpoint every N explored tasks (0 disables) */
+    checkpointInterval?: number
   }
 
   /** Headless mode */
   headless?: boolean
 
   /** Browser to use */
-  browser?: 'chromium' | 'firefox' | 'webkit'
+  browser?: BrowserName
+
+  /** Explore with several engines in one run (overrides `browser`) */
+  browsers?: BrowserName[]
+
+  /** User-preference profiles each state is validated under, besides the default rendering */
+  emulation?: EmulationConfig[]
 
   /** Cookies to set for authentication */
   cookies?: Array<{ name: string; value: string; url: string }>
@@ -569,6 +827,141 @@ export interface ExplorerConfig {
   extraHTTPHeaders?: Record<string, string>
 }
 
+export interface ScopeConfig {
+  /** Origins that may be explored (default: origins of baseUrl and startUrls) */
+  allowedOrigins?: string[]
+  /** Also allow subdomains of allowed origins */
+  includeSubdomains?: boolean
+  /** Only explore URLs matching one of these globs or regexes */
+  include?: (string | RegExp)[]
+  /** Never explore URLs matching these globs or regexes */
+  exclude?: (string | RegExp)[]
+}
+
+/** Route template (`/songs/:id`), optionally with its own sample size */
+export type RouteTemplate = string | { template: string; samples?: number }
+
+export interface RouteTemplateConfig {
+  /** Declared route templates, matched against the URL pathname */
+  templates?: RouteTemplate[]
+  /** Detect numeric, UUID and hash-like path segments and query values (default: true) */
+  autoDetect?: boolean
+  /** Concrete URLs explored per template (default: 3) */
+  samplesPerTemplate?: number
+}
+
+export interface SeedConfig {
+  /** Read sitemap.xml: true for the site's sitemap (or those listed in robots.txt), or sitemap URLs */
+  sitemap?: boolean | string | string[]
+  /** Drop seeded URLs disallowed by robots.txt (default: true) */
+  respectRobots?: boolean
+  /** JSON file listing routes (paths or URLs; `/songs/:id` patterns are only checked for coverage) */
+  manifest?: string
+  /** Next.js project directory whose `pages/` and `app/` routes are seeded */
+  nextjs?: string
+  /** Maximum seeded URLs (default: 200) */
+  maxUrls?: number
+}
+
+export interface ScrollConfig {
+  /** Most scroll steps per page or container (default: 10) */
+  maxSteps?: number
+  /** Also scroll scrollable containers such as feeds and side panels (default: true) */
+  containers?: boolean
+  /** Time for lazy-loaded content to arrive after each step (ms, default: 500) */
+  settleDelay?: number
+}
+
+export interface HoverConfig {
+  /** Most elements hovered per state (default: 10) */
+  maxChecks?: number
+  /** Time for menus and tooltips to appear, and to close again (ms, default: 200) */
+  settleDelay?: number
+}
+
+export interface LoginConfig {
+  /** Login page (paths are resolved against baseUrl) */
+  url: string
+  /** Username or email input */
+  usernameSelector: string
+  /** Password input */
+  passwordSelector: string
+  /** Submit button (default: press Enter in the password input) */
+  submitSelector?: string
+  /** Environment variable holding the username (default: EVA_USERNAME) */
+  usernameEnv?: string
+  /** Environment variable holding the password (default: EVA_PASSWORD) */
+  passwordEnv?: string
+  /** What the page shows once logged in (default: no longer looking logged out) */
+  success?: UiExpectation
+  /**
+   * How a logged-out page is recognised: its URL, or a visible element
+   * (default: the login page's path, or the login form's visible inputs and button)
+   */
+  loggedOut?: {
+    url?: string | RegExp
+    visible?: string
+  }
+  /** Times to log in again before giving up on a task (default: 2) */
+  maxAttempts?: number
+}
+
+export type DialogResponse = 'accept' | 'dismiss'
+
+export interface DialogConfig {
+  /**
+   * How confirm() and prompt() dialogs are answered. 'both' explores each
+   * answer as its own transition (default: 'dismiss', so confirmations of
+   * destructive actions are only accepted when configured)
+   */
+  policy?: DialogResponse | 'both'
+  /** Text entered into prompt() dialogs (default: the prompt's default value) */
+  promptValue?: string
+  /** alert() messages that are expected (substrings or regexes); others are reported */
+  expectedAlerts?: (string | RegExp)[]
+  /** Explore popups and new tabs as states of their own (default: true) */
+  followPopups?: boolean
+}
+
+export interface SafetyConfig {
+  /**
+   * `all` performs every action, `skip-destructive` never performs destructive
+   * ones, `allowlist` performs only actions matching `allow`, and `dry-run`
+   * performs every action but stubs write requests (default: 'all')
+   */
+  mode?: 'all' | 'skip-destructive' | 'allowlist' | 'dry-run'
+  /** Label or selector patterns (case-insensitive regexes) of the actions `allowlist` mode performs */
+  allow?: string[]
+  /** Label patterns (case-insensitive regexes) marking actions as destructive (default: delete, remove, logout...) */
+  destructivePatterns?: string[]
+}
+
+export interface StubbedRequest {
+  method: string
+  url: string
+  /** Request body (truncated) */
+  body?: string
+}
+
+export interface NativeDialog {
+  type: 'alert' | 'confirm' | 'prompt' | 'beforeunload'
+  message: string
+  response: DialogResponse
+  /** Text entered into a prompt */
+  value?: string
+}
+
+export interface UploadConfig {
+  /**
+   * Fixture files by the type they're used for: a MIME type (`image/png`),
+   * wildcard (`image/*`), extension (`.csv`), or `*` for anything else.
+   * Images, PDFs and CSV files are built in.
+   */
+  fixtures?: Record<string, string>
+  /** Check the app shows the uploaded file or otherwise reacts (default: true) */
+  verify?: boolean
+}
+
 // ============================================================================
 // Exploration Results
 // ============================================================================
@@ -577,9 +970,17 @@ export interface ExplorationTask {
   url: string
   path: Action[]
   depth: number
-  viewport: ViewportName
+  /** Viewport (device profile) name */
+  viewport: string
+  /** Browser engine (defaults to the first configured engine) */
+  browser?: BrowserName
+  /** Position in the exploration tree (start index, then action indices) */
+  order?: number[]
 }
 
+/** Why an exploration stopped before it ran out of tasks */
+export type StopReason = 'max-duration' | 'signal' | 'stopped'
+
 export interface ExplorationSummary {
   statesExplored: number
   actionsPerformed: number
@@ -587,11 +988,30 @@ export interface ExplorationSummary {
   verificationsPassed: number
   verificationsFailed: number
   duration: number
+  /** Browser engines explored */
+  browsers?: BrowserName[]
+  /** Emulation profiles states were validated under */
+  emulation?: string[]
+  /** Seed the run's `{{gen.*}}` test data was generated from */
+  testDataSeed?: number
+  /** Set when the run was stopped early, so the results only cover part of the app */
+  partial?: {
+    reason: StopReason
+    message: string
+  }
   coverage: {
     urlsCovered: string[]
     actionsDiscovered: number
     actionsExecuted: number
     schemasMatched: number
+    /** URLs that actions tried to reach outside the crawl scope */
+    outOfScopeUrls?: string[]
+    /** Concrete URLs not explored because their route template was already sampled */
+    skippedByTemplate?: Record<string, string[]>
+    /** Seeded routes (sitemap, manifest) the crawl never reached */
+    unreachedRoutes?: string[]
+    /** Actions the safety policy didn't perform, by the URL they were found on */
+    skippedBySafety?: Record<string, string[]>
   }
 }
 
@@ -632,5 +1052,6 @@ export type ExplorerEvent =
   | { type: 'complete'; result: ExplorationResult }
   | { type: 'error'; error: Error }
   | { type: 'warning'; message: string }
+  | { type: 'stopping'; reason: StopReason; message: string }
 
 export type ExplorerEventHandler = (event: ExplorerEvent) => void
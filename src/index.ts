@@ -25,6 +25,28 @@
 export { Explorer } from './core/Explorer.js'
 export { StateManager } from './core/StateManager.js'
 export { ActionDiscovery } from './core/ActionDiscovery.js'
+export { WorkerPool } from './core/WorkerPool.js'
+export { CheckpointStore } from './core/Checkpoint.js'
+export { CrawlScope } from './core/CrawlScope.js'
+export { RouteTemplateMatcher, RouteSampler } from './core/RouteTemplates.js'
+export { RouteSeeder } from './core/RouteSeeds.js'
+export { resolveViewport, resolveViewports } from './core/DeviceProfiles.js'
+export { findEngineSpecificIssues } from './core/BrowserMatrix.js'
+export { resolveEmulationProfile, resolveEmulationProfiles } from './core/EmulationProfiles.js'
+export { parseAriaSnapshot, diffAccessibilityTrees } from './core/AccessibilityTree.js'
+export { chooseUploadFile } from './core/Uploads.js'
+export { DialogWatcher } from './core/Dialogs.js'
+export { LoginFlow } from './core/Login.js'
+export { SafetyPolicy } from './core/Safety.js'
+export { FormFiller } from './core/FormFiller.js'
+export { invalidProbes } from './core/InvalidInputs.js'
+export {
+  createStrategy,
+  BreadthFirstStrategy,
+  DepthFirstStrategy,
+  RandomWalkStrategy,
+  NoveltyFirstStrategy,
+} from './core/ExplorationStrategy.js'
 
 // Adapters
 export { BaseAdapter, AdapterRegistry } from './adapters/BaseAdapter.js'
@@ -33,6 +55,7 @@ export { SupabaseAdapter } from './adapters/SupabaseAdapter.js'
 // Validators
 export { AccessibilityValidator } from './validators/AccessibilityValidator.js'
 export { ResponsiveValidator } from './validators/ResponsiveValidator.js'
+export { FocusValidator } from './validators/FocusValidator.js'
 
 // Types
 export type {
@@ -41,17 +64,35 @@ export type {
   AdapterConfig,
   ValidatorConfig,
   TestDataConfig,
+  ScopeConfig,
+  RouteTemplate,
+  RouteTemplateConfig,
+  SeedConfig,
 
   // State
   AppState,
   DatabaseSnapshot,
   AuthState,
   FormState,
+  AccessibilityNode,
+  AccessibilityChange,
+  AccessibilityTreeDiff,
 
   // Actions
   Action,
   ActionType,
   DiscoveredAction,
+  ScrollPosition,
+  FieldInfo,
+  ScrollConfig,
+  HoverConfig,
+  UploadConfig,
+  DialogConfig,
+  LoginConfig,
+  DialogResponse,
+  NativeDialog,
+  SafetyConfig,
+  StubbedRequest,
   ActionSchema,
   ActionMatcher,
   ActionExpectation,
@@ -68,6 +109,7 @@ export type {
   ActionResult,
   ExplorationResult,
   ExplorationSummary,
+  StopReason,
   ValidatorResult,
 
   // Graph
@@ -83,13 +125,26 @@ export type {
   // Viewport
   Viewport,
   ViewportName,
+  ViewportConfig,
+
+  // Browsers
+  BrowserName,
+
+  // Emulation
+  EmulationName,
+  EmulationProfile,
+  EmulationConfig,
 
   // Events
   ExplorerEvent,
   ExplorerEventHandler,
 } from './core/types.js'
 
-export { VIEWPORTS } from './core/types.js'
+export type { ExplorationCheckpoint } from './core/Checkpoint.js'
+export type { EngineSpecificIssue } from './core/BrowserMatrix.js'
+export type { ExplorationStrategy, StrategyName } from './core/ExplorationStrategy.js'
+
+export { VIEWPORTS, BROWSER_NAMES } from './core/types.js'
 
 /**
  * Create a configuration object with defaults
@@ -106,11 +161,13 @@ export function createConfig(config: Partial<import('./core/types.js').ExplorerC
     adapters: config.adapters,
     actionSchemas: config.actionSchemas,
     testData: config.testData,
+    testDataSeed: config.testDataSeed,
     validators: {
       accessibility: { enabled: true, rules: ['wcag21aa'], ...config.validators?.accessibility },
       responsive: { enabled: true, checkOverflow: true, checkTouchTargets: true, minTouchTarget: 44, ...config.validators?.responsive },
       console: { enabled: true, failOnError: false, ...config.validators?.console },
       network: { enabled: true, maxResponseTime: 5000, ...config.validators?.network },
+      focus: { enabled: false, ...config.validators?.focus },
     },
     exploration: {
       maxDepth: 10,
@@ -120,18 +177,29 @@ export function createConfig(config: Partial<import('./core/types.js').ExplorerC
       viewports: ['mobile', 'desktop'],
       waitForNetworkIdle: true,
       actionDelay: 100,
+      concurrency: 1,
+      strategy: 'bfs',
+      seed: 0,
       ...config.exploration,
     },
     ignore: config.ignore || [],
     setup: config.setup,
+    login: config.login,
+    setupStorageState: config.setupStorageState,
     output: {
       dir: './eva-qa-reports',
       formats: ['html', 'json'],
       screenshots: true,
       screenshotFormat: 'png',
+      checkpointInterval: 25,
       ...config.output,
     },
     headless: config.headless ?? true,
     browser: config.browser || 'chromium',
+    browsers: config.browsers,
+    emulation: config.emulation,
+    uploads: config.uploads,
+    dialogs: config.dialogs,
+    safety: config.safety,
   }
 }
@@ -1,12 +1,14 @@
 /**
  * AccessibilityValidator - WCAG compliance testing via axe-core
  *
- * Runs accessibility scans at each state and reports violations.
+ * Runs accessibility scans at each state and reports violations. Can also
+ * rescan just the parts of the page an action changed (menus, toasts, inline
+ * errors that appear without a new state).
  */
 
 import type { Page } from 'playwright'
 import AxeBuilder from '@axe-core/playwright'
-import type { Issue, IssueSeverity, ValidatorResult, ViewportName } from '../core/types.js'
+import type { Issue, IssueSeverity, ValidatorResult } from '../core/types.js'
 
 export interface AccessibilityValidatorConfig {
   /** Enable accessibility validation */
@@ -21,6 +23,8 @@ export interface AccessibilityValidatorConfig {
   ignoredRules?: string[]
   /** Only report issues at or above this severity */
   minSeverity?: IssueSeverity
+  /** Most changed regions scanned after an action (more = scan the whole page) */
+  maxRegions?: number
 }
 
 const DEFAULT_CONFIG: AccessibilityValidatorConfig = {
@@ -30,8 +34,12 @@ const DEFAULT_CONFIG: AccessibilityValidatorConfig = {
   disableRules: [],
   ignoredRules: [],
   minSeverity: 'minor',
+  maxRegions: 20,
 }
 
+/** Window property holding the elements changed since the last watchChanges */
+const CHANGES_KEY = '__evaChangedRegions'
+
 // Map axe-core impact to our severity levels
 const IMPACT_TO_SEVERITY: Record<string, IssueSeverity> = {
   critical: 'critical',
@@ -50,9 +58,9 @@ export class AccessibilityValidator {
   }
 
   /**
-   * Run accessibility scan on the current page
+   * Run accessibility scan on the current page (or only inside the given selectors)
    */
-  async validate(page: Page, viewport: ViewportName): Promise<ValidatorResult> {
+  async validate(page: Page, viewport: string, include?: string[]): Promise<ValidatorResult> {
     if (!this.config.enabled) {
       return { validator: 'accessibility', issues: [], duration: 0 }
     }
@@ -69,6 +77,11 @@ export class AccessibilityValidator {
         builder = builder.withTags(this.config.rules)
       }
 
+      // Limit the scan to regions
+      for (const selector of include || []) {
+        builder = builder.include(selector)
+      }
+
       // Exclude elements
       if (this.config.exclude) {
         for (const selector of this.config.exclude) {
@@ -163,6 +176,87 @@ export class AccessibilityValidator {
     }
   }
 
+  /**
+   * Start recording which parts of the page change (call before an action)
+   */
+  async watchChanges(page: Page): Promise<void> {
+    await page.evaluate((key) => {
+      const changed = new Set<Element>()
+      const observer = new MutationObserver((mutations) => {
+        for (const mutation of mutations) {
+          if (mutation.type === 'childList') {
+            mutation.addedNodes.forEach((node) => {
+              if (node instanceof Element) changed.add(node)
+              else if (node.parentElement) changed.add(node.parentElement)
+            })
+          } else if (mutation.target instanceof Element) {
+            changed.add(mutation.target)
+          } else if (mutation.target.parentElement) {
+            changed.add(mutation.target.parentElement)
+          }
+        }
+      })
+      observer.observe(document.documentElement, {
+        childList: true,
+        subtree: true,
+        attributes: true,
+        characterData: true,
+      })
+      ;(window as unknown as Record<string, unknown>)[key] = { changed, observer }
+    }, CHANGES_KEY)
+  }
+
+  /**
+   * Scan the regions changed since watchChanges. Returns no issues if nothing
+   * changed or the page navigated (the watcher is gone).
+   */
+  async validateChanges(page: Page, viewport: string): Promise<ValidatorResult> {
+    if (!this.config.enabled) {
+      return { validator: 'accessibility', issues: [], duration: 0 }
+    }
+
+    const startTime = Date.now()
+    const regions = await this.takeChangedRegions(page).catch(() => null)
+    if (!regions || regions.length === 0) {
+      return { validator: 'accessibility', issues: [], duration: Date.now() - startTime }
+    }
+
+    // Too many regions (or the whole body changed) - scan the whole page
+    const scoped = regions.length <= (this.config.maxRegions ?? 20) && !regions.includes('body')
+    const result = await this.validate(page, viewport, scoped ? regions : undefined)
+    return { ...result, duration: Date.now() - startTime }
+  }
+
+  /**
+   * Stop watching and list selectors for the outermost changed elements that are still attached
+   */
+  private async takeChangedRegions(page: Page): Promise<string[] | null> {
+    return page.evaluate((key) => {
+      const store = (window as unknown as Record<string, { changed: Set<Element>; observer: MutationObserver }>)[key]
+      if (!store) return null
+      store.observer.disconnect()
+      delete (window as unknown as Record<string, unknown>)[key]
+
+      const changed = Array.from(store.changed).filter(
+        (el) => el.isConnected && el !== document.documentElement && el !== document.head && !document.head.contains(el)
+      )
+      // Keep only the outermost changed elements
+      const outermost = changed.filter((el) => !changed.some((other) => other !== el && other.contains(el)))
+
+      const selectorFor = (el: Element): string => {
+        if (el === document.body) return 'body'
+        if (el.id) return `#${CSS.escape(el.id)}`
+        const parent = el.parentElement
+        if (!parent) return el.tagName.toLowerCase()
+        const sameTag = Array.from(parent.children).filter((child) => child.tagName === el.tagName)
+        const own = sameTag.length > 1 ? `${el.tagName.toLowerCase()}:nth-of-type(${sameTag.indexOf(el) + 1})` : el.tagName.toLowerCase()
+        return `${selectorFor(parent)} > ${own}`
+      }
+
+      return outermost.map(selectorFor)
+    }, CHANGES_KEY)
+  }
+
   /**
    * Get a summary of issues by severity
    */
@@ -10,7 +10,7 @@
  */
 
 import type { Page } from 'playwright'
-import type { Issue, ValidatorResult, ViewportName } from '../core/types.js'
+import type { Issue, ValidatorResult } from '../core/types.js'
 
 export interface BrokenLinksValidatorConfig {
   /** Enable broken link validation */
@@ -65,7 +65,7 @@ export class BrokenLinksValidator {
   /**
    * Run broken link validation on the current page
    */
-  async validate(page: Page, viewport: ViewportName): Promise<ValidatorResult> {
+  async validate(page: Page, viewport: string): Promise<ValidatorResult> {
     if (!this.config.enabled) {
       return { validator: 'brokenLinks', issues: [], duration: 0 }
     }
@@ -298,7 +298,7 @@ export class BrokenLinksValidator {
   /**
    * Convert a link check result to an issue (if it's a problem)
    */
-  private resultToIssue(result: LinkCheckResult, viewport: ViewportName): Issue | null {
+  private resultToIssue(result: LinkCheckResult, viewport: string): Issue | null {
     const { link, status, error } = result
 
     // Determine if this is an issue
@@ -0,0 +1,326 @@
+/**
+ * FocusValidator - Checks focus management for keyboard users
+ *
+ * Detects:
+ * - Dialogs that open without moving focus into them
+ * - Dialogs that let Tab move focus out while they're open
+ * - Dialogs that don't close on Escape
+ * - Focus not returning to the control that opened a dialog
+ * - Keyboard traps (Tab cycling through part of a page with no dialog open)
+ *
+ * Dialog checks run on the transition that opened the dialog; trap checks run
+ * on states without one. Both press keys, so the page should be reloaded afterwards.
+ */
+
+import type { Page } from 'playwright'
+import { locateAction } from '../core/ActionDiscovery.js'
+import { MODAL_SELECTORS } from '../core/StateManager.js'
+import type { Action, Issue, ValidatorResult } from '../core/types.js'
+
+export interface FocusValidatorConfig {
+  /** Enable focus validation */
+  enabled: boolean
+  /** Check that Escape closes dialogs */
+  checkEscape: boolean
+  /** Check that focus returns to the dialog's trigger once it closes */
+  checkFocusReturn: boolean
+  /** Check non-dialog content for keyboard traps */
+  checkTraps: boolean
+  /** Most Tab presses per check */
+  maxTabStops: number
+  /** Time for a dialog to close after Escape (ms) */
+  closeDelay: number
+}
+
+const DEFAULT_CONFIG: FocusValidatorConfig = {
+  enabled: true,
+  checkEscape: true,
+  checkFocusReturn: true,
+  checkTraps: true,
+  maxTabStops: 100,
+  closeDelay: 300,
+}
+
+/** Where focus is relative to the open dialog */
+interface DialogFocus {
+  /** Identifier of the visible dialog (null = none open) */
+  dialog: string | null
+  /** Whether the focused element is inside the dialog */
+  inside: boolean
+  /** Tab stops inside the dialog */
+  tabStops: number
+  /** Description of the focused element */
+  focused: string | null
+}
+
+/** Window property holding the elements focused while looking for a trap */
+const TRAP_ORDER_KEY = '__evaTrapOrder'
+
+const FOCUS_ORDER_HELP = 'https://www.w3.org/WAI/WCAG21/Understanding/focus-order.html'
+const DIALOG_HELP = 'https://www.w3.org/WAI/ARIA/apg/patterns/dialog-modal/'
+const KEYBOARD_TRAP_HELP = 'https://www.w3.org/WAI/WCAG21/Understanding/no-keyboard-trap.html'
+
+export class FocusValidator {
+  private config: FocusValidatorConfig
+
+  constructor(config: Partial<FocusValidatorConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config }
+  }
+
+  /**
+   * Check focus handling of a dialog the trigger action just opened
+   */
+  async validateModal(page: Page, trigger: Action, viewport: string): Promise<ValidatorResult> {
+    if (!this.config.enabled) {
+      return { validator: 'focus', issues: [], duration: 0 }
+    }
+
+    const startTime = Date.now()
+    const issues: Issue[] = []
+
+    const opened = await this.dialogFocus(page)
+    if (!opened.dialog) {
+      return { validator: 'focus', issues: [], duration: Date.now() - startTime }
+    }
+
+    const issue = (rule: string, severity: Issue['severity'], description: string, helpUrl: string): Issue => ({
+      type: 'accessibility',
+      severity,
+      rule,
+      description,
+      elements: [trigger.selector],
+      helpUrl,
+      viewport,
+      details: { dialog: opened.dialog, trigger: trigger.label },
+    })
+
+    // Focus moves into the dialog
+    if (!opened.inside) {
+      issues.push(
+        issue(
+          'modal-focus-not-moved',
+          'serious',
+          `Focus stays outside the dialog opened by "${trigger.label}"`,
+          DIALOG_HELP
+        )
+      )
+    }
+
+    // Tab cycles inside the dialog: one full cycle plus one press to wrap around
+    const presses = Math.min(opened.tabStops + 1, this.config.maxTabStops)
+    for (let i = 0; i < presses; i++) {
+      await page.keyboard.press('Tab')
+      const current = await this.dialogFocus(page)
+      if (!current.inside) {
+        issues.push({
+          ...issue(
+            'modal-focus-not-trapped',
+            'serious',
+            `Tab moves focus out of the dialog opened by "${trigger.label}"`,
+            DIALOG_HELP
+          ),
+          details: { dialog: opened.dialog, trigger: trigger.label, tabPresses: i + 1, focused: current.focused },
+        })
+        break
+      }
+    }
+
+    if (!this.config.checkEscape) {
+      return { validator: 'focus', issues, duration: Date.now() - startTime }
+    }
+
+    // Escape closes the dialog
+    await page.keyboard.press('Escape')
+    await page.waitForTimeout(this.config.closeDelay)
+    const closed = await this.dialogFocus(page)
+    if (closed.dialog) {
+      issues.push(
+        issue('modal-escape', 'moderate', `Escape doesn't close the dialog opened by "${trigger.label}"`, DIALOG_HELP)
+      )
+    } else if (this.config.checkFocusReturn) {
+      // Focus returns to the trigger
+      const returned = await locateAction(page, trigger)
+        .evaluate((el) => (el.getRootNode() as Document | ShadowRoot).activeElement === el, undefined, {
+          timeout: 2000,
+        })
+        .catch(() => false)
+      if (!returned) {
+        issues.push(
+          issue(
+            'modal-focus-not-returned',
+            'moderate',
+            `Focus doesn't return to "${trigger.label}" after its dialog closes`,
+            FOCUS_ORDER_HELP
+          )
+        )
+      }
+    }
+
+    return { validator: 'focus', issues, duration: Date.now() - startTime }
+  }
+
+  /**
+   * Check a page without an open dialog for keyboard traps: Tab should move
+   * focus through the whole page and back to where it started
+   */
+  async checkKeyboardTrap(page: Page, viewport: string): Promise<ValidatorResult> {
+    if (!this.config.enabled || !this.config.checkTraps) {
+      return { validator: 'focus', issues: [], duration: 0 }
+    }
+
+    const startTime = Date.now()
+    const issues: Issue[] = []
+
+    await page.evaluate((key) => {
+      ;(window as unknown as Record<string, unknown>)[key] = []
+    }, TRAP_ORDER_KEY)
+
+    try {
+      let previous = ''
+      for (let i = 0; i < this.config.maxTabStops; i++) {
+        await page.keyboard.press('Tab')
+
+        const result = await page.evaluate((key) => {
+          // Follow focus into shadow roots and same-origin iframes
+          let active: Element | null = document.activeElement
+          for (;;) {
+            if (active?.shadowRoot?.activeElement) {
+              active = active.shadowRoot.activeElement
+              continue
+            }
+            const frameDoc = active?.tagName === 'IFRAME' ? (active as HTMLIFrameElement).contentDocument : null
+            if (frameDoc?.activeElement && frameDoc.activeElement !== frameDoc.body) {
+              active = frameDoc.activeElement
+              continue
+            }
+            break
+          }
+          if (active === document.body) active = null
+
+          const order = (window as unknown as Record<string, Array<Element | null>>)[key]
+          if (!active) {
+            order.push(null)
+            return { status: 'none', loop: [] as string[] }
+          }
+
+          const index = order.indexOf(active)
+          // Back at the start: focus got all the way around
+          if (index === 0) return { status: 'cycle', loop: [] as string[] }
+          if (index === -1) {
+            order.push(active)
+            return { status: 'focus', loop: [] as string[] }
+          }
+
+          // Focus came back to an element other than the first - it's stuck in a loop
+          const describe = (el: Element | null): string => {
+            if (!el) return 'outside the page'
+            if (el.id) return `#${el.id}`
+            const className = typeof el.className === 'string' ? el.className.split(' ')[0] : ''
+            return className ? `${el.tagName.toLowerCase()}.${className}` : el.tagName.toLowerCase()
+          }
+          return { status: 'trap', loop: order.slice(index).map(describe) }
+        }, TRAP_ORDER_KEY)
+
+        if (result.status === 'trap') {
+          issues.push({
+            type: 'accessibility',
+            severity: 'critical',
+            rule: 'keyboard-trap',
+            description: `Keyboard focus is trapped cycling through ${result.loop.length} element${result.loop.length === 1 ? '' : 's'}`,
+            elements: result.loop,
+            helpUrl: KEYBOARD_TRAP_HELP,
+            viewport,
+            details: { tabPresses: i + 1 },
+          })
+          break
+        }
+        if (result.status === 'cycle') break
+        // Nothing on the page takes focus
+        if (result.status === 'none' && previous === 'none') break
+        previous = result.status
+      }
+    } finally {
+      await page.evaluate((key) => {
+        delete (window as unknown as Record<string, unknown>)[key]
+      }, TRAP_ORDER_KEY)
+    }
+
+    return { validator: 'focus', issues, duration: Date.now() - startTime }
+  }
+
+  /**
+   * Find the open dialog and whether focus is inside it
+   */
+  private async dialogFocus(page: Page): Promise<DialogFocus> {
+    return page.evaluate((selectors) => {
+      let dialog: Element | null = null
+      for (const selector of selectors) {
+        const el = document.querySelector(selector)
+        if (el && (el as HTMLElement).offsetParent !== null) {
+          dialog = el
+          break
+        }
+      }
+
+      // Follow focus into shadow roots and same-origin iframes
+      let active: Element | null = document.activeElement
+      for (;;) {
+        if (active?.shadowRoot?.activeElement) {
+          active = active.shadowRoot.activeElement
+          continue
+        }
+        const frameDoc = active?.tagName === 'IFRAME' ? (active as HTMLIFrameElement).contentDocument : null
+        if (frameDoc?.activeElement && frameDoc.activeElement !== frameDoc.body) {
+          active = frameDoc.activeElement
+          continue
+        }
+        break
+      }
+      if (active === document.body) active = null
+
+      // Walk up from the focused element across shadow roots and frames
+      let inside = false
+      for (let node: Node | null = active; node && dialog; ) {
+        if (node === dialog) {
+          inside = true
+          break
+        }
+        const parent: Node | null = node.parentNode
+        if (parent?.nodeType === Node.DOCUMENT_FRAGMENT_NODE) {
+          node = (parent as ShadowRoot).host
+        } else if (parent?.nodeType === Node.DOCUMENT_NODE) {
+          node = (parent as Document).defaultView?.frameElement ?? null
+        } else {
+          node = parent
+        }
+      }
+
+      const tabStops = dialog
+        ? Array.from(
+            dialog.querySelectorAll(
+              'a[href], button:not([disabled]), input:not([disabled]):not([type="hidden"]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])'
+            )
+          ).filter((el) => (el as HTMLElement).offsetParent !== null).length
+        : 0
+
+      const focused = active
+        ? active.id
+          ? `#${active.id}`
+          : `${active.tagName.toLowerCase()}${active.getAttribute('aria-label') ? `[aria-label="${active.getAttribute('aria-label')}"]` : ''}`
+        : null
+
+      return {
+        dialog: dialog
+          ? dialog.id ||
+            dialog.getAttribute('aria-labelledby') ||
+            dialog.getAttribute('aria-label') ||
+            (typeof dialog.className === 'string' ? dialog.className.split(' ')[0] : '') ||
+            'modal'
+          : null,
+        inside,
+        tabStops,
+        focused,
+      }
+    }, MODAL_SELECTORS)
+  }
+}
@@ -9,7 +9,7 @@
  */
 
 import type { Page, Response, Request } from 'playwright'
-import type { Issue, ValidatorResult, ViewportName } from '../core/types.js'
+import type { Issue, ValidatorResult } from '../core/types.js'
 
 export interface NetworkValidatorConfig {
   /** Enable network validation */
@@ -115,7 +115,7 @@ export class NetworkValidator {
   /**
    * Run network validation on collected requests
    */
-  async validate(page: Page, viewport: ViewportName): Promise<ValidatorResult> {
+  async validate(page: Page, viewport: string): Promise<ValidatorResult> {
     if (!this.config.enabled) {
       return { validator: 'network', issues: [], duration: 0 }
     }
@@ -179,7 +179,7 @@ export class NetworkValidator {
   /**
    * Analyze a single request for issues
    */
-  private analyzeRequest(request: NetworkRequest, viewport: ViewportName): Issue[] {
+  private analyzeRequest(request: NetworkRequest, viewport: string): Issue[] {
     const issues: Issue[] = []
 
     // Check for failed requests
@@ -212,7 +212,7 @@ export class NetworkValidator {
   /**
    * Create issue for failed request
    */
-  private createFailedRequestIssue(request: NetworkRequest, viewport: ViewportName): Issue {
+  private createFailedRequestIssue(request: NetworkRequest, viewport: string): Issue {
     const severity = this.getSeverityForResourceType(request.resourceType, 'error')
 
     return {
@@ -234,7 +234,7 @@ export class NetworkValidator {
   /**
    * Create issue for HTTP error response
    */
-  private createHttpErrorIssue(request: NetworkRequest, viewport: ViewportName): Issue {
+  private createHttpErrorIssue(request: NetworkRequest, viewport: string): Issue {
     const isServerError = request.status && request.status >= 500
     const severity = isServerError
       ? 'critical'
@@ -262,7 +262,7 @@ export class NetworkValidator {
   /**
    * Create issue for slow response
    */
-  private createSlowResponseIssue(request: NetworkRequest, viewport: ViewportName): Issue {
+  private createSlowResponseIssue(request: NetworkRequest, viewport: string): Issue {
     return {
       type: 'network',
       severity: 'minor',
@@ -284,7 +284,7 @@ export class NetworkValidator {
   /**
    * Create issue for mixed content
    */
-  private createMixedContentIssue(request: NetworkRequest, viewport: ViewportName): Issue {
+  private createMixedContentIssue(request: NetworkRequest, viewport: string): Issue {
     const isBlockable = ['script', 'stylesheet', 'xhr', 'fetch'].includes(request.resourceType)
 
     return {
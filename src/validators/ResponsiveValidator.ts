@@ -9,7 +9,8 @@
  */
 
 import type { Page } from 'playwright'
-import type { Issue, ValidatorResult, ViewportName } from '../core/types.js'
+import type { Issue, ValidatorResult, Viewport } from '../core/types.js'
+import { isTouchProfile, resolveViewport } from '../core/DeviceProfiles.js'
 
 export interface ResponsiveValidatorConfig {
   /** Enable responsive validation */
@@ -46,13 +47,17 @@ export class ResponsiveValidator {
   }
 
   /**
-   * Run responsive validation on the current page
+   * Run responsive validation on the current page.
+   * Takes a viewport name or a device profile (which decides whether touch targets are checked).
    */
-  async validate(page: Page, viewport: ViewportName): Promise<ValidatorResult> {
+  async validate(page: Page, device: string | Viewport): Promise<ValidatorResult> {
     if (!this.config.enabled) {
       return { validator: 'responsive', issues: [], duration: 0 }
     }
 
+    const profile = typeof device === 'string' ? this.findProfile(device) : device
+    const viewport = typeof device === 'string' ? device : device.name
+
     const startTime = Date.now()
     const issues: Issue[] = []
 
@@ -68,8 +73,8 @@ export class ResponsiveValidator {
       issues.push(...overflowIssues)
     }
 
-    // Check touch targets (only on mobile)
-    if (this.config.checkTouchTargets && viewport === 'mobile') {
+    // Check touch targets (only on touch devices)
+    if (this.config.checkTouchTargets && profile && isTouchProfile(profile)) {
       const touchIssues = await this.checkTouchTargets(page, viewport)
       issues.push(...touchIssues)
     }
@@ -93,12 +98,23 @@ export class ResponsiveValidator {
     }
   }
 
+  /**
+   * Look up a profile by viewport name (built-in or Playwright device)
+   */
+  private findProfile(name: string): Viewport | undefined {
+    try {
+      return resolveViewport(name)
+    } catch {
+      return undefined
+    }
+  }
+
   /**
    * Check for horizontal overflow
    */
   private async checkHorizontalOverflow(
     page: Page,
-    viewport: ViewportName,
+    viewport: string,
     viewportSize: { width: number; height: number }
   ): Promise<Issue[]> {
     const issues: Issue[] = []
@@ -185,7 +201,7 @@ export class ResponsiveValidator {
    * - Icons inside larger clickable parents
    * - Non-interactive elements (pointer-events: none)
    */
-  private async checkTouchTargets(page: Page, viewport: ViewportName): Promise<Issue[]> {
+  private async checkTouchTargets(page: Page, viewport: string): Promise<Issue[]> {
     const issues: Issue[] = []
     const minSize = this.config.minTouchTarget
 
@@ -309,7 +325,7 @@ export class ResponsiveValidator {
   /**
    * Check for text truncation (ellipsis)
    */
-  private async checkTextTruncation(page: Page, viewport: ViewportName): Promise<Issue[]> {
+  private async checkTextTruncation(page: Page, viewport: string): Promise<Issue[]> {
     const issues: Issue[] = []
 
     const truncated = await page.evaluate(() => {
@@ -365,7 +381,7 @@ export class ResponsiveValidator {
    */
   private async checkOutOfBounds(
     page: Page,
-    viewport: ViewportName,
+    viewport: string,
     viewportSize: { width: number; height: number }
   ): Promise<Issue[]> {
     const issues: Issue[] = []
@@ -21,3 +21,8 @@ export {
   NetworkValidator,
   type NetworkValidatorConfig,
 } from './NetworkValidator.js'
+
+export {
+  FocusValidator,
+  type FocusValidatorConfig,
+} from './FocusValidator.js'